@@ -1,3 +1,4 @@
+import { createHmac } from "crypto";
 import dotenv from "dotenv";
 dotenv.config();
 
@@ -13,6 +14,11 @@ interface EnvConfig {
     REFRESH_EXPIRES: string;
   };
 
+  QUOTE: {
+    TOKEN_SECRET: string;
+    VALIDITY_MINUTES: string;
+  };
+
   SUPER_ADMIN: {
     EMAIL: string;
     PASSWORD: string;
@@ -25,6 +31,38 @@ interface EnvConfig {
   GOOGLE_CLIENT_ID: string;
   GOOGLE_CLIENT_SECRET: string;
   GOOGLE_CALLBACK_URL: string;
+
+  DELIVERY_OTP: {
+    EXPIRES_IN_MINUTES: string;
+    MAX_ATTEMPTS: string;
+  };
+
+  UPLOAD_DIR: string;
+
+  MAX_DELIVERY_ATTEMPTS: string;
+
+  RETURN_FEE: {
+    POLICY: "free" | "full" | "percentage";
+    PERCENTAGE: string;
+  };
+
+  DELIVERY_ESTIMATE: {
+    PICKUP_CUTOFF_TIME: string;
+    WEEKEND_DAYS: string;
+  };
+
+  SLA_CHECK_INTERVAL_MINUTES: string;
+
+  PAYMENT_CURRENCY: string;
+  PAYMENT_GATEWAY?: "stripe" | "fake";
+  STRIPE_SECRET_KEY?: string;
+
+  NOTIFIER?: "twilio" | "console";
+  TWILIO: {
+    ACCOUNT_SID?: string;
+    AUTH_TOKEN?: string;
+    FROM_NUMBER?: string;
+  };
 }
 
 const loadEnvVariables = (): EnvConfig => {
@@ -66,6 +104,16 @@ const loadEnvVariables = (): EnvConfig => {
       REFRESH_SECRET: process.env.JWT_REFRESH_SECRET as string,
       REFRESH_EXPIRES: process.env.JWT_REFRESH_EXPIRES as string,
     },
+    QUOTE: {
+      // Derived from the access secret when unset, so a quote token is never
+      // accepted as an access token
+      TOKEN_SECRET:
+        process.env.QUOTE_TOKEN_SECRET ||
+        createHmac("sha256", process.env.JWT_ACCESS_SECRET as string)
+          .update("quote-token")
+          .digest("hex"),
+      VALIDITY_MINUTES: process.env.QUOTE_VALIDITY_MINUTES || "30",
+    },
     SUPER_ADMIN: {
       EMAIL: process.env.SUPER_ADMIN_EMAIL as string,
       PASSWORD: process.env.SUPER_ADMIN_PASSWORD as string,
@@ -77,6 +125,45 @@ const loadEnvVariables = (): EnvConfig => {
     GOOGLE_CLIENT_ID: process.env.GOOGLE_CLIENT_ID as string,
     GOOGLE_CLIENT_SECRET: process.env.GOOGLE_CLIENT_SECRET as string,
     GOOGLE_CALLBACK_URL: process.env.GOOGLE_CALLBACK_URL as string,
+
+    // Optional settings with defaults
+    DELIVERY_OTP: {
+      EXPIRES_IN_MINUTES: process.env.DELIVERY_OTP_EXPIRES_IN_MINUTES || "1440",
+      MAX_ATTEMPTS: process.env.DELIVERY_OTP_MAX_ATTEMPTS || "5",
+    },
+
+    UPLOAD_DIR: process.env.UPLOAD_DIR || "uploads",
+
+    MAX_DELIVERY_ATTEMPTS: process.env.MAX_DELIVERY_ATTEMPTS || "3",
+
+    RETURN_FEE: {
+      POLICY: (process.env.RETURN_FEE_POLICY || "full") as
+        | "free"
+        | "full"
+        | "percentage",
+      PERCENTAGE: process.env.RETURN_FEE_PERCENTAGE || "50",
+    },
+
+    DELIVERY_ESTIMATE: {
+      PICKUP_CUTOFF_TIME: process.env.PICKUP_CUTOFF_TIME || "14:00",
+      WEEKEND_DAYS: process.env.WEEKEND_DAYS || "0,6",
+    },
+
+    SLA_CHECK_INTERVAL_MINUTES: process.env.SLA_CHECK_INTERVAL_MINUTES || "15",
+
+    PAYMENT_CURRENCY: process.env.PAYMENT_CURRENCY || "USD",
+    PAYMENT_GATEWAY: process.env.PAYMENT_GATEWAY as
+      | "stripe"
+      | "fake"
+      | undefined,
+    STRIPE_SECRET_KEY: process.env.STRIPE_SECRET_KEY,
+
+    NOTIFIER: process.env.NOTIFIER as "twilio" | "console" | undefined,
+    TWILIO: {
+      ACCOUNT_SID: process.env.TWILIO_ACCOUNT_SID,
+      AUTH_TOKEN: process.env.TWILIO_AUTH_TOKEN,
+      FROM_NUMBER: process.env.TWILIO_FROM_NUMBER,
+    },
   };
 };
 
@@ -0,0 +1,44 @@
+import { StatusCodes } from "http-status-codes";
+import multer from "multer";
+import AppError from "../errorHelpers/AppError";
+
+const allowedImageTypes = ["image/jpeg", "image/png", "image/webp"];
+const allowedCsvTypes = ["text/csv", "application/vnd.ms-excel"];
+
+// Image uploads kept in memory and handed to the storage adapter by services
+export const multerUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5 MB
+  },
+  fileFilter: (req, file, cb) => {
+    if (!allowedImageTypes.includes(file.mimetype)) {
+      cb(
+        new AppError(
+          StatusCodes.BAD_REQUEST,
+          "Only JPEG, PNG or WEBP images are allowed"
+        )
+      );
+      return;
+    }
+    cb(null, true);
+  },
+});
+
+// CSV uploads (bulk imports) kept in memory and parsed by services
+export const csvUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 2 * 1024 * 1024, // 2 MB
+  },
+  fileFilter: (req, file, cb) => {
+    if (
+      !allowedCsvTypes.includes(file.mimetype) &&
+      !file.originalname.toLowerCase().endsWith(".csv")
+    ) {
+      cb(new AppError(StatusCodes.BAD_REQUEST, "Only CSV files are allowed"));
+      return;
+    }
+    cb(null, true);
+  },
+});
@@ -3,7 +3,7 @@ import httpStatus from "http-status-codes";
 import { JwtPayload } from "jsonwebtoken";
 import { envVars } from "../config/env";
 import AppError from "../errorHelpers/AppError";
-import { IsActive } from "../modules/user/user.interface";
+import { IsActive, UserRole } from "../modules/user/user.interface";
 import { User } from "../modules/user/user.model";
 import { verifyToken } from "../utils/jwt";
 
@@ -20,7 +20,7 @@ export const checkAuth =
       const verifiedToken = verifyToken(
         accessToken,
         envVars.JWT.ACCESS_SECRET
-      ) as JwtPayload & { userId: string; email: string; role: "admin" | "sender" | "receiver" };
+      ) as JwtPayload & { userId: string; email: string; role: UserRole };
 
       const isUserExist = await User.findOne({ email: verifiedToken.email });
 
@@ -48,6 +48,11 @@ export const globalErrorHandler = async (
     statusCode = simplifiedError.statusCode;
     errorSources = simplifiedError.errorSources as TErrorSources[];
     message = simplifiedError.message;
+  }
+  // File upload errors (size limits, unexpected fields)
+  else if (err.name === "MulterError") {
+    statusCode = 400;
+    message = err.message;
   } else if (err instanceof AppError) {
     statusCode = err.statusCode;
     message = err.message;
@@ -8,6 +8,7 @@ import { catchAsync } from "../../utils/catchAsync";
 import { sendResponse } from "../../utils/sendResponse";
 import { clearAuthCookies, setAuthCookie } from "../../utils/setCookie";
 import { createUserTokens } from "../../utils/userTokens";
+import type { UserRole } from "../user/user.interface";
 import { AuthService } from "./auth.service";
 
 // Register new user
@@ -169,7 +170,7 @@ const googleCallbackController = catchAsync(
     const tokenInfo = createUserTokens({
       _id: user.userId,
       email: user.email,
-      role: user.role as "admin" | "sender" | "receiver",
+      role: user.role as UserRole,
     });
 
     setAuthCookie(res, tokenInfo);
@@ -26,27 +26,27 @@ router.post("/refresh-token", AuthController.refreshToken);
 // Protected routes (authentication required)
 router.get(
   "/me",
-  checkAuth("admin", "sender", "receiver"),
+  checkAuth("admin", "sender", "receiver", "rider"),
   AuthController.getMe
 );
 
 router.put(
   "/profile",
-  checkAuth("admin", "sender", "receiver"),
+  checkAuth("admin", "sender", "receiver", "rider"),
   validateRequest(AuthValidation.updateProfileValidationSchema),
   AuthController.updateProfile
 );
 
 router.put(
   "/change-password",
-  checkAuth("admin", "sender", "receiver"),
+  checkAuth("admin", "sender", "receiver", "rider"),
   validateRequest(AuthValidation.changePasswordValidationSchema),
   AuthController.changePassword
 );
 
 router.post(
   "/logout",
-  checkAuth("admin", "sender", "receiver"),
+  checkAuth("admin", "sender", "receiver", "rider"),
   AuthController.logout
 );
 
@@ -0,0 +1,139 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { ClaimService } from "./claim.service";
+
+// Raise a claim on an insured parcel (Admin or Sender)
+const createClaim = catchAsync(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const userRole = req.user?.role;
+
+  if (!userId || !userRole) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ClaimService.createClaim(userId, userRole, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: `Claim ${result.claimNumber} raised successfully`,
+    data: result,
+  });
+});
+
+// Approve a claim (Admin only)
+const approveClaim = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ClaimService.approveClaim(id, adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Claim approved successfully",
+    data: result,
+  });
+});
+
+// Reject a claim (Admin only)
+const rejectClaim = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ClaimService.rejectClaim(id, adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Claim rejected successfully",
+    data: result,
+  });
+});
+
+// Record the payout of an approved claim (Admin only)
+const payClaim = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ClaimService.payClaim(
+    id,
+    adminId,
+    req.body?.payoutReference
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Claim payout recorded successfully",
+    data: result,
+  });
+});
+
+// Get claims (Admin or Sender)
+const getClaims = catchAsync(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const userRole = req.user?.role;
+
+  if (!userId || !userRole) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ClaimService.getClaims(
+    req.query as Record<string, string>,
+    userId,
+    userRole
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Claims retrieved successfully",
+    data: result.claims,
+    meta: result.meta,
+  });
+});
+
+// Get a claim (Admin or the Sender)
+const getClaimById = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+  const userRole = req.user?.role;
+
+  if (!userId || !userRole) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ClaimService.getClaimById(id, userId, userRole);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Claim retrieved successfully",
+    data: result,
+  });
+});
+
+export const ClaimController = {
+  createClaim,
+  approveClaim,
+  rejectClaim,
+  payClaim,
+  getClaims,
+  getClaimById,
+};
@@ -0,0 +1,53 @@
+import { ObjectId } from "mongoose";
+
+export enum ClaimType {
+  LOSS = "loss",
+  DAMAGE = "damage",
+}
+
+export enum ClaimStatus {
+  OPEN = "open",
+  APPROVED = "approved",
+  REJECTED = "rejected",
+  PAID = "paid",
+}
+
+export interface IClaim {
+  _id: ObjectId;
+  claimNumber: string; // Format: CLM-YYYYMMDD-XXXXXX
+  parcel: ObjectId; // Reference to the insured Parcel
+  trackingId: string;
+  sender: ObjectId; // Reference to the insured User
+  type: ClaimType;
+  description: string;
+  claimedAmount: number;
+  coverageAmount: number; // Payout ceiling, copied from the parcel's insurance
+  status: ClaimStatus;
+  approvedAmount?: number;
+  resolutionNote?: string; // Reason given when the claim was approved or rejected
+  reviewedBy?: ObjectId; // Reference to User
+  reviewedAt?: Date;
+  payoutReference?: string; // Bank or payment reference of the payout
+  paidBy?: ObjectId; // Reference to User
+  paidAt?: Date;
+  createdBy: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Input interfaces for API operations
+export interface ICreateClaim {
+  parcelId: string;
+  type: ClaimType;
+  description: string;
+  claimedAmount: number;
+}
+
+export interface IApproveClaim {
+  approvedAmount: number;
+  note?: string;
+}
+
+export interface IRejectClaim {
+  note: string;
+}
@@ -0,0 +1,121 @@
+import { model, Model, Schema } from "mongoose";
+import { ClaimStatus, ClaimType, IClaim } from "./claim.interface";
+
+export type ClaimModel = Model<IClaim>;
+
+// Main Claim Schema
+const claimSchema = new Schema<IClaim, ClaimModel>(
+  {
+    claimNumber: {
+      type: String,
+      required: [true, "Claim number is required"],
+      unique: true,
+      uppercase: true,
+      match: [
+        /^CLM-\d{8}-\d{6}$/,
+        "Claim number must follow format: CLM-YYYYMMDD-XXXXXX",
+      ],
+    },
+    parcel: {
+      type: Schema.Types.ObjectId,
+      ref: "Parcel",
+      required: [true, "Parcel is required"],
+    },
+    trackingId: {
+      type: String,
+      required: [true, "Tracking ID is required"],
+    },
+    sender: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Sender is required"],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: Object.values(ClaimType),
+        message: "Invalid claim type: {VALUE}",
+      },
+      required: [true, "Claim type is required"],
+    },
+    description: {
+      type: String,
+      required: [true, "Description is required"],
+      trim: true,
+      maxlength: [1000, "Description cannot exceed 1000 characters"],
+    },
+    claimedAmount: {
+      type: Number,
+      required: [true, "Claimed amount is required"],
+      min: [0.01, "Claimed amount must be greater than 0"],
+    },
+    coverageAmount: {
+      type: Number,
+      required: [true, "Coverage amount is required"],
+      min: [0, "Coverage amount cannot be negative"],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(ClaimStatus),
+        message: "Invalid claim status: {VALUE}",
+      },
+      default: ClaimStatus.OPEN,
+    },
+    approvedAmount: {
+      type: Number,
+      min: [0, "Approved amount cannot be negative"],
+    },
+    resolutionNote: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Note cannot exceed 500 characters"],
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    payoutReference: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Payout reference cannot exceed 200 characters"],
+    },
+    paidBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    paidAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Created by is required"],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+claimSchema.index({ parcel: 1, status: 1 });
+// A parcel has one claim at a time, rejected claims can be raised again
+claimSchema.index(
+  { parcel: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      status: {
+        $in: [ClaimStatus.OPEN, ClaimStatus.APPROVED, ClaimStatus.PAID],
+      },
+    },
+  }
+);
+claimSchema.index({ sender: 1, createdAt: -1 });
+claimSchema.index({ status: 1, createdAt: -1 });
+
+export const Claim = model<IClaim, ClaimModel>("Claim", claimSchema);
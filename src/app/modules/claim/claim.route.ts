@@ -0,0 +1,53 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { ClaimController } from "./claim.controller";
+import { ClaimValidation } from "./claim.validation";
+
+const router = Router();
+
+// Admin and Sender Routes
+router.post(
+  "/",
+  checkAuth("admin", "sender"),
+  validateRequest(ClaimValidation.createClaimValidationSchema),
+  ClaimController.createClaim
+);
+
+router.get(
+  "/",
+  checkAuth("admin", "sender"),
+  validateRequest(ClaimValidation.getClaimsValidationSchema),
+  ClaimController.getClaims
+);
+
+router.get(
+  "/:id",
+  checkAuth("admin", "sender"),
+  validateRequest(ClaimValidation.claimIdValidationSchema),
+  ClaimController.getClaimById
+);
+
+// Admin Routes
+router.put(
+  "/:id/approve",
+  checkAuth("admin"),
+  validateRequest(ClaimValidation.approveClaimValidationSchema),
+  ClaimController.approveClaim
+);
+
+router.put(
+  "/:id/reject",
+  checkAuth("admin"),
+  validateRequest(ClaimValidation.rejectClaimValidationSchema),
+  ClaimController.rejectClaim
+);
+
+router.put(
+  "/:id/pay",
+  checkAuth("admin"),
+  validateRequest(ClaimValidation.payClaimValidationSchema),
+  ClaimController.payClaim
+);
+
+export const ClaimRoutes = router;
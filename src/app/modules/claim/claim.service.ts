@@ -0,0 +1,295 @@
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { QueryBuilder } from "../../utils/QueryBuilder";
+import { ParcelStatus } from "../parcel/parcel.interface";
+import { Parcel } from "../parcel/parcel.model";
+import { IUser } from "../user/user.model";
+import {
+  ClaimStatus,
+  IApproveClaim,
+  IClaim,
+  ICreateClaim,
+  IRejectClaim,
+} from "./claim.interface";
+import { Claim } from "./claim.model";
+
+// Statuses in which the parcel has not been handed over to us yet
+const prePickupStatuses: string[] = [
+  ParcelStatus.REQUESTED,
+  ParcelStatus.APPROVED,
+  ParcelStatus.PICKUP_SCHEDULED,
+];
+
+// Generate a claim number that is not used yet: CLM-YYYYMMDD-XXXXXX
+const generateUniqueClaimNumber = async (): Promise<string> => {
+  const dateString = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const randomNumber = Math.floor(100000 + Math.random() * 900000);
+    const claimNumber = `CLM-${dateString}-${randomNumber}`;
+
+    if (!(await Claim.exists({ claimNumber }))) {
+      return claimNumber;
+    }
+  }
+
+  throw new AppError(
+    StatusCodes.INTERNAL_SERVER_ERROR,
+    "Failed to generate unique claim number"
+  );
+};
+
+// Reject users who are neither an admin nor the insured sender
+const assertClaimAccess = (
+  claim: IClaim,
+  userId: string,
+  userRole: string
+): void => {
+  // Works for populated senders and plain references alike
+  const senderId = (claim.sender as unknown as IUser)._id.toString();
+
+  if (userRole !== "admin" && senderId !== userId) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only access your own claims"
+    );
+  }
+};
+
+// Raise a loss or damage claim on an insured parcel (Admin or the Sender)
+const createClaim = async (
+  userId: string,
+  userRole: string,
+  payload: ICreateClaim
+): Promise<IClaim> => {
+  const parcel = await Parcel.findById(payload.parcelId);
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  if (userRole !== "admin" && parcel.sender.toString() !== userId) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only raise claims on your own parcels"
+    );
+  }
+
+  if (!parcel.insurance) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Claims can only be raised on insured parcels"
+    );
+  }
+
+  if (parcel.isCancelled || prePickupStatuses.includes(parcel.currentStatus)) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Claims can only be raised once the parcel has been picked up"
+    );
+  }
+
+  // Coverage is paid out once, so a parcel has one claim unless it was rejected
+  const existingClaim = await Claim.findOne({
+    parcel: parcel._id,
+    status: { $ne: ClaimStatus.REJECTED },
+  });
+  if (existingClaim) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      `Parcel already has claim ${existingClaim.claimNumber}`
+    );
+  }
+
+  const { coverageAmount } = parcel.insurance;
+  if (payload.claimedAmount > coverageAmount) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Claimed amount cannot exceed the parcel's coverage of ${coverageAmount}`
+    );
+  }
+
+  try {
+    return await Claim.create({
+      claimNumber: await generateUniqueClaimNumber(),
+      parcel: parcel._id,
+      trackingId: parcel.trackingId,
+      sender: parcel.sender,
+      type: payload.type,
+      description: payload.description,
+      claimedAmount: payload.claimedAmount,
+      coverageAmount,
+      createdBy: userId,
+    });
+  } catch (error) {
+    // Another claim on the parcel was raised at the same time
+    const { code, keyPattern } = error as {
+      code?: number;
+      keyPattern?: Record<string, unknown>;
+    };
+    if (code === 11000 && keyPattern?.parcel) {
+      throw new AppError(
+        StatusCodes.CONFLICT,
+        "Parcel already has an open or settled claim"
+      );
+    }
+    throw error;
+  }
+};
+
+// Load a claim and make sure it is in the expected status
+const getClaimInStatus = async (
+  claimId: string,
+  status: ClaimStatus
+): Promise<IClaim> => {
+  const claim = await Claim.findById(claimId);
+
+  if (!claim) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Claim not found");
+  }
+
+  if (claim.status !== status) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Only ${status} claims can be changed this way, claim is ${claim.status}`
+    );
+  }
+
+  return claim;
+};
+
+// Move a claim on only if no one else moved it first
+const transitionClaim = async (
+  claimId: string,
+  from: ClaimStatus,
+  update: Record<string, unknown>
+): Promise<IClaim> => {
+  const updatedClaim = await Claim.findOneAndUpdate(
+    { _id: claimId, status: from },
+    update,
+    { new: true, runValidators: true }
+  );
+
+  if (!updatedClaim) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Claim was changed by another request"
+    );
+  }
+
+  return updatedClaim;
+};
+
+// Approve a payout up to the claimed amount and coverage (Admin only)
+const approveClaim = async (
+  claimId: string,
+  adminId: string,
+  payload: IApproveClaim
+): Promise<IClaim> => {
+  const claim = await getClaimInStatus(claimId, ClaimStatus.OPEN);
+
+  const payoutCeiling = Math.min(claim.claimedAmount, claim.coverageAmount);
+  if (payload.approvedAmount > payoutCeiling) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Approved amount cannot exceed ${payoutCeiling}, the lower of the claimed amount and the coverage`
+    );
+  }
+
+  return transitionClaim(claimId, ClaimStatus.OPEN, {
+    status: ClaimStatus.APPROVED,
+    approvedAmount: payload.approvedAmount,
+    resolutionNote: payload.note,
+    reviewedBy: adminId,
+    reviewedAt: new Date(),
+  });
+};
+
+// Reject a claim with a reason (Admin only)
+const rejectClaim = async (
+  claimId: string,
+  adminId: string,
+  payload: IRejectClaim
+): Promise<IClaim> => {
+  await getClaimInStatus(claimId, ClaimStatus.OPEN);
+
+  return transitionClaim(claimId, ClaimStatus.OPEN, {
+    status: ClaimStatus.REJECTED,
+    resolutionNote: payload.note,
+    reviewedBy: adminId,
+    reviewedAt: new Date(),
+  });
+};
+
+// Record the payout of an approved claim (Admin only)
+const payClaim = async (
+  claimId: string,
+  adminId: string,
+  payoutReference?: string
+): Promise<IClaim> => {
+  await getClaimInStatus(claimId, ClaimStatus.APPROVED);
+
+  return transitionClaim(claimId, ClaimStatus.APPROVED, {
+    status: ClaimStatus.PAID,
+    payoutReference,
+    paidBy: adminId,
+    paidAt: new Date(),
+  });
+};
+
+// Get claims (Admin sees all, senders their own)
+const getClaims = async (
+  query: Record<string, string>,
+  userId: string,
+  userRole: string
+): Promise<{
+  claims: IClaim[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const claimQuery = new QueryBuilder(
+    Claim.find(userRole === "sender" ? { sender: userId } : {}).populate(
+      "sender",
+      "name email phone"
+    ),
+    { sort: "-createdAt", ...query }
+  )
+    .search(["claimNumber", "trackingId"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const claims = (await claimQuery.build()) as IClaim[];
+  const meta = await claimQuery.getMeta();
+
+  return { claims, meta };
+};
+
+// Get a claim (Admin or the Sender)
+const getClaimById = async (
+  claimId: string,
+  userId: string,
+  userRole: string
+): Promise<IClaim> => {
+  const claim = await Claim.findById(claimId).populate(
+    "sender",
+    "name email phone"
+  );
+
+  if (!claim) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Claim not found");
+  }
+
+  assertClaimAccess(claim, userId, userRole);
+
+  return claim;
+};
+
+export const ClaimService = {
+  createClaim,
+  approveClaim,
+  rejectClaim,
+  payClaim,
+  getClaims,
+  getClaimById,
+};
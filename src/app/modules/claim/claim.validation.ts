@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { ClaimStatus, ClaimType } from "./claim.interface";
+
+const objectIdSchema = (label: string) =>
+  z.string().regex(/^[0-9a-fA-F]{24}$/, `Invalid ${label} ID format`);
+
+const claimIdParamsSchema = z.object({
+  id: objectIdSchema("claim"),
+});
+
+const createClaimValidationSchema = z.object({
+  body: z.object({
+    parcelId: objectIdSchema("parcel"),
+    type: z.nativeEnum(ClaimType, {
+      message: "Claim type must be loss or damage",
+    }),
+    description: z
+      .string()
+      .trim()
+      .min(1, "Description is required")
+      .max(1000, "Description cannot exceed 1000 characters"),
+    claimedAmount: z.number().positive("Claimed amount must be greater than 0"),
+  }),
+});
+
+const approveClaimValidationSchema = z.object({
+  params: claimIdParamsSchema,
+  body: z.object({
+    approvedAmount: z.number().min(0, "Approved amount cannot be negative"),
+    note: z
+      .string()
+      .trim()
+      .max(500, "Note cannot exceed 500 characters")
+      .optional(),
+  }),
+});
+
+const rejectClaimValidationSchema = z.object({
+  params: claimIdParamsSchema,
+  body: z.object({
+    note: z
+      .string()
+      .trim()
+      .min(1, "Rejection reason is required")
+      .max(500, "Note cannot exceed 500 characters"),
+  }),
+});
+
+const payClaimValidationSchema = z.object({
+  params: claimIdParamsSchema,
+  body: z
+    .object({
+      payoutReference: z
+        .string()
+        .trim()
+        .max(200, "Payout reference cannot exceed 200 characters")
+        .optional(),
+    })
+    .optional(),
+});
+
+const getClaimsValidationSchema = z.object({
+  query: z.object({
+    status: z.nativeEnum(ClaimStatus).optional(),
+    type: z.nativeEnum(ClaimType).optional(),
+    searchTerm: z.string().trim().optional(),
+  }),
+});
+
+const claimIdValidationSchema = z.object({
+  params: claimIdParamsSchema,
+});
+
+export const ClaimValidation = {
+  createClaimValidationSchema,
+  approveClaimValidationSchema,
+  rejectClaimValidationSchema,
+  payClaimValidationSchema,
+  getClaimsValidationSchema,
+  claimIdValidationSchema,
+};
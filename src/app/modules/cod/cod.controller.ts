@@ -0,0 +1,160 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { CodService } from "./cod.service";
+
+// Record a rider's cash deposit at a hub (Admin only)
+const recordDeposit = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await CodService.recordDeposit(adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: `Deposit of ${result.totalAmount} for ${result.parcelCount} parcel(s) recorded successfully`,
+    data: result,
+  });
+});
+
+// Remit deposited cash to a sender (Admin only)
+const createRemittance = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await CodService.createRemittance(adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: "Remittance created successfully",
+    data: result,
+  });
+});
+
+// Get cash held by riders and hubs (Admin only)
+const getBalances = catchAsync(async (req: Request, res: Response) => {
+  const result = await CodService.getBalances();
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Cash-on-delivery balances retrieved successfully",
+    data: result,
+  });
+});
+
+// Get cash the rider still has to deposit (Rider only)
+const getMyBalance = catchAsync(async (req: Request, res: Response) => {
+  const riderId = req.user?.userId;
+
+  if (!riderId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await CodService.getRiderBalance(riderId);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Cash-on-delivery balance retrieved successfully",
+    data: result,
+  });
+});
+
+// Get cash-on-delivery totals of the sender (Sender only)
+const getMySummary = catchAsync(async (req: Request, res: Response) => {
+  const senderId = req.user?.userId;
+
+  if (!senderId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await CodService.getSenderSummary(senderId);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Cash-on-delivery summary retrieved successfully",
+    data: result,
+  });
+});
+
+// Get ledger entries (Admin only)
+const getLedgerEntries = catchAsync(async (req: Request, res: Response) => {
+  const result = await CodService.getLedgerEntries(
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Ledger entries retrieved successfully",
+    data: result.entries,
+    meta: result.meta,
+  });
+});
+
+// Get remittance statements (Admin or Sender)
+const getRemittances = catchAsync(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const userRole = req.user?.role;
+
+  if (!userId || !userRole) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await CodService.getRemittances(
+    req.query as Record<string, string>,
+    userId,
+    userRole
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Remittances retrieved successfully",
+    data: result.remittances,
+    meta: result.meta,
+  });
+});
+
+// Get a remittance statement (Admin or the Sender)
+const getRemittanceById = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+  const userRole = req.user?.role;
+
+  if (!userId || !userRole) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await CodService.getRemittanceById(id, userId, userRole);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Remittance retrieved successfully",
+    data: result,
+  });
+});
+
+export const CodController = {
+  recordDeposit,
+  createRemittance,
+  getBalances,
+  getMyBalance,
+  getMySummary,
+  getLedgerEntries,
+  getRemittances,
+  getRemittanceById,
+};
@@ -0,0 +1,86 @@
+import { ObjectId } from "mongoose";
+import { IHub } from "../hub/hub.interface";
+import { IUser } from "../user/user.model";
+
+export enum CodLedgerEntryType {
+  COLLECTION = "collection", // Rider collected cash from the receiver
+  DEPOSIT = "deposit", // Rider handed the cash in at a hub
+  REMITTANCE = "remittance", // Cash was paid out to the sender
+}
+
+export interface ICodLedgerEntry {
+  _id: ObjectId;
+  type: CodLedgerEntryType;
+  parcel: ObjectId; // Reference to Parcel
+  trackingId: string;
+  sender: ObjectId; // Reference to User the cash belongs to
+  amount: number;
+  rider?: ObjectId; // Rider (or admin) who collected the cash
+  hub?: ObjectId; // Hub the cash was deposited at
+  remittance?: ObjectId; // Reference to CodRemittance
+  recordedBy: ObjectId; // Reference to User
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ICodRemittanceItem {
+  parcel: ObjectId; // Reference to Parcel
+  trackingId: string;
+  amount: number;
+  collectedAt?: Date;
+  depositedAt?: Date;
+}
+
+// Statement of cash paid out to a sender
+export interface ICodRemittance {
+  _id: ObjectId;
+  sender: ObjectId; // Reference to User
+  items: ICodRemittanceItem[];
+  totalAmount: number;
+  reference?: string; // Bank transfer or payout reference
+  note?: string;
+  remittedBy: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Input interfaces for API operations
+export interface ICreateCodDeposit {
+  riderId: string;
+  hubId: string;
+  parcelIds?: string[]; // Every parcel the rider holds cash for when empty
+  note?: string;
+}
+
+export interface ICreateCodRemittance {
+  senderId: string;
+  parcelIds?: string[]; // Every deposited parcel of the sender when empty
+  reference?: string;
+  note?: string;
+}
+
+export interface ICodDepositReceipt {
+  rider: string; // User ID of the rider
+  hub: string; // Hub ID
+  parcelCount: number;
+  totalAmount: number;
+  trackingIds: string[];
+}
+
+export interface ICodTotal {
+  amount: number;
+  parcelCount: number;
+}
+
+export interface ICodBalances {
+  riders: (ICodTotal & { rider: IUser | null })[]; // Cash held by each rider
+  hubs: (ICodTotal & { hub: IHub | null })[]; // Cash deposited and not yet remitted
+}
+
+export interface ICodSenderSummary {
+  pending: ICodTotal; // Still to be collected on open parcels
+  collected: ICodTotal;
+  deposited: ICodTotal;
+  remitted: ICodTotal;
+}
@@ -0,0 +1,157 @@
+import { model, Model, Schema } from "mongoose";
+import {
+  CodLedgerEntryType,
+  ICodLedgerEntry,
+  ICodRemittance,
+  ICodRemittanceItem,
+} from "./cod.interface";
+
+export type CodLedgerEntryModel = Model<ICodLedgerEntry>;
+export type CodRemittanceModel = Model<ICodRemittance>;
+
+// Main COD Ledger Entry Schema
+const codLedgerEntrySchema = new Schema<ICodLedgerEntry, CodLedgerEntryModel>(
+  {
+    type: {
+      type: String,
+      enum: {
+        values: Object.values(CodLedgerEntryType),
+        message: "Invalid ledger entry type: {VALUE}",
+      },
+      required: [true, "Ledger entry type is required"],
+    },
+    parcel: {
+      type: Schema.Types.ObjectId,
+      ref: "Parcel",
+      required: [true, "Parcel is required"],
+    },
+    trackingId: {
+      type: String,
+      required: [true, "Tracking ID is required"],
+    },
+    sender: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Sender is required"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [0, "Amount cannot be negative"],
+    },
+    rider: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    hub: {
+      type: Schema.Types.ObjectId,
+      ref: "Hub",
+    },
+    remittance: {
+      type: Schema.Types.ObjectId,
+      ref: "CodRemittance",
+    },
+    recordedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Recorded by is required"],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Note cannot exceed 500 characters"],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+codLedgerEntrySchema.index({ parcel: 1, type: 1 });
+// Cash is collected once per parcel
+codLedgerEntrySchema.index(
+  { parcel: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { type: CodLedgerEntryType.COLLECTION },
+  }
+);
+codLedgerEntrySchema.index({ rider: 1, createdAt: -1 });
+codLedgerEntrySchema.index({ sender: 1, createdAt: -1 });
+
+// Remittance Item Schema
+const codRemittanceItemSchema = new Schema<ICodRemittanceItem>(
+  {
+    parcel: {
+      type: Schema.Types.ObjectId,
+      ref: "Parcel",
+      required: [true, "Parcel is required"],
+    },
+    trackingId: {
+      type: String,
+      required: [true, "Tracking ID is required"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [0, "Amount cannot be negative"],
+    },
+    collectedAt: {
+      type: Date,
+    },
+    depositedAt: {
+      type: Date,
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Main COD Remittance Schema
+const codRemittanceSchema = new Schema<ICodRemittance, CodRemittanceModel>(
+  {
+    sender: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Sender is required"],
+    },
+    items: {
+      type: [codRemittanceItemSchema],
+      default: [],
+    },
+    totalAmount: {
+      type: Number,
+      required: [true, "Total amount is required"],
+      min: [0, "Total amount cannot be negative"],
+    },
+    reference: {
+      type: String,
+      trim: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Note cannot exceed 500 characters"],
+    },
+    remittedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Remitted by is required"],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+codRemittanceSchema.index({ sender: 1, createdAt: -1 });
+
+export const CodLedgerEntry = model<ICodLedgerEntry, CodLedgerEntryModel>(
+  "CodLedgerEntry",
+  codLedgerEntrySchema
+);
+export const CodRemittance = model<ICodRemittance, CodRemittanceModel>(
+  "CodRemittance",
+  codRemittanceSchema
+);
@@ -0,0 +1,53 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { CodController } from "./cod.controller";
+import { CodValidation } from "./cod.validation";
+
+const router = Router();
+
+// Rider Routes
+router.get("/my-balance", checkAuth("rider"), CodController.getMyBalance);
+
+// Sender Routes
+router.get("/my-summary", checkAuth("sender"), CodController.getMySummary);
+
+// Admin and Sender Routes
+router.get(
+  "/remittances",
+  checkAuth("admin", "sender"),
+  CodController.getRemittances
+);
+
+router.get(
+  "/remittances/:id",
+  checkAuth("admin", "sender"),
+  validateRequest(CodValidation.remittanceIdValidationSchema),
+  CodController.getRemittanceById
+);
+
+// Admin Routes
+router.get("/balances", checkAuth("admin"), CodController.getBalances);
+
+router.get(
+  "/ledger",
+  checkAuth("admin"),
+  validateRequest(CodValidation.getLedgerValidationSchema),
+  CodController.getLedgerEntries
+);
+
+router.post(
+  "/deposits",
+  checkAuth("admin"),
+  validateRequest(CodValidation.createDepositValidationSchema),
+  CodController.recordDeposit
+);
+
+router.post(
+  "/remittances",
+  checkAuth("admin"),
+  validateRequest(CodValidation.createRemittanceValidationSchema),
+  CodController.createRemittance
+);
+
+export const CodRoutes = router;
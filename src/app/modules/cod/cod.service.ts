@@ -0,0 +1,445 @@
+import { StatusCodes } from "http-status-codes";
+import { Types } from "mongoose";
+import AppError from "../../errorHelpers/AppError";
+import { QueryBuilder } from "../../utils/QueryBuilder";
+import { IHub } from "../hub/hub.interface";
+import { Hub } from "../hub/hub.model";
+import { closedParcelStatuses } from "../parcel/parcel.constant";
+import { CodStatus, IParcel } from "../parcel/parcel.interface";
+import { Parcel } from "../parcel/parcel.model";
+import { IUser, User } from "../user/user.model";
+import {
+  CodLedgerEntryType,
+  ICodBalances,
+  ICodDepositReceipt,
+  ICodLedgerEntry,
+  ICodRemittance,
+  ICodSenderSummary,
+  ICodTotal,
+  ICreateCodDeposit,
+  ICreateCodRemittance,
+} from "./cod.interface";
+import { CodLedgerEntry, CodRemittance } from "./cod.model";
+
+// Sum cash-on-delivery amounts per holder (rider or hub)
+const sumAmountsBy = async (
+  status: CodStatus,
+  holderField: "cod.collectedBy" | "cod.depositHub"
+): Promise<(ICodTotal & { _id: Types.ObjectId })[]> => {
+  return Parcel.aggregate([
+    { $match: { "cod.status": status } },
+    {
+      $group: {
+        _id: `$${holderField}`,
+        amount: { $sum: "$cod.amount" },
+        parcelCount: { $sum: 1 },
+      },
+    },
+    { $sort: { amount: -1 } },
+  ]);
+};
+
+// Report parcel IDs that are not in the expected cash-on-delivery state
+const assertAllParcelsFound = (
+  parcelIds: string[] | undefined,
+  parcels: Pick<IParcel, "_id">[],
+  message: string
+): void => {
+  if (!parcelIds?.length) {
+    return;
+  }
+
+  const foundIds = new Set(parcels.map((parcel) => parcel._id.toString()));
+  const missingIds = parcelIds.filter((parcelId) => !foundIds.has(parcelId));
+
+  if (missingIds.length) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `${message}: ${missingIds.join(", ")}`
+    );
+  }
+};
+
+// Record the cash a rider collected when delivering a COD parcel
+const recordCollection = async (
+  parcel: IParcel,
+  riderId: Types.ObjectId,
+  recordedBy: string
+): Promise<void> => {
+  if (!parcel.cod) {
+    return;
+  }
+
+  try {
+    await CodLedgerEntry.create({
+      type: CodLedgerEntryType.COLLECTION,
+      parcel: parcel._id,
+      trackingId: parcel.trackingId,
+      sender: parcel.sender,
+      amount: parcel.cod.amount,
+      rider: riderId,
+      recordedBy,
+    });
+  } catch (error) {
+    // The collection was already recorded by a parallel delivery confirmation
+    if ((error as { code?: number }).code !== 11000) {
+      throw error;
+    }
+  }
+};
+
+// Record a rider handing collected cash in at a hub (Admin only)
+const recordDeposit = async (
+  adminId: string,
+  payload: ICreateCodDeposit
+): Promise<ICodDepositReceipt> => {
+  const rider = await User.findById(payload.riderId);
+  if (!rider) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Rider not found");
+  }
+
+  const hub = await Hub.findById(payload.hubId);
+  if (!hub) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Hub not found");
+  }
+  if (!hub.isActive) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cash cannot be deposited at an inactive hub"
+    );
+  }
+
+  const heldFilter = {
+    "cod.status": CodStatus.COLLECTED,
+    "cod.collectedBy": rider._id,
+    ...(payload.parcelIds?.length && { _id: { $in: payload.parcelIds } }),
+  };
+  const parcels = await Parcel.find(heldFilter).select("_id");
+
+  assertAllParcelsFound(
+    payload.parcelIds,
+    parcels,
+    "Rider does not hold cash for these parcels"
+  );
+  if (!parcels.length) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Rider does not hold any cash-on-delivery amounts"
+    );
+  }
+
+  // Only parcels still held by the rider are moved to the hub
+  const depositedAt = new Date();
+  await Parcel.updateMany(
+    { ...heldFilter, _id: { $in: parcels.map((parcel) => parcel._id) } },
+    {
+      "cod.status": CodStatus.DEPOSITED,
+      "cod.depositHub": hub._id,
+      "cod.depositedAt": depositedAt,
+    }
+  );
+
+  const depositedParcels = await Parcel.find({
+    _id: { $in: parcels.map((parcel) => parcel._id) },
+    "cod.status": CodStatus.DEPOSITED,
+    "cod.depositHub": hub._id,
+    "cod.depositedAt": depositedAt,
+  }).select("trackingId sender cod");
+
+  await CodLedgerEntry.insertMany(
+    depositedParcels.map((parcel) => ({
+      type: CodLedgerEntryType.DEPOSIT,
+      parcel: parcel._id,
+      trackingId: parcel.trackingId,
+      sender: parcel.sender,
+      amount: parcel.cod?.amount ?? 0,
+      rider: rider._id,
+      hub: hub._id,
+      recordedBy: adminId,
+      note: payload.note,
+    }))
+  );
+
+  return {
+    rider: rider._id.toString(),
+    hub: hub._id.toString(),
+    parcelCount: depositedParcels.length,
+    totalAmount: depositedParcels.reduce(
+      (total, parcel) => total + (parcel.cod?.amount ?? 0),
+      0
+    ),
+    trackingIds: depositedParcels.map((parcel) => parcel.trackingId),
+  };
+};
+
+// Pay deposited cash out to a sender and issue a statement (Admin only)
+const createRemittance = async (
+  adminId: string,
+  payload: ICreateCodRemittance
+): Promise<ICodRemittance> => {
+  const sender = await User.findById(payload.senderId);
+  if (!sender || sender.role !== "sender") {
+    throw new AppError(StatusCodes.NOT_FOUND, "Sender not found");
+  }
+
+  const depositedFilter = {
+    sender: sender._id,
+    "cod.status": CodStatus.DEPOSITED,
+    ...(payload.parcelIds?.length && { _id: { $in: payload.parcelIds } }),
+  };
+  const parcels = await Parcel.find(depositedFilter).select("_id");
+
+  assertAllParcelsFound(
+    payload.parcelIds,
+    parcels,
+    "Cash for these parcels has not been deposited for this sender"
+  );
+  if (!parcels.length) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "No deposited cash-on-delivery amounts to remit for this sender"
+    );
+  }
+
+  // Claim the parcels first so no amount is remitted twice
+  const remittanceId = new Types.ObjectId();
+  await Parcel.updateMany(
+    { ...depositedFilter, _id: { $in: parcels.map((parcel) => parcel._id) } },
+    {
+      "cod.status": CodStatus.REMITTED,
+      "cod.remittance": remittanceId,
+      "cod.remittedAt": new Date(),
+    }
+  );
+
+  const remittedParcels = await Parcel.find({
+    "cod.remittance": remittanceId,
+  }).select("trackingId sender cod");
+
+  if (!remittedParcels.length) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Amounts were remitted by another request, please retry"
+    );
+  }
+
+  const items = remittedParcels.map((parcel) => ({
+    parcel: parcel._id,
+    trackingId: parcel.trackingId,
+    amount: parcel.cod?.amount ?? 0,
+    collectedAt: parcel.cod?.collectedAt,
+    depositedAt: parcel.cod?.depositedAt,
+  }));
+
+  const remittance = await CodRemittance.create({
+    _id: remittanceId,
+    sender: sender._id,
+    items,
+    totalAmount: items.reduce((total, item) => total + item.amount, 0),
+    reference: payload.reference,
+    note: payload.note,
+    remittedBy: adminId,
+  });
+
+  await CodLedgerEntry.insertMany(
+    remittedParcels.map((parcel) => ({
+      type: CodLedgerEntryType.REMITTANCE,
+      parcel: parcel._id,
+      trackingId: parcel.trackingId,
+      sender: parcel.sender,
+      amount: parcel.cod?.amount ?? 0,
+      hub: parcel.cod?.depositHub,
+      remittance: remittanceId,
+      recordedBy: adminId,
+      note: payload.reference,
+    }))
+  );
+
+  return remittance;
+};
+
+// Cash held by riders and hubs (Admin only)
+const getBalances = async (): Promise<ICodBalances> => {
+  const [riderTotals, hubTotals] = await Promise.all([
+    sumAmountsBy(CodStatus.COLLECTED, "cod.collectedBy"),
+    sumAmountsBy(CodStatus.DEPOSITED, "cod.depositHub"),
+  ]);
+
+  const [riders, hubs] = await Promise.all([
+    User.find({ _id: { $in: riderTotals.map((total) => total._id) } }).select(
+      "name email phone role"
+    ),
+    Hub.find({ _id: { $in: hubTotals.map((total) => total._id) } }).select(
+      "code name type"
+    ),
+  ]);
+  const ridersById = new Map<string, IUser>(
+    riders.map((rider) => [rider._id.toString(), rider])
+  );
+  const hubsById = new Map<string, IHub>(
+    hubs.map((hub) => [hub._id.toString(), hub])
+  );
+
+  return {
+    riders: riderTotals.map(({ _id, amount, parcelCount }) => ({
+      rider: ridersById.get(_id.toString()) ?? null,
+      amount,
+      parcelCount,
+    })),
+    hubs: hubTotals.map(({ _id, amount, parcelCount }) => ({
+      hub: hubsById.get(_id.toString()) ?? null,
+      amount,
+      parcelCount,
+    })),
+  };
+};
+
+// Cash a rider still has to deposit (Rider only)
+const getRiderBalance = async (
+  riderId: string
+): Promise<ICodTotal & { parcels: IParcel[] }> => {
+  const parcels = await Parcel.find({
+    "cod.status": CodStatus.COLLECTED,
+    "cod.collectedBy": riderId,
+  })
+    .select("trackingId receiver.name cod")
+    .sort({ "cod.collectedAt": 1 });
+
+  return {
+    amount: parcels.reduce(
+      (total, parcel) => total + (parcel.cod?.amount ?? 0),
+      0
+    ),
+    parcelCount: parcels.length,
+    parcels,
+  };
+};
+
+// Cash-on-delivery totals of a sender by stage (Sender only)
+const getSenderSummary = async (
+  senderId: string
+): Promise<ICodSenderSummary> => {
+  const totals = await Parcel.aggregate<ICodTotal & { _id: CodStatus }>([
+    {
+      $match: {
+        sender: new Types.ObjectId(senderId),
+        cod: { $exists: true },
+        // Amounts of closed undelivered parcels will never be collected
+        $or: [
+          { "cod.status": { $ne: CodStatus.PENDING } },
+          { currentStatus: { $nin: closedParcelStatuses } },
+        ],
+      },
+    },
+    {
+      $group: {
+        _id: "$cod.status",
+        amount: { $sum: "$cod.amount" },
+        parcelCount: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const getTotal = (status: CodStatus): ICodTotal => {
+    const total = totals.find((entry) => entry._id === status);
+    return {
+      amount: total?.amount ?? 0,
+      parcelCount: total?.parcelCount ?? 0,
+    };
+  };
+
+  return {
+    pending: getTotal(CodStatus.PENDING),
+    collected: getTotal(CodStatus.COLLECTED),
+    deposited: getTotal(CodStatus.DEPOSITED),
+    remitted: getTotal(CodStatus.REMITTED),
+  };
+};
+
+// Get ledger entries (Admin only)
+const getLedgerEntries = async (
+  query: Record<string, string>
+): Promise<{
+  entries: ICodLedgerEntry[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const ledgerQuery = new QueryBuilder(
+    CodLedgerEntry.find()
+      .populate("rider", "name email phone")
+      .populate("hub", "code name"),
+    query
+  )
+    .search(["trackingId"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const entries = (await ledgerQuery.build()) as ICodLedgerEntry[];
+  const meta = await ledgerQuery.getMeta();
+
+  return { entries, meta };
+};
+
+// Get remittance statements (Admin sees all, senders their own)
+const getRemittances = async (
+  query: Record<string, string>,
+  userId: string,
+  userRole: string
+): Promise<{
+  remittances: ICodRemittance[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const remittanceQuery = new QueryBuilder(
+    CodRemittance.find(userRole === "sender" ? { sender: userId } : {})
+      .populate("sender", "name email phone"),
+    query
+  )
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const remittances = (await remittanceQuery.build()) as ICodRemittance[];
+  const meta = await remittanceQuery.getMeta();
+
+  return { remittances, meta };
+};
+
+// Get a remittance statement with its parcels (Admin or the sender)
+const getRemittanceById = async (
+  remittanceId: string,
+  userId: string,
+  userRole: string
+): Promise<ICodRemittance> => {
+  const remittance = await CodRemittance.findById(remittanceId).populate(
+    "sender",
+    "name email phone"
+  );
+
+  if (!remittance) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Remittance not found");
+  }
+
+  const senderId = (remittance.sender as unknown as IUser)._id.toString();
+  if (userRole === "sender" && senderId !== userId) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only view your own remittance statements"
+    );
+  }
+
+  return remittance;
+};
+
+export const CodService = {
+  recordCollection,
+  recordDeposit,
+  createRemittance,
+  getBalances,
+  getRiderBalance,
+  getSenderSummary,
+  getLedgerEntries,
+  getRemittances,
+  getRemittanceById,
+};
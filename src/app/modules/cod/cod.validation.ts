@@ -0,0 +1,64 @@
+import { z } from "zod";
+import { CodLedgerEntryType } from "./cod.interface";
+
+const objectIdSchema = (label: string) =>
+  z.string().regex(/^[0-9a-fA-F]{24}$/, `Invalid ${label} ID format`);
+
+const parcelIdsSchema = z
+  .array(objectIdSchema("parcel"))
+  .min(1, "At least one parcel is required")
+  .max(500, "Cannot settle more than 500 parcels at once")
+  .refine((ids) => new Set(ids).size === ids.length, {
+    message: "Each parcel can only be listed once",
+  });
+
+const noteSchema = z
+  .string()
+  .trim()
+  .max(500, "Note cannot exceed 500 characters");
+
+const createDepositValidationSchema = z.object({
+  body: z.object({
+    riderId: objectIdSchema("rider"),
+    hubId: objectIdSchema("hub"),
+    parcelIds: parcelIdsSchema.optional(),
+    note: noteSchema.optional(),
+  }),
+});
+
+const createRemittanceValidationSchema = z.object({
+  body: z.object({
+    senderId: objectIdSchema("sender"),
+    parcelIds: parcelIdsSchema.optional(),
+    reference: z
+      .string()
+      .trim()
+      .min(1, "Reference cannot be empty")
+      .max(100, "Reference cannot exceed 100 characters")
+      .optional(),
+    note: noteSchema.optional(),
+  }),
+});
+
+const getLedgerValidationSchema = z.object({
+  query: z.object({
+    type: z.nativeEnum(CodLedgerEntryType).optional(),
+    rider: objectIdSchema("rider").optional(),
+    hub: objectIdSchema("hub").optional(),
+    sender: objectIdSchema("sender").optional(),
+    trackingId: z.string().trim().optional(),
+  }),
+});
+
+const remittanceIdValidationSchema = z.object({
+  params: z.object({
+    id: objectIdSchema("remittance"),
+  }),
+});
+
+export const CodValidation = {
+  createDepositValidationSchema,
+  createRemittanceValidationSchema,
+  getLedgerValidationSchema,
+  remittanceIdValidationSchema,
+};
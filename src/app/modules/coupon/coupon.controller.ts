@@ -0,0 +1,108 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { CouponService } from "./coupon.service";
+
+// Get all coupons (Admin only)
+const getAllCoupons = catchAsync(async (req: Request, res: Response) => {
+  const result = await CouponService.getAllCoupons(
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Coupons retrieved successfully",
+    data: result.coupons,
+    meta: result.meta,
+  });
+});
+
+// Get coupon by ID (Admin only)
+const getCouponById = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await CouponService.getCouponById(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Coupon retrieved successfully",
+    data: result,
+  });
+});
+
+// Create coupon (Admin only)
+const createCoupon = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await CouponService.createCoupon(adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: "Coupon created successfully",
+    data: result,
+  });
+});
+
+// Update coupon (Admin only)
+const updateCoupon = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await CouponService.updateCoupon(id, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Coupon updated successfully",
+    data: result,
+  });
+});
+
+// Delete coupon (Admin only)
+const deleteCoupon = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  await CouponService.deleteCoupon(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Coupon deleted successfully",
+    data: null,
+  });
+});
+
+// Get coupon redemptions (Admin only)
+const getCouponRedemptions = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await CouponService.getCouponRedemptions(
+    id,
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Coupon redemptions retrieved successfully",
+    data: result.redemptions,
+    meta: result.meta,
+  });
+});
+
+export const CouponController = {
+  getAllCoupons,
+  getCouponById,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  getCouponRedemptions,
+};
@@ -0,0 +1,72 @@
+import { ObjectId } from "mongoose";
+import { IDeliveryInfo, IParcelDetails } from "../parcel/parcel.interface";
+
+export enum CouponDiscountType {
+  PERCENTAGE = "percentage", // Percent of the shipping fee
+  FLAT = "flat", // Fixed amount off the shipping fee
+}
+
+export enum CouponRedemptionStatus {
+  REDEEMED = "redeemed",
+  RELEASED = "released", // Parcel was cancelled or the coupon was removed
+}
+
+export interface ICoupon {
+  _id: ObjectId;
+  code: string; // Uppercase code senders enter
+  description?: string;
+  discountType: CouponDiscountType;
+  discountValue: number; // Percent (1-100) or flat amount
+  maxDiscount?: number; // Cap for percentage discounts
+  minOrderAmount?: number; // Minimum shipping fee before the discount
+  validFrom?: Date;
+  validUntil?: Date;
+  usageLimit?: number; // Redemptions allowed across all senders
+  perUserLimit?: number; // Redemptions allowed per sender
+  usageCount: number; // Active (not released) redemptions
+  urgencies: IDeliveryInfo["urgency"][]; // Any urgency when empty
+  parcelTypes: IParcelDetails["type"][]; // Any parcel type when empty
+  isActive: boolean;
+  createdBy?: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ICouponRedemption {
+  _id: ObjectId;
+  coupon: ObjectId; // Reference to Coupon
+  code: string;
+  user: ObjectId; // Reference to the sender (User)
+  parcel: ObjectId; // Reference to Parcel
+  trackingId: string;
+  discount: number; // Amount taken off the parcel's fee
+  status: CouponRedemptionStatus;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Redemptions a sender currently holds of a coupon, checked against perUserLimit
+export interface ICouponUsage {
+  _id: ObjectId;
+  coupon: ObjectId; // Reference to Coupon
+  user: ObjectId; // Reference to the sender (User)
+  count: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Parcel a coupon is checked against
+export interface ICouponOrder {
+  subtotal: number; // Shipping fee before the discount
+  urgency: IDeliveryInfo["urgency"];
+  parcelType: IParcelDetails["type"];
+}
+
+// Input interfaces for API operations
+export type ICreateCoupon = Omit<
+  ICoupon,
+  "_id" | "usageCount" | "createdBy" | "createdAt" | "updatedAt"
+>;
+
+export type IUpdateCoupon = Partial<ICreateCoupon>;
@@ -0,0 +1,198 @@
+import { model, Model, Schema } from "mongoose";
+import {
+  CouponDiscountType,
+  CouponRedemptionStatus,
+  ICoupon,
+  ICouponRedemption,
+  ICouponUsage,
+} from "./coupon.interface";
+
+export type CouponModel = Model<ICoupon>;
+export type CouponRedemptionModel = Model<ICouponRedemption>;
+export type CouponUsageModel = Model<ICouponUsage>;
+
+const urgencyValues = ["standard", "express", "urgent"];
+const parcelTypeValues = [
+  "document",
+  "package",
+  "fragile",
+  "electronics",
+  "other",
+];
+
+// Main Coupon Schema
+const couponSchema = new Schema<ICoupon, CouponModel>(
+  {
+    code: {
+      type: String,
+      required: [true, "Coupon code is required"],
+      unique: true,
+      trim: true,
+      uppercase: true,
+      match: [
+        /^[A-Z0-9_-]{3,30}$/,
+        "Coupon code must be 3-30 letters, digits, dashes or underscores",
+      ],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Description cannot exceed 200 characters"],
+    },
+    discountType: {
+      type: String,
+      enum: {
+        values: Object.values(CouponDiscountType),
+        message: "Invalid discount type: {VALUE}",
+      },
+      required: [true, "Discount type is required"],
+    },
+    discountValue: {
+      type: Number,
+      required: [true, "Discount value is required"],
+      min: [0.01, "Discount value must be greater than 0"],
+    },
+    maxDiscount: {
+      type: Number,
+      min: [0.01, "Maximum discount must be greater than 0"],
+    },
+    minOrderAmount: {
+      type: Number,
+      min: [0, "Minimum order amount cannot be negative"],
+    },
+    validFrom: {
+      type: Date,
+    },
+    validUntil: {
+      type: Date,
+    },
+    usageLimit: {
+      type: Number,
+      min: [1, "Usage limit must be at least 1"],
+    },
+    perUserLimit: {
+      type: Number,
+      min: [1, "Per-user limit must be at least 1"],
+    },
+    usageCount: {
+      type: Number,
+      default: 0,
+      min: [0, "Usage count cannot be negative"],
+    },
+    urgencies: {
+      type: [{ type: String, enum: urgencyValues }],
+      default: [],
+    },
+    parcelTypes: {
+      type: [{ type: String, enum: parcelTypeValues }],
+      default: [],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+couponSchema.index({ isActive: 1, validUntil: 1 });
+
+// Main Coupon Redemption Schema
+const couponRedemptionSchema = new Schema<
+  ICouponRedemption,
+  CouponRedemptionModel
+>(
+  {
+    coupon: {
+      type: Schema.Types.ObjectId,
+      ref: "Coupon",
+      required: [true, "Coupon is required"],
+    },
+    code: {
+      type: String,
+      required: [true, "Coupon code is required"],
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User is required"],
+    },
+    parcel: {
+      type: Schema.Types.ObjectId,
+      ref: "Parcel",
+      required: [true, "Parcel is required"],
+    },
+    trackingId: {
+      type: String,
+      required: [true, "Tracking ID is required"],
+    },
+    discount: {
+      type: Number,
+      required: [true, "Discount is required"],
+      min: [0, "Discount cannot be negative"],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(CouponRedemptionStatus),
+        message: "Invalid redemption status: {VALUE}",
+      },
+      default: CouponRedemptionStatus.REDEEMED,
+    },
+    releasedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+couponRedemptionSchema.index({ coupon: 1, user: 1, status: 1 });
+couponRedemptionSchema.index({ parcel: 1, status: 1 });
+couponRedemptionSchema.index({ coupon: 1, createdAt: -1 });
+
+// Per-sender usage counter, claimed atomically like the coupon's usageCount
+const couponUsageSchema = new Schema<ICouponUsage, CouponUsageModel>(
+  {
+    coupon: {
+      type: Schema.Types.ObjectId,
+      ref: "Coupon",
+      required: [true, "Coupon is required"],
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "User is required"],
+    },
+    count: {
+      type: Number,
+      default: 0,
+      min: [0, "Usage count cannot be negative"],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+couponUsageSchema.index({ coupon: 1, user: 1 }, { unique: true });
+
+export const Coupon = model<ICoupon, CouponModel>("Coupon", couponSchema);
+export const CouponRedemption = model<
+  ICouponRedemption,
+  CouponRedemptionModel
+>("CouponRedemption", couponRedemptionSchema);
+export const CouponUsage = model<ICouponUsage, CouponUsageModel>(
+  "CouponUsage",
+  couponUsageSchema
+);
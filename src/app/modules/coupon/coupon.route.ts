@@ -0,0 +1,48 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { CouponController } from "./coupon.controller";
+import { CouponValidation } from "./coupon.validation";
+
+const router = Router();
+
+// Admin Routes
+router.get("/", checkAuth("admin"), CouponController.getAllCoupons);
+
+router.post(
+  "/",
+  checkAuth("admin"),
+  validateRequest(CouponValidation.createCouponValidationSchema),
+  CouponController.createCoupon
+);
+
+router.get(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(CouponValidation.couponIdValidationSchema),
+  CouponController.getCouponById
+);
+
+router.get(
+  "/:id/redemptions",
+  checkAuth("admin"),
+  validateRequest(CouponValidation.couponIdValidationSchema),
+  CouponController.getCouponRedemptions
+);
+
+router.put(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(CouponValidation.couponIdValidationSchema),
+  validateRequest(CouponValidation.updateCouponValidationSchema),
+  CouponController.updateCoupon
+);
+
+router.delete(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(CouponValidation.couponIdValidationSchema),
+  CouponController.deleteCoupon
+);
+
+export const CouponRoutes = router;
@@ -0,0 +1,431 @@
+import { StatusCodes } from "http-status-codes";
+import { Types } from "mongoose";
+import AppError from "../../errorHelpers/AppError";
+import { QueryBuilder } from "../../utils/QueryBuilder";
+import { IParcel } from "../parcel/parcel.interface";
+import {
+  CouponDiscountType,
+  CouponRedemptionStatus,
+  ICoupon,
+  ICouponOrder,
+  ICouponRedemption,
+  ICreateCoupon,
+  IUpdateCoupon,
+} from "./coupon.interface";
+import { Coupon, CouponRedemption, CouponUsage } from "./coupon.model";
+
+// Make sure no other coupon uses the code
+const assertCodeAvailable = async (
+  code: string,
+  couponId?: string
+): Promise<void> => {
+  const existingCoupon = await Coupon.exists({
+    code: code.toUpperCase(),
+    ...(couponId && { _id: { $ne: couponId } }),
+  });
+
+  if (existingCoupon) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      `Coupon code ${code.toUpperCase()} is already in use`
+    );
+  }
+};
+
+// Check the discount and validity window of a coupon after an update
+const assertCouponSettings = (
+  coupon: Pick<
+    ICoupon,
+    "discountType" | "discountValue" | "validFrom" | "validUntil"
+  >
+): void => {
+  if (
+    coupon.discountType === CouponDiscountType.PERCENTAGE &&
+    coupon.discountValue > 100
+  ) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Percentage discounts cannot exceed 100"
+    );
+  }
+
+  if (
+    coupon.validFrom &&
+    coupon.validUntil &&
+    coupon.validUntil <= coupon.validFrom
+  ) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Coupon must end after it starts"
+    );
+  }
+};
+
+// Check the parcel restrictions and minimum order of a coupon
+const assertCouponApplies = (coupon: ICoupon, order: ICouponOrder): void => {
+  if (coupon.urgencies.length && !coupon.urgencies.includes(order.urgency)) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Coupon ${coupon.code} is only valid for ${coupon.urgencies.join(", ")} deliveries`
+    );
+  }
+
+  if (
+    coupon.parcelTypes.length &&
+    !coupon.parcelTypes.includes(order.parcelType)
+  ) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Coupon ${coupon.code} is only valid for ${coupon.parcelTypes.join(", ")} parcels`
+    );
+  }
+
+  if (coupon.minOrderAmount && order.subtotal < coupon.minOrderAmount) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Coupon ${coupon.code} requires a shipping fee of at least ${coupon.minOrderAmount}`
+    );
+  }
+};
+
+// Load a coupon a sender wants to apply, checking every redemption rule
+const getRedeemableCoupon = async (
+  code: string,
+  userId: string,
+  order: ICouponOrder
+): Promise<ICoupon> => {
+  const coupon = await Coupon.findOne({ code: code.toUpperCase() });
+
+  if (!coupon || !coupon.isActive) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Coupon ${code.toUpperCase()} is not valid`
+    );
+  }
+
+  const now = new Date();
+  if (
+    (coupon.validFrom && coupon.validFrom > now) ||
+    (coupon.validUntil && coupon.validUntil <= now)
+  ) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Coupon ${coupon.code} is not valid at this time`
+    );
+  }
+
+  if (coupon.usageLimit && coupon.usageCount >= coupon.usageLimit) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Coupon ${coupon.code} has reached its usage limit`
+    );
+  }
+
+  if (coupon.perUserLimit) {
+    const userRedemptions = await CouponRedemption.countDocuments({
+      coupon: coupon._id,
+      user: userId,
+      status: CouponRedemptionStatus.REDEEMED,
+    });
+
+    if (userRedemptions >= coupon.perUserLimit) {
+      throw new AppError(
+        StatusCodes.BAD_REQUEST,
+        `You have already used coupon ${coupon.code} the maximum number of times`
+      );
+    }
+  }
+
+  assertCouponApplies(coupon, order);
+
+  return coupon;
+};
+
+// Load the coupon already redeemed on a parcel when its fee is recalculated
+const getRedeemedCoupon = async (
+  couponId: ICoupon["_id"] | Types.ObjectId,
+  order: ICouponOrder
+): Promise<ICoupon> => {
+  const coupon = await Coupon.findById(couponId);
+
+  if (!coupon) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "The parcel's coupon no longer exists, remove it from the parcel"
+    );
+  }
+
+  assertCouponApplies(coupon, order);
+
+  return coupon;
+};
+
+// Amount a coupon takes off a shipping fee, never more than the fee itself
+const calculateDiscount = (coupon: ICoupon, subtotal: number): number => {
+  const discount =
+    coupon.discountType === CouponDiscountType.PERCENTAGE
+      ? Math.min(
+          (subtotal * coupon.discountValue) / 100,
+          coupon.maxDiscount ?? Infinity
+        )
+      : coupon.discountValue;
+
+  return Math.round(Math.min(discount, subtotal) * 100) / 100;
+};
+
+// Claim one of the sender's uses of a coupon atomically, so parallel redemptions
+// cannot overrun perUserLimit
+const claimUserUsage = async (
+  coupon: ICoupon,
+  userId: string
+): Promise<void> => {
+  const usageFilter = { coupon: coupon._id, user: userId };
+
+  // Counters start from the redemptions made before they were kept
+  if (!(await CouponUsage.exists(usageFilter))) {
+    try {
+      const redeemedCount = await CouponRedemption.countDocuments({
+        ...usageFilter,
+        status: CouponRedemptionStatus.REDEEMED,
+      });
+      await CouponUsage.updateOne(
+        usageFilter,
+        { $setOnInsert: { count: redeemedCount } },
+        { upsert: true }
+      );
+    } catch (error) {
+      // Another redemption created the counter first
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+  }
+
+  const claimedUsage = await CouponUsage.findOneAndUpdate(
+    {
+      ...usageFilter,
+      ...(coupon.perUserLimit && { count: { $lt: coupon.perUserLimit } }),
+    },
+    { $inc: { count: 1 } }
+  );
+
+  if (!claimedUsage) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `You have already used coupon ${coupon.code} the maximum number of times`
+    );
+  }
+};
+
+// Give back one of a sender's uses of a coupon
+const releaseUserUsage = async (
+  couponId: ICoupon["_id"] | Types.ObjectId,
+  userId: ICouponRedemption["user"] | string
+): Promise<void> => {
+  await CouponUsage.updateOne(
+    { coupon: couponId, user: userId, count: { $gt: 0 } },
+    { $inc: { count: -1 } }
+  );
+};
+
+// Use up one redemption of a coupon for a parcel
+const redeemCoupon = async (
+  coupon: ICoupon,
+  userId: string,
+  parcel: { _id: IParcel["_id"] | Types.ObjectId; trackingId: string },
+  discount: number
+): Promise<ICouponRedemption> => {
+  await claimUserUsage(coupon, userId);
+
+  // The global limit is claimed atomically so it cannot be overrun
+  const claimedCoupon = await Coupon.findOneAndUpdate(
+    {
+      _id: coupon._id,
+      isActive: true,
+      $or: [
+        { usageLimit: { $exists: false } },
+        { $expr: { $lt: ["$usageCount", "$usageLimit"] } },
+      ],
+    },
+    { $inc: { usageCount: 1 } }
+  );
+
+  if (!claimedCoupon) {
+    await releaseUserUsage(coupon._id, userId);
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Coupon ${coupon.code} has reached its usage limit`
+    );
+  }
+
+  return CouponRedemption.create({
+    coupon: coupon._id,
+    code: coupon.code,
+    user: userId,
+    parcel: parcel._id,
+    trackingId: parcel.trackingId,
+    discount,
+  });
+};
+
+// Give back the coupon use of a cancelled parcel or a replaced coupon
+const releaseRedemption = async (
+  parcelId: IParcel["_id"] | Types.ObjectId | string,
+  couponId?: ICoupon["_id"] | Types.ObjectId
+): Promise<void> => {
+  const redemption = await CouponRedemption.findOneAndUpdate(
+    {
+      parcel: parcelId,
+      status: CouponRedemptionStatus.REDEEMED,
+      ...(couponId && { coupon: couponId }),
+    },
+    { status: CouponRedemptionStatus.RELEASED, releasedAt: new Date() }
+  );
+
+  if (redemption) {
+    await Coupon.updateOne(
+      { _id: redemption.coupon, usageCount: { $gt: 0 } },
+      { $inc: { usageCount: -1 } }
+    );
+    await releaseUserUsage(redemption.coupon, redemption.user);
+  }
+};
+
+// Keep the recorded discount in line with a recalculated parcel fee
+const updateRedemptionDiscount = async (
+  parcelId: IParcel["_id"] | Types.ObjectId | string,
+  discount: number
+): Promise<void> => {
+  await CouponRedemption.updateOne(
+    { parcel: parcelId, status: CouponRedemptionStatus.REDEEMED },
+    { discount }
+  );
+};
+
+// Get all coupons (Admin only)
+const getAllCoupons = async (
+  query: Record<string, string>
+): Promise<{
+  coupons: ICoupon[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const couponQuery = new QueryBuilder(Coupon.find(), {
+    sort: "-createdAt",
+    ...query,
+  })
+    .search(["code", "description"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const coupons = (await couponQuery.build()) as ICoupon[];
+  const meta = await couponQuery.getMeta();
+
+  return { coupons, meta };
+};
+
+// Get coupon by ID (Admin only)
+const getCouponById = async (couponId: string): Promise<ICoupon> => {
+  const coupon = await Coupon.findById(couponId);
+
+  if (!coupon) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Coupon not found");
+  }
+
+  return coupon;
+};
+
+// Create coupon (Admin only)
+const createCoupon = async (
+  adminId: string,
+  payload: ICreateCoupon
+): Promise<ICoupon> => {
+  await assertCodeAvailable(payload.code);
+
+  return Coupon.create({ ...payload, createdBy: adminId });
+};
+
+// Update coupon (Admin only)
+const updateCoupon = async (
+  couponId: string,
+  payload: IUpdateCoupon
+): Promise<ICoupon> => {
+  const coupon = await getCouponById(couponId);
+
+  if (payload.code) {
+    await assertCodeAvailable(payload.code, couponId);
+  }
+
+  assertCouponSettings({
+    discountType: payload.discountType ?? coupon.discountType,
+    discountValue: payload.discountValue ?? coupon.discountValue,
+    validFrom: payload.validFrom ?? coupon.validFrom,
+    validUntil: payload.validUntil ?? coupon.validUntil,
+  });
+
+  const updatedCoupon = await Coupon.findByIdAndUpdate(couponId, payload, {
+    new: true,
+    runValidators: true,
+  });
+
+  return updatedCoupon as ICoupon;
+};
+
+// Delete a coupon that was never redeemed (Admin only)
+const deleteCoupon = async (couponId: string): Promise<void> => {
+  await getCouponById(couponId);
+
+  if (await CouponRedemption.exists({ coupon: couponId })) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Coupon has been redeemed, deactivate it instead"
+    );
+  }
+
+  await Coupon.findByIdAndDelete(couponId);
+};
+
+// Get the redemptions of a coupon (Admin only)
+const getCouponRedemptions = async (
+  couponId: string,
+  query: Record<string, string>
+): Promise<{
+  redemptions: ICouponRedemption[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  await getCouponById(couponId);
+
+  const redemptionQuery = new QueryBuilder(
+    CouponRedemption.find({ coupon: couponId }).populate(
+      "user",
+      "name email phone"
+    ),
+    { sort: "-createdAt", ...query }
+  )
+    .search(["trackingId"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const redemptions = (await redemptionQuery.build()) as ICouponRedemption[];
+  const meta = await redemptionQuery.getMeta();
+
+  return { redemptions, meta };
+};
+
+export const CouponService = {
+  getRedeemableCoupon,
+  getRedeemedCoupon,
+  calculateDiscount,
+  redeemCoupon,
+  releaseRedemption,
+  updateRedemptionDiscount,
+  getAllCoupons,
+  getCouponById,
+  createCoupon,
+  updateCoupon,
+  deleteCoupon,
+  getCouponRedemptions,
+};
@@ -0,0 +1,84 @@
+import { z } from "zod";
+import { CouponDiscountType } from "./coupon.interface";
+
+// Coupon codes are matched case-insensitively and stored uppercase
+export const couponCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(
+    /^[A-Z0-9_-]{3,30}$/,
+    "Coupon code must be 3-30 letters, digits, dashes or underscores"
+  );
+
+const couponFieldsSchema = z.object({
+  code: couponCodeSchema,
+  description: z
+    .string()
+    .trim()
+    .max(200, "Description cannot exceed 200 characters")
+    .optional(),
+  discountType: z.nativeEnum(CouponDiscountType),
+  discountValue: z.number().positive("Discount value must be greater than 0"),
+  maxDiscount: z
+    .number()
+    .positive("Maximum discount must be greater than 0")
+    .optional(),
+  minOrderAmount: z
+    .number()
+    .min(0, "Minimum order amount cannot be negative")
+    .optional(),
+  validFrom: z.coerce.date().optional(),
+  validUntil: z.coerce.date().optional(),
+  usageLimit: z.number().int().min(1, "Usage limit must be at least 1").optional(),
+  perUserLimit: z
+    .number()
+    .int()
+    .min(1, "Per-user limit must be at least 1")
+    .optional(),
+  urgencies: z
+    .array(z.enum(["standard", "express", "urgent"]))
+    .max(3)
+    .optional(),
+  parcelTypes: z
+    .array(z.enum(["document", "package", "fragile", "electronics", "other"]))
+    .max(5)
+    .optional(),
+  isActive: z.boolean().optional(),
+});
+
+const createCouponValidationSchema = z.object({
+  body: couponFieldsSchema
+    .refine(
+      (coupon) =>
+        coupon.discountType !== CouponDiscountType.PERCENTAGE ||
+        coupon.discountValue <= 100,
+      {
+        message: "Percentage discounts cannot exceed 100",
+        path: ["discountValue"],
+      }
+    )
+    .refine(
+      (coupon) =>
+        !coupon.validFrom ||
+        !coupon.validUntil ||
+        coupon.validUntil > coupon.validFrom,
+      { message: "Coupon must end after it starts", path: ["validUntil"] }
+    ),
+});
+
+const updateCouponValidationSchema = z.object({
+  body: couponFieldsSchema.partial(),
+});
+
+const couponIdValidationSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid coupon ID format"),
+  }),
+});
+
+export const CouponValidation = {
+  createCouponValidationSchema,
+  updateCouponValidationSchema,
+  couponIdValidationSchema,
+};
@@ -0,0 +1,89 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { HolidayService } from "./holiday.service";
+
+// Get all holidays (Admin only)
+const getAllHolidays = catchAsync(async (req: Request, res: Response) => {
+  const result = await HolidayService.getAllHolidays(
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Holidays retrieved successfully",
+    data: result.holidays,
+    meta: result.meta,
+  });
+});
+
+// Get holiday by ID (Admin only)
+const getHolidayById = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await HolidayService.getHolidayById(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Holiday retrieved successfully",
+    data: result,
+  });
+});
+
+// Create holiday (Admin only)
+const createHoliday = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await HolidayService.createHoliday(adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: "Holiday created successfully",
+    data: result,
+  });
+});
+
+// Update holiday (Admin only)
+const updateHoliday = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await HolidayService.updateHoliday(id, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Holiday updated successfully",
+    data: result,
+  });
+});
+
+// Delete holiday (Admin only)
+const deleteHoliday = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  await HolidayService.deleteHoliday(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Holiday deleted successfully",
+    data: null,
+  });
+});
+
+export const HolidayController = {
+  getAllHolidays,
+  getHolidayById,
+  createHoliday,
+  updateHoliday,
+  deleteHoliday,
+};
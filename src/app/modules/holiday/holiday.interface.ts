@@ -0,0 +1,18 @@
+import { ObjectId } from "mongoose";
+
+export interface IHoliday {
+  _id: ObjectId;
+  date: Date; // Non-working day (midnight UTC)
+  name: string;
+  createdBy?: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Input interfaces for API operations
+export interface ICreateHoliday {
+  date: string; // YYYY-MM-DD
+  name: string;
+}
+
+export type IUpdateHoliday = Partial<ICreateHoliday>;
@@ -0,0 +1,31 @@
+import { model, Model, Schema } from "mongoose";
+import { IHoliday } from "./holiday.interface";
+
+export type HolidayModel = Model<IHoliday>;
+
+// Main Holiday Schema
+const holidaySchema = new Schema<IHoliday, HolidayModel>(
+  {
+    date: {
+      type: Date,
+      required: [true, "Holiday date is required"],
+      unique: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Holiday name is required"],
+      trim: true,
+      maxlength: [100, "Holiday name cannot exceed 100 characters"],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+export const Holiday = model<IHoliday, HolidayModel>("Holiday", holidaySchema);
@@ -0,0 +1,41 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { HolidayController } from "./holiday.controller";
+import { HolidayValidation } from "./holiday.validation";
+
+const router = Router();
+
+// Admin Routes
+router.get("/", checkAuth("admin"), HolidayController.getAllHolidays);
+
+router.post(
+  "/",
+  checkAuth("admin"),
+  validateRequest(HolidayValidation.createHolidayValidationSchema),
+  HolidayController.createHoliday
+);
+
+router.get(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(HolidayValidation.holidayIdValidationSchema),
+  HolidayController.getHolidayById
+);
+
+router.put(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(HolidayValidation.holidayIdValidationSchema),
+  validateRequest(HolidayValidation.updateHolidayValidationSchema),
+  HolidayController.updateHoliday
+);
+
+router.delete(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(HolidayValidation.holidayIdValidationSchema),
+  HolidayController.deleteHoliday
+);
+
+export const HolidayRoutes = router;
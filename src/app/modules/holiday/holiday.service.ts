@@ -0,0 +1,132 @@
+import { StatusCodes } from "http-status-codes";
+import { envVars } from "../../config/env";
+import AppError from "../../errorHelpers/AppError";
+import { QueryBuilder } from "../../utils/QueryBuilder";
+import { getStartOfDay, IBusinessCalendar } from "../../utils/deliveryEstimate";
+import { ICreateHoliday, IHoliday, IUpdateHoliday } from "./holiday.interface";
+import { Holiday } from "./holiday.model";
+
+// How far ahead holidays are loaded when estimating delivery dates
+const CALENDAR_LOOKAHEAD_DAYS = 90;
+
+// Make sure no other holiday is on the date
+const assertDateAvailable = async (
+  date: Date,
+  holidayId?: string
+): Promise<void> => {
+  const existingHoliday = await Holiday.findOne({
+    date,
+    ...(holidayId && { _id: { $ne: holidayId } }),
+  });
+
+  if (existingHoliday) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      `${date.toISOString().slice(0, 10)} is already a holiday (${existingHoliday.name})`
+    );
+  }
+};
+
+// Get all holidays (Admin only)
+const getAllHolidays = async (
+  query: Record<string, string>
+): Promise<{
+  holidays: IHoliday[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const holidayQuery = new QueryBuilder(Holiday.find(), {
+    sort: "date",
+    ...query,
+  })
+    .search(["name"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const holidays = (await holidayQuery.build()) as IHoliday[];
+  const meta = await holidayQuery.getMeta();
+
+  return { holidays, meta };
+};
+
+// Get holiday by ID (Admin only)
+const getHolidayById = async (holidayId: string): Promise<IHoliday> => {
+  const holiday = await Holiday.findById(holidayId);
+
+  if (!holiday) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Holiday not found");
+  }
+
+  return holiday;
+};
+
+// Add a non-working day to the calendar (Admin only)
+const createHoliday = async (
+  adminId: string,
+  payload: ICreateHoliday
+): Promise<IHoliday> => {
+  const date = new Date(payload.date);
+
+  await assertDateAvailable(date);
+
+  return Holiday.create({ ...payload, date, createdBy: adminId });
+};
+
+// Update a holiday (Admin only)
+const updateHoliday = async (
+  holidayId: string,
+  payload: IUpdateHoliday
+): Promise<IHoliday> => {
+  await getHolidayById(holidayId);
+
+  const date = payload.date ? new Date(payload.date) : undefined;
+  if (date) {
+    await assertDateAvailable(date, holidayId);
+  }
+
+  const updatedHoliday = await Holiday.findByIdAndUpdate(
+    holidayId,
+    { ...payload, ...(date && { date }) },
+    { new: true, runValidators: true }
+  );
+
+  return updatedHoliday as IHoliday;
+};
+
+// Delete a holiday (Admin only)
+const deleteHoliday = async (holidayId: string): Promise<void> => {
+  await getHolidayById(holidayId);
+
+  await Holiday.findByIdAndDelete(holidayId);
+};
+
+// Weekend days and upcoming holidays used to count business days
+const getBusinessCalendar = async (
+  from: Date = new Date()
+): Promise<IBusinessCalendar> => {
+  const start = getStartOfDay(from);
+  const end = new Date(start);
+  end.setUTCDate(end.getUTCDate() + CALENDAR_LOOKAHEAD_DAYS);
+
+  const holidays = await Holiday.find({ date: { $gte: start, $lt: end } });
+
+  return {
+    weekendDays: envVars.DELIVERY_ESTIMATE.WEEKEND_DAYS.split(",")
+      .filter((day) => day.trim() !== "")
+      .map(Number)
+      .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6),
+    holidays: new Set(
+      holidays.map((holiday) => holiday.date.toISOString().slice(0, 10))
+    ),
+  };
+};
+
+export const HolidayService = {
+  getAllHolidays,
+  getHolidayById,
+  createHoliday,
+  updateHoliday,
+  deleteHoliday,
+  getBusinessCalendar,
+};
@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+const holidayDateSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((date) => !Number.isNaN(new Date(date).getTime()), {
+    message: "Invalid date",
+  });
+
+const holidayNameSchema = z
+  .string()
+  .trim()
+  .min(2, "Holiday name must be at least 2 characters")
+  .max(100, "Holiday name cannot exceed 100 characters");
+
+const createHolidayValidationSchema = z.object({
+  body: z.object({
+    date: holidayDateSchema,
+    name: holidayNameSchema,
+  }),
+});
+
+const updateHolidayValidationSchema = z.object({
+  body: z.object({
+    date: holidayDateSchema.optional(),
+    name: holidayNameSchema.optional(),
+  }),
+});
+
+const holidayIdValidationSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid holiday ID format"),
+  }),
+});
+
+export const HolidayValidation = {
+  createHolidayValidationSchema,
+  updateHolidayValidationSchema,
+  holidayIdValidationSchema,
+};
@@ -0,0 +1,159 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { HubScanType } from "./hub.interface";
+import { HubService } from "./hub.service";
+
+// Get all hubs (Admin only)
+const getAllHubs = catchAsync(async (req: Request, res: Response) => {
+  const result = await HubService.getAllHubs(
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Hubs retrieved successfully",
+    data: result.hubs,
+    meta: result.meta,
+  });
+});
+
+// Get hub by ID (Admin only)
+const getHubById = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await HubService.getHubById(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Hub retrieved successfully",
+    data: result,
+  });
+});
+
+// Create hub (Admin only)
+const createHub = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await HubService.createHub(adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: "Hub created successfully",
+    data: result,
+  });
+});
+
+// Update hub (Admin only)
+const updateHub = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await HubService.updateHub(id, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Hub updated successfully",
+    data: result,
+  });
+});
+
+// Delete hub (Admin only)
+const deleteHub = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  await HubService.deleteHub(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Hub deleted successfully",
+    data: null,
+  });
+});
+
+// Scan parcels into a hub (Admin only)
+const scanIn = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await HubService.scanParcels(
+    id,
+    adminId,
+    HubScanType.SCAN_IN,
+    req.body
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: `${result.succeeded} of ${result.total} parcels scanned in`,
+    data: result,
+  });
+});
+
+// Scan parcels out of a hub (Admin only)
+const scanOut = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await HubService.scanParcels(
+    id,
+    adminId,
+    HubScanType.SCAN_OUT,
+    req.body
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: `${result.succeeded} of ${result.total} parcels scanned out`,
+    data: result,
+  });
+});
+
+// Get parcels currently at the hub (Admin only)
+const getHubInventory = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await HubService.getHubInventory(
+    id,
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Hub inventory retrieved successfully",
+    data: result.parcels,
+    meta: result.meta,
+  });
+});
+
+export const HubController = {
+  getAllHubs,
+  getHubById,
+  createHub,
+  updateHub,
+  deleteHub,
+  scanIn,
+  scanOut,
+  getHubInventory,
+};
@@ -0,0 +1,65 @@
+import { ObjectId } from "mongoose";
+import { IAddress } from "../user/user.model";
+
+export enum HubType {
+  SORTING_CENTER = "sorting_center",
+  WAREHOUSE = "warehouse",
+  DELIVERY_STATION = "delivery_station",
+}
+
+export enum HubScanType {
+  SCAN_IN = "scan_in",
+  SCAN_OUT = "scan_out",
+}
+
+export enum Weekday {
+  MONDAY = "monday",
+  TUESDAY = "tuesday",
+  WEDNESDAY = "wednesday",
+  THURSDAY = "thursday",
+  FRIDAY = "friday",
+  SATURDAY = "saturday",
+  SUNDAY = "sunday",
+}
+
+export interface IOperatingHours {
+  day: Weekday;
+  open: string; // HH:mm
+  close: string; // HH:mm
+}
+
+export interface IHub {
+  _id: ObjectId;
+  code: string; // Short unique facility code, e.g. "DHK-01"
+  name: string;
+  type: HubType;
+  address: IAddress;
+  operatingHours: IOperatingHours[]; // Days without an entry are closed
+  isActive: boolean;
+  createdBy?: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Input interfaces for API operations
+export interface ICreateHub {
+  code: string;
+  name: string;
+  type: HubType;
+  address: IAddress;
+  operatingHours?: IOperatingHours[];
+}
+
+export type IUpdateHub = Partial<ICreateHub> & { isActive?: boolean };
+
+export interface IHubScan {
+  parcels: string[]; // Parcel IDs or tracking IDs
+  status?: string; // Optional status transition applied with the scan
+  note?: string;
+}
+
+// Hub scan applied together with a parcel status event
+export interface IHubScanEvent {
+  hub: IHub;
+  scanType: HubScanType;
+}
@@ -0,0 +1,113 @@
+import { model, Model, Schema } from "mongoose";
+import { HubType, IHub, IOperatingHours, Weekday } from "./hub.interface";
+
+export type HubModel = Model<IHub>;
+
+const timeOfDayRegex = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Address Schema
+const addressSchema = new Schema(
+  {
+    street: {
+      type: String,
+      required: [true, "Street is required"],
+      trim: true,
+    },
+    city: {
+      type: String,
+      required: [true, "City is required"],
+      trim: true,
+    },
+    state: {
+      type: String,
+      required: [true, "State is required"],
+      trim: true,
+    },
+    zipCode: {
+      type: String,
+      required: [true, "Zip code is required"],
+      trim: true,
+    },
+    country: {
+      type: String,
+      required: [true, "Country is required"],
+      trim: true,
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Operating Hours Schema
+const operatingHoursSchema = new Schema<IOperatingHours>(
+  {
+    day: {
+      type: String,
+      enum: {
+        values: Object.values(Weekday),
+        message: "Invalid day of the week",
+      },
+      required: [true, "Day is required"],
+    },
+    open: {
+      type: String,
+      required: [true, "Opening time is required"],
+      match: [timeOfDayRegex, "Opening time must be in HH:mm format"],
+    },
+    close: {
+      type: String,
+      required: [true, "Closing time is required"],
+      match: [timeOfDayRegex, "Closing time must be in HH:mm format"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Main Hub Schema
+const hubSchema = new Schema<IHub, HubModel>(
+  {
+    code: {
+      type: String,
+      required: [true, "Hub code is required"],
+      unique: true,
+      trim: true,
+      uppercase: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Hub name is required"],
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: {
+        values: Object.values(HubType),
+        message: "Type must be sorting_center, warehouse, or delivery_station",
+      },
+      required: [true, "Hub type is required"],
+    },
+    address: {
+      type: addressSchema,
+      required: [true, "Hub address is required"],
+    },
+    operatingHours: {
+      type: [operatingHoursSchema],
+      default: [],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+hubSchema.index({ type: 1, isActive: 1 });
+
+export const Hub = model<IHub, HubModel>("Hub", hubSchema);
@@ -0,0 +1,64 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { HubController } from "./hub.controller";
+import { HubValidation } from "./hub.validation";
+
+const router = Router();
+
+// Admin Routes
+router.get("/", checkAuth("admin"), HubController.getAllHubs);
+
+router.post(
+  "/",
+  checkAuth("admin"),
+  validateRequest(HubValidation.createHubValidationSchema),
+  HubController.createHub
+);
+
+router.get(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(HubValidation.hubIdValidationSchema),
+  HubController.getHubById
+);
+
+router.put(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(HubValidation.hubIdValidationSchema),
+  validateRequest(HubValidation.updateHubValidationSchema),
+  HubController.updateHub
+);
+
+router.delete(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(HubValidation.hubIdValidationSchema),
+  HubController.deleteHub
+);
+
+router.post(
+  "/:id/scan-in",
+  checkAuth("admin"),
+  validateRequest(HubValidation.hubIdValidationSchema),
+  validateRequest(HubValidation.hubScanValidationSchema),
+  HubController.scanIn
+);
+
+router.post(
+  "/:id/scan-out",
+  checkAuth("admin"),
+  validateRequest(HubValidation.hubIdValidationSchema),
+  validateRequest(HubValidation.hubScanValidationSchema),
+  HubController.scanOut
+);
+
+router.get(
+  "/:id/inventory",
+  checkAuth("admin"),
+  validateRequest(HubValidation.hubIdValidationSchema),
+  HubController.getHubInventory
+);
+
+export const HubRoutes = router;
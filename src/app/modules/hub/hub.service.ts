@@ -0,0 +1,169 @@
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { QueryBuilder } from "../../utils/QueryBuilder";
+import {
+  IBulkParcelOperationReport,
+  IParcel,
+} from "../parcel/parcel.interface";
+import { Parcel } from "../parcel/parcel.model";
+import { ParcelService } from "../parcel/parcel.service";
+import {
+  HubScanType,
+  ICreateHub,
+  IHub,
+  IHubScan,
+  IUpdateHub,
+} from "./hub.interface";
+import { Hub } from "./hub.model";
+
+// Make sure no other hub uses the code
+const assertCodeAvailable = async (
+  code: string,
+  hubId?: string
+): Promise<void> => {
+  const existingHub = await Hub.findOne({
+    code: code.toUpperCase(),
+    ...(hubId && { _id: { $ne: hubId } }),
+  });
+
+  if (existingHub) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      `Hub with code ${code.toUpperCase()} already exists`
+    );
+  }
+};
+
+// Get all hubs (Admin only)
+const getAllHubs = async (
+  query: Record<string, string>
+): Promise<{
+  hubs: IHub[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const hubQuery = new QueryBuilder(Hub.find(), { sort: "code", ...query })
+    .search(["code", "name", "address.city"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const hubs = (await hubQuery.build()) as IHub[];
+  const meta = await hubQuery.getMeta();
+
+  return { hubs, meta };
+};
+
+// Get hub by ID (Admin only)
+const getHubById = async (hubId: string): Promise<IHub> => {
+  const hub = await Hub.findById(hubId);
+
+  if (!hub) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Hub not found");
+  }
+
+  return hub;
+};
+
+// Create a hub (Admin only)
+const createHub = async (
+  adminId: string,
+  payload: ICreateHub
+): Promise<IHub> => {
+  await assertCodeAvailable(payload.code);
+
+  return Hub.create({ ...payload, createdBy: adminId });
+};
+
+// Update a hub (Admin only)
+const updateHub = async (
+  hubId: string,
+  payload: IUpdateHub
+): Promise<IHub> => {
+  await getHubById(hubId);
+
+  if (payload.code) {
+    await assertCodeAvailable(payload.code, hubId);
+  }
+
+  const updatedHub = await Hub.findByIdAndUpdate(hubId, payload, {
+    new: true,
+    runValidators: true,
+  });
+
+  return updatedHub as IHub;
+};
+
+// Delete a hub that never handled a parcel (Admin only)
+const deleteHub = async (hubId: string): Promise<void> => {
+  await getHubById(hubId);
+
+  if (await Parcel.exists({ currentHub: hubId })) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cannot delete a hub with parcels on site"
+    );
+  }
+
+  if (await Parcel.exists({ "statusHistory.hub": hubId })) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Hub has scan history, deactivate it instead"
+    );
+  }
+
+  await Hub.findByIdAndDelete(hubId);
+};
+
+// Scan parcels in or out of a hub (Admin only)
+const scanParcels = async (
+  hubId: string,
+  adminId: string,
+  scanType: HubScanType,
+  payload: IHubScan
+): Promise<IBulkParcelOperationReport> => {
+  const hub = await getHubById(hubId);
+
+  // Inactive hubs can still be emptied, but no longer receive parcels
+  if (scanType === HubScanType.SCAN_IN && !hub.isActive) {
+    throw new AppError(StatusCodes.BAD_REQUEST, "Hub is not active");
+  }
+
+  return ParcelService.scanParcelsAtHub({ hub, scanType }, adminId, payload);
+};
+
+// Get parcels currently on site at a hub (Admin only)
+const getHubInventory = async (
+  hubId: string,
+  query: Record<string, string>
+): Promise<{
+  parcels: IParcel[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  await getHubById(hubId);
+
+  const parcelQuery = new QueryBuilder(
+    Parcel.find({ currentHub: hubId }).populate("sender", "name email phone"),
+    { sort: "-updatedAt", ...query }
+  )
+    .search(["trackingId", "receiver.name", "receiver.email"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const parcels = (await parcelQuery.build()) as IParcel[];
+  const meta = await parcelQuery.getMeta();
+
+  return { parcels, meta };
+};
+
+export const HubService = {
+  getAllHubs,
+  getHubById,
+  createHub,
+  updateHub,
+  deleteHub,
+  scanParcels,
+  getHubInventory,
+};
@@ -0,0 +1,119 @@
+import { z } from "zod";
+import { HubType, Weekday } from "./hub.interface";
+
+const timeOfDaySchema = z
+  .string()
+  .trim()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+const addressValidationSchema = z.object({
+  street: z.string().trim().min(1, "Street is required"),
+  city: z.string().trim().min(1, "City is required"),
+  state: z.string().trim().min(1, "State is required"),
+  zipCode: z.string().trim().min(1, "Zip code is required"),
+  country: z.string().trim().min(1, "Country is required"),
+});
+
+const operatingHoursValidationSchema = z
+  .array(
+    z
+      .object({
+        day: z.nativeEnum(Weekday, { message: "Invalid day of the week" }),
+        open: timeOfDaySchema,
+        close: timeOfDaySchema,
+      })
+      .refine((hours) => hours.open < hours.close, {
+        message: "Closing time must be after opening time",
+        path: ["close"],
+      })
+  )
+  .refine(
+    (hours) => new Set(hours.map((entry) => entry.day)).size === hours.length,
+    { message: "Each day can only be listed once" }
+  );
+
+const hubCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(
+    /^[A-Z0-9-]{2,20}$/,
+    "Hub code may only contain letters, numbers and dashes (2-20 characters)"
+  );
+
+const createHubValidationSchema = z.object({
+  body: z.object({
+    code: hubCodeSchema,
+    name: z
+      .string()
+      .trim()
+      .min(2, "Hub name must be at least 2 characters")
+      .max(100, "Hub name cannot exceed 100 characters"),
+    type: z.nativeEnum(HubType, {
+      message: "Type must be sorting_center, warehouse, or delivery_station",
+    }),
+    address: addressValidationSchema,
+    operatingHours: operatingHoursValidationSchema.optional(),
+  }),
+});
+
+const updateHubValidationSchema = z.object({
+  body: z.object({
+    code: hubCodeSchema.optional(),
+    name: z
+      .string()
+      .trim()
+      .min(2, "Hub name must be at least 2 characters")
+      .max(100, "Hub name cannot exceed 100 characters")
+      .optional(),
+    type: z
+      .nativeEnum(HubType, {
+        message: "Type must be sorting_center, warehouse, or delivery_station",
+      })
+      .optional(),
+    address: addressValidationSchema.optional(),
+    operatingHours: operatingHoursValidationSchema.optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+const hubIdValidationSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid hub ID format"),
+  }),
+});
+
+const hubScanValidationSchema = z.object({
+  body: z.object({
+    parcels: z
+      .array(
+        z
+          .string()
+          .trim()
+          .regex(
+            /^([0-9a-fA-F]{24}|TRK-\d{8}-\d{6})$/,
+            "Each parcel must be a parcel ID or tracking ID"
+          )
+      )
+      .min(1, "At least one parcel is required")
+      .max(500, "Cannot scan more than 500 parcels at once"),
+    status: z
+      .string()
+      .trim()
+      .toLowerCase()
+      .regex(/^[a-z][a-z0-9_]*$/, "Invalid parcel status")
+      .optional(),
+    note: z
+      .string()
+      .trim()
+      .max(500, "Note cannot exceed 500 characters")
+      .optional(),
+  }),
+});
+
+export const HubValidation = {
+  createHubValidationSchema,
+  updateHubValidationSchema,
+  hubIdValidationSchema,
+  hubScanValidationSchema,
+};
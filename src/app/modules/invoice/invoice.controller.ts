@@ -0,0 +1,121 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { InvoiceService } from "./invoice.service";
+
+// Invoice parcels that are not billed yet (Admin or Sender)
+const createInvoice = catchAsync(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const userRole = req.user?.role;
+
+  if (!userId || !userRole) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await InvoiceService.createInvoice(userId, userRole, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: `Invoice ${result.invoiceNumber} created successfully`,
+    data: result,
+  });
+});
+
+// Pay an invoice through the payment gateway (Admin or Sender)
+const payInvoice = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+  const userRole = req.user?.role;
+
+  if (!userId || !userRole) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await InvoiceService.payInvoice(
+    id,
+    userId,
+    userRole,
+    req.body
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Invoice paid successfully",
+    data: result,
+  });
+});
+
+// Refund a paid invoice (Admin only)
+const refundInvoice = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await InvoiceService.refundInvoice(id, adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Invoice refunded successfully",
+    data: result,
+  });
+});
+
+// Get invoices (Admin or Sender)
+const getInvoices = catchAsync(async (req: Request, res: Response) => {
+  const userId = req.user?.userId;
+  const userRole = req.user?.role;
+
+  if (!userId || !userRole) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await InvoiceService.getInvoices(
+    req.query as Record<string, string>,
+    userId,
+    userRole
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Invoices retrieved successfully",
+    data: result.invoices,
+    meta: result.meta,
+  });
+});
+
+// Get an invoice (Admin or the Sender)
+const getInvoiceById = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+  const userRole = req.user?.role;
+
+  if (!userId || !userRole) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await InvoiceService.getInvoiceById(id, userId, userRole);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Invoice retrieved successfully",
+    data: result,
+  });
+});
+
+export const InvoiceController = {
+  createInvoice,
+  payInvoice,
+  refundInvoice,
+  getInvoices,
+  getInvoiceById,
+};
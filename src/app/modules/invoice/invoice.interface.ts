@@ -0,0 +1,58 @@
+import { ObjectId } from "mongoose";
+import { PaymentStatus } from "../parcel/parcel.interface";
+
+export enum PaymentTransactionType {
+  CHARGE = "charge",
+  REFUND = "refund",
+}
+
+export interface IInvoiceItem {
+  parcel: ObjectId; // Reference to Parcel
+  trackingId: string;
+  amount: number; // Shipping fee (pricing.totalFee) of the parcel
+  taxAmount?: number; // Tax contained in the amount (pricing.taxTotal)
+}
+
+// Every charge or refund sent to the payment gateway, accepted or not
+export interface IPaymentTransaction {
+  type: PaymentTransactionType;
+  gateway: string; // Name of the gateway that handled the request
+  amount: number;
+  success: boolean;
+  transactionId?: string; // Gateway reference of an accepted request
+  failureReason?: string;
+  note?: string; // Refund reason
+  performedBy: ObjectId; // Reference to User
+  createdAt: Date;
+}
+
+export interface IInvoice {
+  _id: ObjectId;
+  invoiceNumber: string; // Format: INV-YYYYMMDD-XXXXXX
+  sender: ObjectId; // Reference to User billed for the parcels
+  items: IInvoiceItem[]; // One parcel, or every parcel of a batch
+  totalAmount: number; // Tax included
+  taxAmount: number;
+  currency: string;
+  status: PaymentStatus;
+  transactions: IPaymentTransaction[];
+  paidAt?: Date;
+  refundedAt?: Date;
+  processingStartedAt?: Date; // Set while a gateway request is in flight
+  createdBy: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Input interfaces for API operations
+export interface ICreateInvoice {
+  parcelIds: string[];
+}
+
+export interface IPayInvoice {
+  paymentMethod: string; // Gateway specific payment token
+}
+
+export interface IRefundInvoice {
+  reason: string;
+}
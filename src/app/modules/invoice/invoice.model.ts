@@ -0,0 +1,163 @@
+import { model, Model, Schema } from "mongoose";
+import { PaymentStatus } from "../parcel/parcel.interface";
+import {
+  IInvoice,
+  IInvoiceItem,
+  IPaymentTransaction,
+  PaymentTransactionType,
+} from "./invoice.interface";
+
+export type InvoiceModel = Model<IInvoice>;
+
+// Invoice Item Schema
+const invoiceItemSchema = new Schema<IInvoiceItem>(
+  {
+    parcel: {
+      type: Schema.Types.ObjectId,
+      ref: "Parcel",
+      required: [true, "Parcel is required"],
+    },
+    trackingId: {
+      type: String,
+      required: [true, "Tracking ID is required"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [0, "Amount cannot be negative"],
+    },
+    taxAmount: {
+      type: Number,
+      min: [0, "Tax amount cannot be negative"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Payment Transaction Schema
+const paymentTransactionSchema = new Schema<IPaymentTransaction>(
+  {
+    type: {
+      type: String,
+      enum: {
+        values: Object.values(PaymentTransactionType),
+        message: "Invalid transaction type: {VALUE}",
+      },
+      required: [true, "Transaction type is required"],
+    },
+    gateway: {
+      type: String,
+      required: [true, "Gateway is required"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Amount is required"],
+      min: [0, "Amount cannot be negative"],
+    },
+    success: {
+      type: Boolean,
+      required: [true, "Transaction result is required"],
+    },
+    transactionId: {
+      type: String,
+    },
+    failureReason: {
+      type: String,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Note cannot exceed 500 characters"],
+    },
+    performedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Performed by is required"],
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Main Invoice Schema
+const invoiceSchema = new Schema<IInvoice, InvoiceModel>(
+  {
+    invoiceNumber: {
+      type: String,
+      required: [true, "Invoice number is required"],
+      unique: true,
+      uppercase: true,
+      match: [
+        /^INV-\d{8}-\d{6}$/,
+        "Invoice number must follow format: INV-YYYYMMDD-XXXXXX",
+      ],
+    },
+    sender: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Sender is required"],
+    },
+    items: {
+      type: [invoiceItemSchema],
+      validate: {
+        validator: (items: IInvoiceItem[]) => items.length > 0,
+        message: "An invoice needs at least one parcel",
+      },
+    },
+    totalAmount: {
+      type: Number,
+      required: [true, "Total amount is required"],
+      min: [0, "Total amount cannot be negative"],
+    },
+    taxAmount: {
+      type: Number,
+      default: 0,
+      min: [0, "Tax amount cannot be negative"],
+    },
+    currency: {
+      type: String,
+      required: [true, "Currency is required"],
+      uppercase: true,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(PaymentStatus),
+        message: "Invalid payment status: {VALUE}",
+      },
+      default: PaymentStatus.UNPAID,
+    },
+    transactions: {
+      type: [paymentTransactionSchema],
+      default: [],
+    },
+    paidAt: {
+      type: Date,
+    },
+    refundedAt: {
+      type: Date,
+    },
+    processingStartedAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: [true, "Created by is required"],
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+invoiceSchema.index({ sender: 1, createdAt: -1 });
+invoiceSchema.index({ status: 1 });
+invoiceSchema.index({ "items.parcel": 1 });
+
+export const Invoice = model<IInvoice, InvoiceModel>("Invoice", invoiceSchema);
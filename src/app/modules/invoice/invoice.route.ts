@@ -0,0 +1,46 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { InvoiceController } from "./invoice.controller";
+import { InvoiceValidation } from "./invoice.validation";
+
+const router = Router();
+
+// Admin and Sender Routes
+router.post(
+  "/",
+  checkAuth("admin", "sender"),
+  validateRequest(InvoiceValidation.createInvoiceValidationSchema),
+  InvoiceController.createInvoice
+);
+
+router.get(
+  "/",
+  checkAuth("admin", "sender"),
+  validateRequest(InvoiceValidation.getInvoicesValidationSchema),
+  InvoiceController.getInvoices
+);
+
+router.get(
+  "/:id",
+  checkAuth("admin", "sender"),
+  validateRequest(InvoiceValidation.invoiceIdValidationSchema),
+  InvoiceController.getInvoiceById
+);
+
+router.post(
+  "/:id/pay",
+  checkAuth("admin", "sender"),
+  validateRequest(InvoiceValidation.payInvoiceValidationSchema),
+  InvoiceController.payInvoice
+);
+
+// Admin Routes
+router.post(
+  "/:id/refund",
+  checkAuth("admin"),
+  validateRequest(InvoiceValidation.refundInvoiceValidationSchema),
+  InvoiceController.refundInvoice
+);
+
+export const InvoiceRoutes = router;
@@ -0,0 +1,561 @@
+import { StatusCodes } from "http-status-codes";
+import { Types } from "mongoose";
+import { envVars } from "../../config/env";
+import AppError from "../../errorHelpers/AppError";
+import {
+  getPaymentGateway,
+  IPaymentResult,
+} from "../../utils/paymentGateway";
+import { QueryBuilder } from "../../utils/QueryBuilder";
+import {
+  IParcel,
+  IPricing,
+  PaymentStatus,
+} from "../parcel/parcel.interface";
+import { Parcel } from "../parcel/parcel.model";
+import { IUser } from "../user/user.model";
+import {
+  ICreateInvoice,
+  IInvoice,
+  IPayInvoice,
+  IRefundInvoice,
+  PaymentTransactionType,
+} from "./invoice.interface";
+import { Invoice } from "./invoice.model";
+
+// A gateway request older than this is treated as abandoned
+const PAYMENT_LOCK_MINUTES = 5;
+
+// Invoices that can still be paid (and changed)
+const openInvoiceStatuses = [PaymentStatus.UNPAID, PaymentStatus.FAILED];
+
+// Invoice amounts are kept in cents so sums of fees do not drift
+const roundToTwoDecimals = (amount: number): number =>
+  Math.round(amount * 100) / 100;
+
+// Generate an invoice number that is not used yet: INV-YYYYMMDD-XXXXXX
+const generateUniqueInvoiceNumber = async (): Promise<string> => {
+  const dateString = new Date().toISOString().slice(0, 10).replace(/-/g, "");
+
+  for (let attempt = 0; attempt < 10; attempt++) {
+    const randomNumber = Math.floor(100000 + Math.random() * 900000);
+    const invoiceNumber = `INV-${dateString}-${randomNumber}`;
+
+    if (!(await Invoice.exists({ invoiceNumber }))) {
+      return invoiceNumber;
+    }
+  }
+
+  throw new AppError(
+    StatusCodes.INTERNAL_SERVER_ERROR,
+    "Failed to generate unique invoice number"
+  );
+};
+
+// Filter that claims an invoice for one gateway request at a time
+const getUnlockedFilter = () => ({
+  $or: [
+    { processingStartedAt: { $exists: false } },
+    {
+      processingStartedAt: {
+        $lt: new Date(Date.now() - PAYMENT_LOCK_MINUTES * 60 * 1000),
+      },
+    },
+  ],
+});
+
+// Reject users who are neither an admin nor the billed sender
+const assertInvoiceAccess = (
+  invoice: IInvoice,
+  userId: string,
+  userRole: string
+): void => {
+  // Works for populated senders and plain references alike
+  const senderId = (invoice.sender as unknown as IUser)._id.toString();
+
+  if (userRole !== "admin" && senderId !== userId) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only access your own invoices"
+    );
+  }
+};
+
+// Bill parcels of one sender on a single invoice (per parcel or per batch)
+const issueInvoice = async (
+  senderId: string,
+  parcels: Pick<IParcel, "_id" | "trackingId" | "pricing">[],
+  createdBy: string
+): Promise<IInvoice> => {
+  const invoiceId = new Types.ObjectId();
+
+  // Claim the parcels first so none is billed on two invoices
+  await Parcel.updateMany(
+    {
+      _id: { $in: parcels.map((parcel) => parcel._id) },
+      invoice: { $exists: false },
+    },
+    { invoice: invoiceId, paymentStatus: PaymentStatus.UNPAID }
+  );
+
+  const claimedIds = new Set(
+    (await Parcel.find({ invoice: invoiceId }).select("_id")).map((parcel) =>
+      parcel._id.toString()
+    )
+  );
+  const items = parcels
+    .filter((parcel) => claimedIds.has(parcel._id.toString()))
+    .map((parcel) => ({
+      parcel: parcel._id,
+      trackingId: parcel.trackingId,
+      amount: parcel.pricing.totalFee,
+      taxAmount: parcel.pricing.taxTotal ?? 0,
+    }));
+
+  if (!items.length) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Parcels were invoiced by another request"
+    );
+  }
+
+  return Invoice.create({
+    _id: invoiceId,
+    invoiceNumber: await generateUniqueInvoiceNumber(),
+    sender: senderId,
+    items,
+    totalAmount: roundToTwoDecimals(
+      items.reduce((total, item) => total + item.amount, 0)
+    ),
+    taxAmount: roundToTwoDecimals(
+      items.reduce((total, item) => total + item.taxAmount, 0)
+    ),
+    currency: envVars.PAYMENT_CURRENCY,
+    createdBy,
+  });
+};
+
+// Invoice parcels that are not billed yet (Admin or the Sender)
+const createInvoice = async (
+  userId: string,
+  userRole: string,
+  payload: ICreateInvoice
+): Promise<IInvoice> => {
+  const parcels = await Parcel.find({ _id: { $in: payload.parcelIds } });
+
+  if (parcels.length !== payload.parcelIds.length) {
+    throw new AppError(StatusCodes.NOT_FOUND, "One or more parcels not found");
+  }
+
+  const senderIds = new Set(parcels.map((parcel) => parcel.sender.toString()));
+  if (senderIds.size > 1) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "All parcels on an invoice must belong to the same sender"
+    );
+  }
+
+  const [senderId] = [...senderIds];
+  if (userRole === "sender" && senderId !== userId) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only invoice your own parcels"
+    );
+  }
+
+  const unbillableParcels = parcels.filter(
+    (parcel) =>
+      parcel.invoice ||
+      parcel.isCancelled ||
+      parcel.paymentStatus !== PaymentStatus.UNPAID
+  );
+  if (unbillableParcels.length) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Parcels already invoiced, paid or cancelled: ${unbillableParcels
+        .map((parcel) => parcel.trackingId)
+        .join(", ")}`
+    );
+  }
+
+  return issueInvoice(senderId, parcels, userId);
+};
+
+// Charge an unpaid or failed invoice through the payment gateway (Admin or the Sender)
+const payInvoice = async (
+  invoiceId: string,
+  userId: string,
+  userRole: string,
+  payload: IPayInvoice
+): Promise<IInvoice> => {
+  const invoice = await Invoice.findById(invoiceId);
+
+  if (!invoice) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Invoice not found");
+  }
+
+  assertInvoiceAccess(invoice, userId, userRole);
+
+  if (!openInvoiceStatuses.includes(invoice.status)) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Cannot pay an invoice that is ${invoice.status}`
+    );
+  }
+
+  // Checked before the claim so a missing gateway leaves the invoice unlocked
+  const gateway = getPaymentGateway();
+
+  // Only one payment attempt per invoice can reach the gateway
+  const claimedInvoice = await Invoice.findOneAndUpdate(
+    {
+      _id: invoiceId,
+      status: { $in: openInvoiceStatuses },
+      ...getUnlockedFilter(),
+    },
+    { processingStartedAt: new Date() },
+    { new: true }
+  );
+
+  if (!claimedInvoice) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "A payment for this invoice is already in progress"
+    );
+  }
+
+  let result: IPaymentResult;
+  try {
+    result = await gateway.charge({
+      amount: claimedInvoice.totalAmount,
+      currency: claimedInvoice.currency,
+      reference: claimedInvoice.invoiceNumber,
+      paymentMethod: payload.paymentMethod,
+    });
+  } catch {
+    await Invoice.updateOne(
+      { _id: invoiceId },
+      { $unset: { processingStartedAt: 1 } }
+    );
+    throw new AppError(
+      StatusCodes.BAD_GATEWAY,
+      "Payment gateway is unavailable, please try again"
+    );
+  }
+
+  const status = result.success ? PaymentStatus.PAID : PaymentStatus.FAILED;
+
+  const updatedInvoice = await Invoice.findByIdAndUpdate(
+    invoiceId,
+    {
+      status,
+      ...(result.success && { paidAt: new Date() }),
+      $push: {
+        transactions: {
+          type: PaymentTransactionType.CHARGE,
+          gateway: gateway.name,
+          amount: claimedInvoice.totalAmount,
+          success: result.success,
+          transactionId: result.transactionId,
+          failureReason: result.failureReason,
+          performedBy: userId,
+          createdAt: new Date(),
+        },
+      },
+      $unset: { processingStartedAt: 1 },
+    },
+    { new: true }
+  ).populate("sender", "name email phone");
+
+  await Parcel.updateMany({ invoice: invoiceId }, { paymentStatus: status });
+
+  if (!result.success) {
+    throw new AppError(
+      StatusCodes.PAYMENT_REQUIRED,
+      `Payment declined: ${result.failureReason || "unknown reason"}`
+    );
+  }
+
+  return updatedInvoice as IInvoice;
+};
+
+// Refund a paid invoice through the payment gateway (Admin only)
+const refundInvoice = async (
+  invoiceId: string,
+  adminId: string,
+  payload: IRefundInvoice
+): Promise<IInvoice> => {
+  const gateway = getPaymentGateway();
+
+  const claimedInvoice = await Invoice.findOneAndUpdate(
+    { _id: invoiceId, status: PaymentStatus.PAID, ...getUnlockedFilter() },
+    { processingStartedAt: new Date() },
+    { new: true }
+  );
+
+  if (!claimedInvoice) {
+    const invoice = await Invoice.findById(invoiceId);
+    if (!invoice) {
+      throw new AppError(StatusCodes.NOT_FOUND, "Invoice not found");
+    }
+    if (invoice.status !== PaymentStatus.PAID) {
+      throw new AppError(
+        StatusCodes.BAD_REQUEST,
+        "Only paid invoices can be refunded"
+      );
+    }
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "A payment for this invoice is already in progress"
+    );
+  }
+
+  const charge = [...claimedInvoice.transactions]
+    .reverse()
+    .find(
+      (transaction) =>
+        transaction.type === PaymentTransactionType.CHARGE &&
+        transaction.success
+    );
+
+  let result: IPaymentResult;
+  try {
+    result = charge?.transactionId
+      ? await gateway.refund({
+          transactionId: charge.transactionId,
+          amount: charge.amount,
+          currency: claimedInvoice.currency,
+          reference: claimedInvoice.invoiceNumber,
+          reason: payload.reason,
+        })
+      : { success: false, failureReason: "No successful charge to refund" };
+  } catch {
+    await Invoice.updateOne(
+      { _id: invoiceId },
+      { $unset: { processingStartedAt: 1 } }
+    );
+    throw new AppError(
+      StatusCodes.BAD_GATEWAY,
+      "Payment gateway is unavailable, please try again"
+    );
+  }
+
+  const updatedInvoice = await Invoice.findByIdAndUpdate(
+    invoiceId,
+    {
+      ...(result.success && {
+        status: PaymentStatus.REFUNDED,
+        refundedAt: new Date(),
+      }),
+      $push: {
+        transactions: {
+          type: PaymentTransactionType.REFUND,
+          gateway: gateway.name,
+          amount: charge?.amount ?? 0,
+          success: result.success,
+          transactionId: result.transactionId,
+          failureReason: result.failureReason,
+          note: payload.reason,
+          performedBy: adminId,
+          createdAt: new Date(),
+        },
+      },
+      $unset: { processingStartedAt: 1 },
+    },
+    { new: true }
+  ).populate("sender", "name email phone");
+
+  if (!result.success) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Refund declined: ${result.failureReason || "unknown reason"}`
+    );
+  }
+
+  await Parcel.updateMany(
+    { invoice: invoiceId },
+    { paymentStatus: PaymentStatus.REFUNDED }
+  );
+
+  return updatedInvoice as IInvoice;
+};
+
+// Change the billed fee and tax of a parcel on its open invoice
+const updateParcelAmount = async (
+  parcel: Pick<IParcel, "_id" | "invoice">,
+  pricing: Pick<IPricing, "totalFee" | "taxTotal">
+): Promise<void> => {
+  const amount = pricing.totalFee;
+  const taxAmount = pricing.taxTotal ?? 0;
+
+  if (!parcel.invoice) {
+    return;
+  }
+
+  const invoice = await Invoice.findById(parcel.invoice);
+  const item = invoice?.items.find(
+    (invoiceItem) => invoiceItem.parcel.toString() === parcel._id.toString()
+  );
+
+  if (
+    !invoice ||
+    !item ||
+    (item.amount === amount && (item.taxAmount ?? 0) === taxAmount)
+  ) {
+    return;
+  }
+
+  if (!openInvoiceStatuses.includes(invoice.status)) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Cannot change the fee of a parcel whose invoice is ${invoice.status}`
+    );
+  }
+
+  const result = await Invoice.updateOne(
+    {
+      _id: invoice._id,
+      status: { $in: openInvoiceStatuses },
+      totalAmount: invoice.totalAmount,
+      "items.parcel": parcel._id,
+      ...getUnlockedFilter(),
+    },
+    {
+      $set: {
+        "items.$.amount": amount,
+        "items.$.taxAmount": taxAmount,
+        totalAmount: roundToTwoDecimals(
+          invoice.totalAmount - item.amount + amount
+        ),
+        taxAmount: roundToTwoDecimals(
+          (invoice.taxAmount ?? 0) - (item.taxAmount ?? 0) + taxAmount
+        ),
+      },
+    }
+  );
+
+  if (!result.modifiedCount) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "The parcel's invoice is being paid, please try again"
+    );
+  }
+};
+
+// Take a cancelled parcel off its open invoice (paid invoices are refunded by an admin)
+const removeParcel = async (
+  parcel: Pick<IParcel, "_id" | "invoice">
+): Promise<void> => {
+  if (!parcel.invoice) {
+    return;
+  }
+
+  const invoice = await Invoice.findOne({
+    _id: parcel.invoice,
+    status: { $in: openInvoiceStatuses },
+  });
+  const item = invoice?.items.find(
+    (invoiceItem) => invoiceItem.parcel.toString() === parcel._id.toString()
+  );
+
+  if (!invoice || !item) {
+    return;
+  }
+
+  const openFilter = {
+    _id: invoice._id,
+    status: { $in: openInvoiceStatuses },
+    ...getUnlockedFilter(),
+  };
+
+  // An invoice being paid keeps the parcel, an admin refunds it afterwards
+  const isRemoved =
+    invoice.items.length === 1
+      ? (await Invoice.deleteOne(openFilter)).deletedCount > 0
+      : (
+          // Totals are rounded in the same update so they never drift
+          await Invoice.updateOne(openFilter, [
+            {
+              $set: {
+                items: {
+                  $filter: {
+                    input: "$items",
+                    cond: { $ne: ["$$this.parcel", parcel._id] },
+                  },
+                },
+                totalAmount: {
+                  $round: [{ $subtract: ["$totalAmount", item.amount] }, 2],
+                },
+                taxAmount: {
+                  $round: [
+                    { $subtract: ["$taxAmount", item.taxAmount ?? 0] },
+                    2,
+                  ],
+                },
+              },
+            },
+          ])
+        ).modifiedCount > 0;
+
+  if (isRemoved) {
+    await Parcel.updateOne({ _id: parcel._id }, { $unset: { invoice: 1 } });
+  }
+};
+
+// Get invoices (Admin sees all, senders their own)
+const getInvoices = async (
+  query: Record<string, string>,
+  userId: string,
+  userRole: string
+): Promise<{
+  invoices: IInvoice[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const invoiceQuery = new QueryBuilder(
+    Invoice.find(userRole === "sender" ? { sender: userId } : {})
+      .select("-transactions")
+      .populate("sender", "name email phone"),
+    query
+  )
+    .search(["invoiceNumber", "items.trackingId"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const invoices = (await invoiceQuery.build()) as IInvoice[];
+  const meta = await invoiceQuery.getMeta();
+
+  return { invoices, meta };
+};
+
+// Get an invoice with its parcels and transactions (Admin or the Sender)
+const getInvoiceById = async (
+  invoiceId: string,
+  userId: string,
+  userRole: string
+): Promise<IInvoice> => {
+  const invoice = await Invoice.findById(invoiceId).populate(
+    "sender",
+    "name email phone"
+  );
+
+  if (!invoice) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Invoice not found");
+  }
+
+  assertInvoiceAccess(invoice, userId, userRole);
+
+  return invoice;
+};
+
+export const InvoiceService = {
+  issueInvoice,
+  createInvoice,
+  payInvoice,
+  refundInvoice,
+  updateParcelAmount,
+  removeParcel,
+  getInvoices,
+  getInvoiceById,
+};
@@ -0,0 +1,62 @@
+import { z } from "zod";
+import { PaymentStatus } from "../parcel/parcel.interface";
+
+const objectIdSchema = (label: string) =>
+  z.string().regex(/^[0-9a-fA-F]{24}$/, `Invalid ${label} ID format`);
+
+const invoiceIdParamsSchema = z.object({
+  id: objectIdSchema("invoice"),
+});
+
+const createInvoiceValidationSchema = z.object({
+  body: z.object({
+    parcelIds: z
+      .array(objectIdSchema("parcel"))
+      .min(1, "At least one parcel is required")
+      .max(1000, "Cannot invoice more than 1000 parcels at once")
+      .refine((ids) => new Set(ids).size === ids.length, {
+        message: "Each parcel can only be listed once",
+      }),
+  }),
+});
+
+const payInvoiceValidationSchema = z.object({
+  params: invoiceIdParamsSchema,
+  body: z.object({
+    paymentMethod: z
+      .string()
+      .trim()
+      .min(1, "Payment method is required")
+      .max(200, "Payment method cannot exceed 200 characters"),
+  }),
+});
+
+const refundInvoiceValidationSchema = z.object({
+  params: invoiceIdParamsSchema,
+  body: z.object({
+    reason: z
+      .string()
+      .trim()
+      .min(1, "Refund reason is required")
+      .max(500, "Refund reason cannot exceed 500 characters"),
+  }),
+});
+
+const getInvoicesValidationSchema = z.object({
+  query: z.object({
+    status: z.nativeEnum(PaymentStatus).optional(),
+    searchTerm: z.string().trim().optional(),
+  }),
+});
+
+const invoiceIdValidationSchema = z.object({
+  params: invoiceIdParamsSchema,
+});
+
+export const InvoiceValidation = {
+  createInvoiceValidationSchema,
+  payInvoiceValidationSchema,
+  refundInvoiceValidationSchema,
+  getInvoicesValidationSchema,
+  invoiceIdValidationSchema,
+};
@@ -0,0 +1,56 @@
+import { IDeliveryInfo, ParcelStatus } from "./parcel.interface";
+
+// Statuses after which a parcel no longer needs a rider
+export const closedParcelStatuses: string[] = [
+  ParcelStatus.DELIVERED,
+  ParcelStatus.CANCELLED,
+  ParcelStatus.RETURNED,
+];
+
+// CSV columns accepted by the bulk import, mapped onto the create-parcel payload
+export const bulkParcelCsvColumns: Record<
+  string,
+  { path: string; isNumber?: boolean; isBoolean?: boolean }
+> = {
+  receiver_name: { path: "receiver.name" },
+  receiver_email: { path: "receiver.email" },
+  receiver_phone: { path: "receiver.phone" },
+  receiver_street: { path: "receiver.address.street" },
+  receiver_city: { path: "receiver.address.city" },
+  receiver_state: { path: "receiver.address.state" },
+  receiver_zip_code: { path: "receiver.address.zipCode" },
+  receiver_country: { path: "receiver.address.country" },
+  pickup_street: { path: "pickupInfo.address.street" },
+  pickup_city: { path: "pickupInfo.address.city" },
+  pickup_state: { path: "pickupInfo.address.state" },
+  pickup_zip_code: { path: "pickupInfo.address.zipCode" },
+  pickup_country: { path: "pickupInfo.address.country" },
+  pickup_contact_name: { path: "pickupInfo.contactName" },
+  pickup_contact_phone: { path: "pickupInfo.contactPhone" },
+  parcel_type: { path: "parcelDetails.type" },
+  weight: { path: "parcelDetails.weight", isNumber: true },
+  length: { path: "parcelDetails.dimensions.length", isNumber: true },
+  width: { path: "parcelDetails.dimensions.width", isNumber: true },
+  height: { path: "parcelDetails.dimensions.height", isNumber: true },
+  description: { path: "parcelDetails.description" },
+  value: { path: "parcelDetails.value", isNumber: true },
+  preferred_delivery_date: { path: "deliveryInfo.preferredDeliveryDate" },
+  delivery_instructions: { path: "deliveryInfo.deliveryInstructions" },
+  urgency: { path: "deliveryInfo.urgency" },
+  cod_amount: { path: "codAmount", isNumber: true },
+  coupon_code: { path: "couponCode" },
+  insured: { path: "insured", isBoolean: true },
+};
+
+// Upper bound on rows per bulk import request
+export const MAX_BULK_PARCEL_ROWS = 1000;
+
+// Business days from hand-over to delivery, by urgency and route
+export const transitBusinessDays: Record<
+  IDeliveryInfo["urgency"],
+  { sameZone: number; crossZone: number }
+> = {
+  urgent: { sameZone: 0, crossZone: 1 },
+  express: { sameZone: 1, crossZone: 2 },
+  standard: { sameZone: 2, crossZone: 4 },
+};
@@ -1,10 +1,45 @@
-import type { Request, Response } from "express";
+import type { NextFunction, Request, Response } from "express";
 import { StatusCodes } from "http-status-codes";
 import AppError from "../../errorHelpers/AppError";
 import { catchAsync } from "../../utils/catchAsync";
 import { sendResponse } from "../../utils/sendResponse";
+import { IProofOfDeliveryFiles, ProofAttachmentKind } from "./parcel.interface";
 import { ParcelService } from "./parcel.service";
 
+// Map uploaded proof-of-delivery images (multipart fields "photo" and "signature")
+const getProofOfDeliveryFiles = (req: Request): IProofOfDeliveryFiles => {
+  const uploadedFiles = req.files as
+    | Record<string, Express.Multer.File[]>
+    | undefined;
+  const files: IProofOfDeliveryFiles = {};
+
+  Object.values(ProofAttachmentKind).forEach((kind) => {
+    const file = uploadedFiles?.[kind]?.[0];
+    if (file) {
+      files[kind] = {
+        buffer: file.buffer,
+        originalName: file.originalname,
+        mimeType: file.mimetype,
+        size: file.size,
+      };
+    }
+  });
+
+  return files;
+};
+
+// Get a price quote for a shipment (Public)
+const getQuote = catchAsync(async (req: Request, res: Response) => {
+  const result = await ParcelService.getQuote(req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Quote calculated successfully",
+    data: result,
+  });
+});
+
 // Create new parcel (Sender only)
 const createParcel = catchAsync(async (req: Request, res: Response) => {
   const senderId = req.user?.userId;
@@ -24,6 +59,36 @@ const createParcel = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+// Create parcels in bulk from a CSV file (Sender only)
+const bulkCreateParcels = catchAsync(async (req: Request, res: Response) => {
+  const senderId = req.user?.userId;
+  const dryRun = req.query.dryRun === "true";
+
+  if (!senderId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  if (!req.file) {
+    throw new AppError(StatusCodes.BAD_REQUEST, "CSV file is required");
+  }
+
+  const result = await ParcelService.bulkCreateParcels(
+    senderId,
+    req.file.buffer.toString("utf-8"),
+    dryRun
+  );
+
+  sendResponse(res, {
+    statusCode:
+      dryRun || !result.createdCount ? StatusCodes.OK : StatusCodes.CREATED,
+    success: true,
+    message: dryRun
+      ? "Bulk import validated, no parcels were created"
+      : `${result.createdCount} of ${result.totalRows} parcels created successfully`,
+    data: result,
+  });
+});
+
 // Get parcel by ID (Owner or Admin only)
 const getParcelById = catchAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -117,6 +182,75 @@ const getMyReceivedParcels = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+// Get today's assigned parcels in route order (Rider only)
+const getMyAssignedParcels = catchAsync(async (req: Request, res: Response) => {
+  const riderId = req.user?.userId;
+
+  if (!riderId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ParcelService.getRiderParcels(
+    riderId,
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Assigned parcels retrieved successfully",
+    data: result.parcels,
+    meta: result.meta,
+  });
+});
+
+// Reorder the stops of the rider's run (Rider only)
+const updateMyRouteOrder = catchAsync(async (req: Request, res: Response) => {
+  const riderId = req.user?.userId;
+
+  if (!riderId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ParcelService.updateRiderRouteOrder(
+    riderId,
+    req.body.parcels
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Route order updated successfully",
+    data: result,
+  });
+});
+
+// Update status of an assigned parcel (Rider only)
+const updateRiderParcelStatus = catchAsync(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const riderId = req.user?.userId;
+
+    if (!riderId) {
+      throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+    }
+
+    const result = await ParcelService.updateRiderParcelStatus(
+      id,
+      riderId,
+      req.body,
+      getProofOfDeliveryFiles(req)
+    );
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: "Parcel status updated successfully",
+      data: result,
+    });
+  }
+);
+
 // Update parcel details (Sender only, before dispatch)
 const updateParcel = catchAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -150,7 +284,9 @@ const updateParcelStatus = catchAsync(async (req: Request, res: Response) => {
   const result = await ParcelService.updateParcelStatus(
     id,
     adminId,
-    statusUpdate
+    "admin",
+    statusUpdate,
+    getProofOfDeliveryFiles(req)
   );
 
   sendResponse(res, {
@@ -161,6 +297,54 @@ const updateParcelStatus = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+// Update status of a single piece (Admin only)
+const updatePieceStatus = catchAsync(async (req: Request, res: Response) => {
+  const { pieceId } = req.params;
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ParcelService.updatePieceStatus(
+    pieceId,
+    adminId,
+    req.body
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Piece status updated successfully",
+    data: result,
+  });
+});
+
+// Schedule pickup into a pickup slot (Sender or Admin)
+const schedulePickup = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+  const userRole = req.user?.role;
+
+  if (!userId || !userRole) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ParcelService.schedulePickup(
+    id,
+    userId,
+    userRole,
+    req.body
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Pickup scheduled successfully",
+    data: result,
+  });
+});
+
 // Cancel parcel (Sender only, if not dispatched)
 const cancelParcel = catchAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -185,13 +369,18 @@ const cancelParcel = catchAsync(async (req: Request, res: Response) => {
 const confirmDelivery = catchAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
   const receiverEmail = req.user?.email;
-  const { note } = req.body;
+  const { otp, note } = req.body;
 
   if (!receiverEmail) {
     throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
   }
 
-  const result = await ParcelService.confirmDelivery(id, receiverEmail, note);
+  const result = await ParcelService.confirmDelivery(
+    id,
+    receiverEmail,
+    otp,
+    note
+  );
 
   sendResponse(res, {
     statusCode: StatusCodes.OK,
@@ -201,6 +390,77 @@ const confirmDelivery = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+// Verify delivery with one-time code (Receiver or Admin)
+const verifyDeliveryOtp = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userId = req.user?.userId;
+  const userRole = req.user?.role;
+  const userEmail = req.user?.email;
+
+  if (!userId || !userRole || !userEmail) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ParcelService.verifyDeliveryOtp(
+    id,
+    userId,
+    userRole,
+    userEmail,
+    req.body,
+    getProofOfDeliveryFiles(req)
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Delivery verified successfully",
+    data: result,
+  });
+});
+
+// Resend delivery code (Receiver or Admin)
+const resendDeliveryOtp = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const userRole = req.user?.role;
+  const userEmail = req.user?.email;
+
+  if (!userRole || !userEmail) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ParcelService.resendDeliveryOtp(id, userRole, userEmail);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Delivery code sent successfully",
+    data: result,
+  });
+});
+
+// Create return shipment for returned parcel (Admin only)
+const createReturnShipment = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ParcelService.createReturnShipmentForParcel(
+    id,
+    adminId,
+    req.body
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: "Return shipment created successfully",
+    data: result,
+  });
+});
+
 // Block/unblock parcel (Admin only)
 const blockParcel = catchAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -230,7 +490,7 @@ const blockParcel = catchAsync(async (req: Request, res: Response) => {
 const assignDeliveryPersonnel = catchAsync(
   async (req: Request, res: Response) => {
     const { id } = req.params;
-    const { deliveryPersonnel, note } = req.body;
+    const { riderId, note } = req.body;
     const adminId = req.user?.userId;
 
     if (!adminId) {
@@ -239,7 +499,7 @@ const assignDeliveryPersonnel = catchAsync(
 
     const result = await ParcelService.assignDeliveryPersonnel(
       id,
-      deliveryPersonnel,
+      riderId,
       note,
       adminId
     );
@@ -253,6 +513,134 @@ const assignDeliveryPersonnel = catchAsync(
   }
 );
 
+// Bulk update parcel status (Admin only)
+const bulkUpdateParcelStatus = catchAsync(
+  async (req: Request, res: Response) => {
+    const adminId = req.user?.userId;
+    const { parcels, ...statusUpdate } = req.body;
+
+    if (!adminId) {
+      throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+    }
+
+    const result = await ParcelService.bulkUpdateParcelStatus(
+      parcels,
+      adminId,
+      statusUpdate
+    );
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: `${result.succeeded} of ${result.total} parcels updated successfully`,
+      data: result,
+    });
+  }
+);
+
+// Bulk block/unblock parcels (Admin only)
+const bulkBlockParcels = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+  const { parcels, isBlocked, reason } = req.body;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ParcelService.bulkBlockParcels(
+    parcels,
+    adminId,
+    isBlocked,
+    reason
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: `${result.succeeded} of ${result.total} parcels ${isBlocked ? "blocked" : "unblocked"} successfully`,
+    data: result,
+  });
+});
+
+// Reassign delivery personnel (Admin only)
+const reassignDeliveryPersonnel = catchAsync(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { riderId, reason } = req.body;
+    const adminId = req.user?.userId;
+
+    if (!adminId) {
+      throw new AppError(StatusCodes.UNAUTHORIZED, "Admin not authenticated");
+    }
+
+    const result = await ParcelService.reassignDeliveryPersonnel(
+      id,
+      riderId,
+      reason,
+      adminId
+    );
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: "Delivery personnel reassigned successfully",
+      data: result,
+    });
+  }
+);
+
+// Unassign delivery personnel (Admin only)
+const unassignDeliveryPersonnel = catchAsync(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const { reason } = req.body;
+    const adminId = req.user?.userId;
+
+    if (!adminId) {
+      throw new AppError(StatusCodes.UNAUTHORIZED, "Admin not authenticated");
+    }
+
+    const result = await ParcelService.unassignDeliveryPersonnel(
+      id,
+      reason,
+      adminId
+    );
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: "Delivery personnel unassigned successfully",
+      data: result,
+    });
+  }
+);
+
+// Bulk assign delivery personnel (Admin only)
+const bulkAssignDeliveryPersonnel = catchAsync(
+  async (req: Request, res: Response) => {
+    const adminId = req.user?.userId;
+    const { parcels, riderId, note } = req.body;
+
+    if (!adminId) {
+      throw new AppError(StatusCodes.UNAUTHORIZED, "Admin not authenticated");
+    }
+
+    const result = await ParcelService.bulkAssignDeliveryPersonnel(
+      parcels,
+      riderId,
+      note,
+      adminId
+    );
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: `Delivery personnel assigned to ${result.succeeded} of ${result.total} parcels`,
+      data: result,
+    });
+  }
+);
+
 // Delete parcel (Admin only)
 const deleteParcel = catchAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -301,6 +689,34 @@ const getParcelStatusHistory = catchAsync(
   }
 );
 
+// Download proof-of-delivery attachment (Sender, Receiver or Admin)
+const getProofAttachment = catchAsync(
+  async (req: Request, res: Response, next: NextFunction) => {
+    const { id, attachmentId } = req.params;
+    const userId = req.user?.userId;
+    const userRole = req.user?.role;
+
+    if (!userId || !userRole) {
+      throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+    }
+
+    const { attachment, file } = await ParcelService.getProofAttachment(
+      id,
+      attachmentId,
+      userId,
+      userRole
+    );
+
+    res.setHeader("Content-Type", attachment.mimeType);
+    res.setHeader(
+      "Content-Disposition",
+      `attachment; filename="${encodeURIComponent(attachment.fileName)}"`
+    );
+    file.on("error", next);
+    file.pipe(res);
+  }
+);
+
 // Get delivery history for receiver
 const getDeliveryHistory = catchAsync(async (req: Request, res: Response) => {
   const receiverEmail = req.user?.email;
@@ -350,21 +766,37 @@ const getUserNotifications = catchAsync(async (req: Request, res: Response) => {
 });
 
 export const ParcelController = {
+  getQuote,
   createParcel,
+  bulkCreateParcels,
   getParcelById,
   trackParcel,
   getAllParcels,
   getMySentParcels,
   getMyReceivedParcels,
+  getMyAssignedParcels,
+  updateMyRouteOrder,
+  updateRiderParcelStatus,
   updateParcel,
   updateParcelStatus,
+  updatePieceStatus,
+  schedulePickup,
   cancelParcel,
   confirmDelivery,
+  verifyDeliveryOtp,
+  resendDeliveryOtp,
+  createReturnShipment,
   blockParcel,
   assignDeliveryPersonnel,
+  reassignDeliveryPersonnel,
+  unassignDeliveryPersonnel,
+  bulkUpdateParcelStatus,
+  bulkBlockParcels,
+  bulkAssignDeliveryPersonnel,
   deleteParcel,
   getParcelStats,
   getParcelStatusHistory,
+  getProofAttachment,
   getDeliveryHistory,
   getUserNotifications,
 };
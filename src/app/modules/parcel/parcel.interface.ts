@@ -1,8 +1,14 @@
 import { ObjectId } from "mongoose";
+import { IUploadedFile } from "../../utils/fileStorage";
+import { HubScanType } from "../hub/hub.interface";
+import { IPickupWindow } from "../pickupSlot/pickupSlot.interface";
+import { TaxMode } from "../tax/tax.interface";
+import { IZoneAddress } from "../zone/zone.interface";
 
 export enum ParcelStatus {
   REQUESTED = "requested",
   APPROVED = "approved",
+  PICKUP_SCHEDULED = "pickup_scheduled",
   PICKED_UP = "picked_up",
   IN_TRANSIT = "in_transit",
   OUT_FOR_DELIVERY = "out_for_delivery",
@@ -10,14 +16,116 @@ export enum ParcelStatus {
   CANCELLED = "cancelled",
   RETURNED = "returned",
   FAILED_DELIVERY = "failed_delivery",
+  PARTIALLY_DELIVERED = "partially_delivered", // Derived for multi-piece parcels
+}
+
+export enum DeliveryVerificationMethod {
+  OTP = "otp",
+  RECEIVER_CONFIRMATION = "receiver_confirmation",
+  ADMIN_OVERRIDE = "admin_override",
+}
+
+export enum DeliveryFailureReason {
+  RECEIVER_ABSENT = "receiver_absent",
+  WRONG_ADDRESS = "wrong_address",
+  REFUSED = "refused",
+  UNSAFE_LOCATION = "unsafe_location",
+  OTHER = "other",
+}
+
+export enum AssignmentAction {
+  ASSIGNED = "assigned",
+  REASSIGNED = "reassigned",
+  UNASSIGNED = "unassigned",
+}
+
+export enum CodStatus {
+  PENDING = "pending", // Waiting to be collected at the door
+  COLLECTED = "collected", // Held by the rider who delivered the parcel
+  DEPOSITED = "deposited", // Handed in at a hub
+  REMITTED = "remitted", // Paid out to the sender
+}
+
+export enum PaymentStatus {
+  UNPAID = "unpaid", // Invoiced, no successful payment yet
+  PAID = "paid",
+  FAILED = "failed", // Last payment attempt was declined
+  REFUNDED = "refunded",
+}
+
+export enum ProofAttachmentKind {
+  PHOTO = "photo",
+  SIGNATURE = "signature",
+}
+
+export interface IProofAttachment {
+  _id?: ObjectId;
+  kind: ProofAttachmentKind;
+  storageKey: string; // Reference returned by the storage adapter
+  fileName: string;
+  mimeType: string;
+  size: number; // in bytes
+  uploadedBy: string; // Reference to User
+  uploadedAt: Date;
 }
 
 export interface IStatusLog {
-  status: ParcelStatus;
+  status: string; // ParcelStatus or a custom workflow status
   timestamp: Date;
   updatedBy: string; // Reference to User
   location?: string;
   note?: string;
+  verificationMethod?: DeliveryVerificationMethod; // How a delivery was verified
+  attachments?: IProofAttachment[]; // Proof-of-delivery photo and signature
+  failureReason?: DeliveryFailureReason; // Set on failed delivery attempts
+  pieceId?: string; // Set when the update was scanned for a single piece
+  hub?: ObjectId; // Reference to the Hub the parcel was scanned at
+  scanType?: HubScanType;
+  autoAssigned?: boolean; // Set when the assignment engine picked the rider
+}
+
+export interface IDeliveryAttempt {
+  attemptNumber: number;
+  reason: DeliveryFailureReason;
+  note?: string;
+  attemptedAt: Date;
+  recordedBy: string; // Reference to User
+}
+
+export interface IAssignmentLog {
+  action: AssignmentAction;
+  rider?: ObjectId; // Rider assigned by this change (absent when unassigned)
+  previousRider?: ObjectId; // Rider the parcel was taken from
+  assignedBy: string; // Reference to User
+  reason?: string;
+  isAutomatic?: boolean; // Picked by the assignment engine rather than an admin
+  timestamp: Date;
+}
+
+export interface IDeliveryOtp {
+  codeHash: string; // Hashed one-time delivery code
+  expiresAt: Date;
+  attempts: number;
+  maxAttempts: number;
+  generatedAt: Date;
+  verifiedAt?: Date;
+}
+
+export interface ICashOnDelivery {
+  amount: number; // Collected from the receiver on delivery
+  status: CodStatus;
+  collectedBy?: ObjectId; // Rider (or admin) holding the cash
+  collectedAt?: Date;
+  depositHub?: ObjectId; // Hub the cash was deposited at
+  depositedAt?: Date;
+  remittance?: ObjectId; // Reference to the CodRemittance statement
+  remittedAt?: Date;
+}
+
+export interface IParcelInsurance {
+  declaredValue: number; // parcelDetails.value when the parcel was insured
+  coverageAmount: number; // Payout ceiling of loss and damage claims
+  premium: number; // Charged in pricing.insurancePremium
 }
 
 export interface IParcelReceiver {
@@ -33,6 +141,15 @@ export interface IParcelReceiver {
   };
 }
 
+export interface IPickupInfo {
+  address: IParcelReceiver["address"]; // Defaults to the sender's saved address
+  contactName?: string;
+  contactPhone?: string;
+  window?: IPickupWindow; // Requested or booked pickup time window
+  slot?: ObjectId; // Reference to the booked PickupSlot
+  scheduledAt?: Date;
+}
+
 export interface IParcelDetails {
   type: "document" | "package" | "fragile" | "electronics" | "other";
   weight: number; // in kg
@@ -45,15 +162,17 @@ export interface IParcelDetails {
   value?: number;
 }
 
-export interface IDeliveryPersonnel {
-  name: string;
-  email: string;
-  phone: string;
-  employeeId?: string;
-  vehicleInfo?: {
-    type: string;
-    plateNumber: string;
+export interface IParcelPiece {
+  pieceId: string; // Format: TRK-YYYYMMDD-XXXXXX-P01
+  weight: number; // in kg
+  dimensions?: {
+    length: number;
+    width: number;
+    height: number;
   };
+  description?: string;
+  currentStatus: string;
+  lastScannedAt?: Date;
 }
 
 export interface IDeliveryInfo {
@@ -62,13 +181,30 @@ export interface IDeliveryInfo {
   urgency: "standard" | "express" | "urgent";
 }
 
+export interface ITaxLine {
+  name: string;
+  rate: number; // Percentage
+  taxableAmount: number; // Taxed components after their share of the discount
+  amount: number;
+}
+
 export interface IPricing {
+  actualWeight?: number; // Total weight in kg
+  volumetricWeight?: number; // Dimensions in cm³ divided by the rate card divisor
+  chargeableWeight?: number; // Greater of the actual and volumetric weight
   baseFee: number;
   weightFee: number;
+  surcharge?: number; // Parcel type surcharge
   urgencyFee: number;
-  totalFee: number;
+  insurancePremium?: number;
+  totalFee: number; // Amount charged, tax included
   discount?: number;
   couponCode?: string;
+  couponId?: ObjectId; // Reference to the Coupon, which keeps up with renamed codes
+  rateCardVersion?: number; // Rate card version that priced the parcel
+  taxMode?: TaxMode; // Whether the fees above include the tax
+  taxes?: ITaxLine[]; // One line per tax rule of the pickup address
+  taxTotal?: number;
 }
 
 export interface IParcel {
@@ -76,39 +212,164 @@ export interface IParcel {
   trackingId: string; // Format: TRK-YYYYMMDD-XXXXXX
   sender: ObjectId; // Reference to User
   receiver: IParcelReceiver;
-  parcelDetails: IParcelDetails;
+  pickupInfo: IPickupInfo;
+  currentHub?: ObjectId; // Hub the parcel is currently scanned in at
+  parcelDetails: IParcelDetails; // Weight is the total of all pieces
+  pieces: IParcelPiece[]; // Cartons of a multi-piece shipment (empty for single parcels)
   deliveryInfo: IDeliveryInfo;
+  estimatedDeliveryDate?: Date; // Delivery day ETA (midnight UTC), kept when the parcel closes
+  promisedDeliveryDate?: Date; // First estimate, fixed at creation and used for delivery SLAs
   pricing: IPricing;
-  currentStatus: ParcelStatus;
+  quoteId?: string; // Quote the parcel was created from, each quote books one parcel
+  cod?: ICashOnDelivery; // Set for cash-on-delivery parcels
+  insurance?: IParcelInsurance; // Set for insured parcels
+  paymentStatus: PaymentStatus; // Payment state of the shipping fee
+  invoice?: ObjectId; // Reference to the Invoice the fee is billed on
+  workflowVersion: number; // Workflow version the parcel was created under
+  currentStatus: string; // ParcelStatus or a custom workflow status
   statusHistory: IStatusLog[]; // Embedded status logs
   isBlocked: boolean;
   isCancelled: boolean;
-  deliveryPersonnel?: IDeliveryPersonnel; // Delivery personnel information (optional)
+  deliveryPersonnel?: ObjectId; // Reference to the assigned rider (User)
+  routeOrder?: number; // Stop number in the assigned rider's run
+  assignmentHistory: IAssignmentLog[]; // Every assign, reassign and unassign
+  deliveryOtp?: IDeliveryOtp; // Proof-of-delivery code (not selected by default)
+  deliveryAttempts: IDeliveryAttempt[]; // Failed delivery attempts
+  deliveryAttemptCount: number;
+  autoReturnedAt?: Date; // Set when the attempt limit returned the parcel
+  isReturnShipment: boolean; // True for the return leg of a RETURNED parcel
+  parentParcel?: ObjectId; // Outbound parcel this return leg belongs to
+  returnParcel?: ObjectId; // Return leg created when this parcel was RETURNED
   createdAt: Date;
   updatedAt: Date;
 }
 
 // Input interfaces for API operations
+export type ICreateParcelPiece = Pick<
+  IParcelPiece,
+  "weight" | "dimensions" | "description"
+>;
+
+export type ICreatePickupInfo = Partial<
+  Pick<IPickupInfo, "address" | "contactName" | "contactPhone" | "window">
+>;
+
 export interface ICreateParcel {
   receiver: IParcelReceiver;
+  pickupInfo?: ICreatePickupInfo;
   parcelDetails: IParcelDetails;
   deliveryInfo: IDeliveryInfo;
+  pieces?: ICreateParcelPiece[];
+  codAmount?: number; // Cash to collect from the receiver
+  couponCode?: string;
+  insured?: boolean; // Insure the declared value (parcelDetails.value)
+  quoteToken?: string; // Locks the price of a quote obtained before creation
+}
+
+export interface IQuoteRequest {
+  parcelDetails: Pick<IParcelDetails, "type" | "weight" | "dimensions">;
+  deliveryInfo: Pick<IDeliveryInfo, "urgency">;
+  origin: IZoneAddress; // Pickup address
+  destination: IZoneAddress; // Delivery address
+}
+
+// Shipment a quote was priced for, signed into its quote token
+export interface IQuoteTokenPayload
+  extends Pick<IParcelDetails, "type" | "weight" | "dimensions"> {
+  quoteId: string; // Stored on the parcel created from the quote
+  urgency: IDeliveryInfo["urgency"];
+  originZone?: string;
+  destinationZone?: string;
+  rateCardVersion: number;
+}
+
+export interface IParcelQuote {
+  pricing: IPricing;
+  estimatedDeliveryDate?: Date;
+  quoteToken: string; // Redeemed once with POST /parcel to lock the fees
+  expiresAt: Date;
 }
 
 export interface IUpdateParcelStatus {
-  status: ParcelStatus;
+  status: string;
   location?: string;
   note?: string;
+  failureReason?: DeliveryFailureReason; // Required for failed deliveries
+}
+
+export type IProofOfDeliveryFiles = Partial<
+  Record<ProofAttachmentKind, IUploadedFile>
+>;
+
+export type IUpdatePieceStatus = Omit<IUpdateParcelStatus, "failureReason">;
+
+export interface IBulkParcelRowResult {
+  row: number; // Spreadsheet row number (header is row 1)
+  success: boolean;
+  parcelId?: string;
+  trackingId?: string;
+  pricing?: IPricing;
+  estimatedDeliveryDate?: Date;
+  errors?: string[];
+}
+
+export interface IBulkParcelImportReport {
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  createdCount: number;
+  invoiceNumber?: string; // Invoice the created parcels are billed on
+  results: IBulkParcelRowResult[];
+}
+
+export interface IBulkParcelOperationResult {
+  reference: string; // Parcel ID or tracking ID as sent by the client
+  success: boolean;
+  parcelId?: string;
+  trackingId?: string;
+  currentStatus?: string;
+  error?: string;
+}
+
+export interface IBulkParcelOperationReport {
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: IBulkParcelOperationResult[];
+}
+
+export interface ISchedulePickup {
+  slotId: string;
+}
+
+export interface IVerifyDeliveryOtp {
+  otp: string;
+  note?: string;
+}
+
+// Riders confirm DELIVERED with the receiver's delivery code
+export interface IRiderStatusUpdate extends IUpdateParcelStatus {
+  otp?: string;
+  codCollected?: boolean; // Confirms the cash-on-delivery amount was collected
+}
+
+export interface ICreateReturnShipment {
+  receiver?: IParcelReceiver; // Defaults to the original sender's profile
 }
 
 export interface IUpdateParcel {
   receiver?: Partial<IParcelReceiver>;
+  pickupInfo?: ICreatePickupInfo;
   parcelDetails?: Partial<IParcelDetails>;
   deliveryInfo?: Partial<IDeliveryInfo>;
+  codAmount?: number; // 0 removes cash on delivery
+  couponCode?: string; // An empty string removes the coupon
+  insured?: boolean; // false removes the insurance
 }
 
 export interface IParcelFilters {
-  status?: ParcelStatus;
+  status?: string;
   sender?: string;
   receiverEmail?: string;
   trackingId?: string;
@@ -124,10 +385,13 @@ export interface IParcelStats {
   pendingParcels: number;
   cancelledParcels: number;
   averageDeliveryTime: string;
-  revenueThisMonth: number;
+  revenueThisMonth: number; // Tax included
+  taxThisMonth: number;
+  netRevenueThisMonth: number; // Revenue without tax
   statusBreakdown: {
     requested: number;
     approved: number;
+    pickup_scheduled: number;
     picked_up: number;
     in_transit: number;
     out_for_delivery: number;
@@ -135,5 +399,12 @@ export interface IParcelStats {
     cancelled: number;
     returned: number;
     failed_delivery: number;
+    partially_delivered: number;
+  } & Record<string, number>; // Includes custom workflow statuses
+  deliveryAttempts: {
+    totalFailedAttempts: number;
+    parcelsWithFailedAttempts: number;
+    autoReturnedParcels: number;
+    byReason: Record<DeliveryFailureReason, number>;
   };
 }
@@ -1,23 +1,77 @@
-import { model, Model, Schema } from "mongoose";
+import { Document, model, Model, Schema } from "mongoose";
+import { HubScanType } from "../hub/hub.interface";
+import { TaxMode } from "../tax/tax.interface";
 import {
+  AssignmentAction,
+  CodStatus,
+  DeliveryFailureReason,
+  DeliveryVerificationMethod,
+  IAssignmentLog,
+  ICashOnDelivery,
+  IDeliveryAttempt,
   IDeliveryInfo,
-  IDeliveryPersonnel,
+  IDeliveryOtp,
   IParcel,
   IParcelDetails,
+  IParcelInsurance,
+  IParcelPiece,
   IParcelReceiver,
+  IPickupInfo,
   IPricing,
+  IProofAttachment,
+  ITaxLine,
   IStatusLog,
-  ParcelStatus
+  ParcelStatus,
+  PaymentStatus,
+  ProofAttachmentKind
 } from "./parcel.interface";
 
 export type ParcelModel = Model<IParcel>;
 
+// Proof Attachment Schema
+const proofAttachmentSchema = new Schema<IProofAttachment>(
+  {
+    kind: {
+      type: String,
+      enum: Object.values(ProofAttachmentKind),
+      required: [true, "Attachment kind is required"],
+    },
+    storageKey: {
+      type: String,
+      required: [true, "Storage key is required"],
+    },
+    fileName: {
+      type: String,
+      required: [true, "File name is required"],
+      trim: true,
+    },
+    mimeType: {
+      type: String,
+      required: [true, "MIME type is required"],
+    },
+    size: {
+      type: Number,
+      required: [true, "File size is required"],
+      min: [0, "File size cannot be negative"],
+    },
+    uploadedBy: {
+      type: String,
+      required: [true, "Uploaded by user is required"],
+    },
+    uploadedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { versionKey: false }
+);
+
 // Status Log Schema
 const statusLogSchema = new Schema<IStatusLog>(
   {
     status: {
       type: String,
-      enum: Object.values(ParcelStatus),
+      trim: true,
       required: [true, "Status is required"],
     },
     timestamp: {
@@ -38,6 +92,201 @@ const statusLogSchema = new Schema<IStatusLog>(
       trim: true,
       maxlength: [500, "Note cannot exceed 500 characters"],
     },
+    verificationMethod: {
+      type: String,
+      enum: Object.values(DeliveryVerificationMethod),
+    },
+    attachments: {
+      type: [proofAttachmentSchema],
+      default: undefined,
+    },
+    failureReason: {
+      type: String,
+      enum: Object.values(DeliveryFailureReason),
+    },
+    pieceId: {
+      type: String,
+      trim: true,
+    },
+    hub: {
+      type: Schema.Types.ObjectId,
+      ref: "Hub",
+    },
+    scanType: {
+      type: String,
+      enum: Object.values(HubScanType),
+    },
+    autoAssigned: {
+      type: Boolean,
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Delivery Attempt Schema
+const deliveryAttemptSchema = new Schema<IDeliveryAttempt>(
+  {
+    attemptNumber: {
+      type: Number,
+      required: [true, "Attempt number is required"],
+      min: [1, "Attempt number must be at least 1"],
+    },
+    reason: {
+      type: String,
+      enum: {
+        values: Object.values(DeliveryFailureReason),
+        message: "Invalid delivery failure reason",
+      },
+      required: [true, "Failure reason is required"],
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Note cannot exceed 500 characters"],
+    },
+    attemptedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    recordedBy: {
+      type: String,
+      required: [true, "Recorded by user is required"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Assignment Log Schema
+const assignmentLogSchema = new Schema<IAssignmentLog>(
+  {
+    action: {
+      type: String,
+      enum: {
+        values: Object.values(AssignmentAction),
+        message: "Invalid assignment action",
+      },
+      required: [true, "Assignment action is required"],
+    },
+    rider: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    previousRider: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    assignedBy: {
+      type: String,
+      required: [true, "Assigned by user is required"],
+    },
+    reason: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Reason cannot exceed 500 characters"],
+    },
+    isAutomatic: {
+      type: Boolean,
+      default: false,
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Cash on Delivery Schema
+const cashOnDeliverySchema = new Schema<ICashOnDelivery>(
+  {
+    amount: {
+      type: Number,
+      required: [true, "Cash-on-delivery amount is required"],
+      min: [0, "Cash-on-delivery amount cannot be negative"],
+    },
+    status: {
+      type: String,
+      enum: {
+        values: Object.values(CodStatus),
+        message: "Invalid cash-on-delivery status: {VALUE}",
+      },
+      default: CodStatus.PENDING,
+    },
+    collectedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    collectedAt: {
+      type: Date,
+    },
+    depositHub: {
+      type: Schema.Types.ObjectId,
+      ref: "Hub",
+    },
+    depositedAt: {
+      type: Date,
+    },
+    remittance: {
+      type: Schema.Types.ObjectId,
+      ref: "CodRemittance",
+    },
+    remittedAt: {
+      type: Date,
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Insurance Schema
+const insuranceSchema = new Schema<IParcelInsurance>(
+  {
+    declaredValue: {
+      type: Number,
+      required: [true, "Declared value is required"],
+      min: [0.01, "Declared value must be greater than 0"],
+    },
+    coverageAmount: {
+      type: Number,
+      required: [true, "Coverage amount is required"],
+      min: [0, "Coverage amount cannot be negative"],
+    },
+    premium: {
+      type: Number,
+      required: [true, "Insurance premium is required"],
+      min: [0, "Insurance premium cannot be negative"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Delivery OTP Schema
+const deliveryOtpSchema = new Schema<IDeliveryOtp>(
+  {
+    codeHash: {
+      type: String,
+      required: [true, "Delivery code hash is required"],
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, "Delivery code expiry is required"],
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: [0, "Attempts cannot be negative"],
+    },
+    maxAttempts: {
+      type: Number,
+      required: [true, "Maximum attempts is required"],
+      min: [1, "Maximum attempts must be at least 1"],
+    },
+    generatedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    verifiedAt: {
+      type: Date,
+    },
   },
   { _id: false, versionKey: false }
 );
@@ -107,6 +356,51 @@ const receiverSchema = new Schema<IParcelReceiver>(
   { _id: false, versionKey: false }
 );
 
+// Pickup Window Schema
+const pickupWindowSchema = new Schema(
+  {
+    start: {
+      type: Date,
+      required: [true, "Pickup window start is required"],
+    },
+    end: {
+      type: Date,
+      required: [true, "Pickup window end is required"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Pickup Info Schema
+const pickupInfoSchema = new Schema<IPickupInfo>(
+  {
+    address: {
+      type: addressSchema,
+      required: [true, "Pickup address is required"],
+    },
+    contactName: {
+      type: String,
+      trim: true,
+    },
+    contactPhone: {
+      type: String,
+      trim: true,
+      match: [/^\+?[\d\s\-()]+$/, "Please enter a valid phone number"],
+    },
+    window: {
+      type: pickupWindowSchema,
+    },
+    slot: {
+      type: Schema.Types.ObjectId,
+      ref: "PickupSlot",
+    },
+    scheduledAt: {
+      type: Date,
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
 // Dimensions Schema
 const dimensionsSchema = new Schema(
   {
@@ -142,7 +436,8 @@ const parcelDetailsSchema = new Schema<IParcelDetails>(
       type: Number,
       required: [true, "Weight is required"],
       min: [0.1, "Weight must be at least 0.1 kg"],
-      max: [50, "Weight cannot exceed 50 kg"],
+      // Total of all pieces for multi-piece shipments (50 pieces of up to 50 kg)
+      max: [2500, "Weight cannot exceed 2500 kg"],
     },
     dimensions: {
       type: dimensionsSchema,
@@ -161,6 +456,41 @@ const parcelDetailsSchema = new Schema<IParcelDetails>(
   { _id: false, versionKey: false }
 );
 
+// Parcel Piece Schema (multi-piece shipments)
+const parcelPieceSchema = new Schema<IParcelPiece>(
+  {
+    pieceId: {
+      type: String,
+      required: [true, "Piece ID is required"],
+      trim: true,
+    },
+    weight: {
+      type: Number,
+      required: [true, "Weight is required"],
+      min: [0.1, "Weight must be at least 0.1 kg"],
+      max: [50, "Weight cannot exceed 50 kg"],
+    },
+    dimensions: {
+      type: dimensionsSchema,
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [200, "Piece description cannot exceed 200 characters"],
+    },
+    currentStatus: {
+      type: String,
+      trim: true,
+      default: ParcelStatus.REQUESTED,
+      required: [true, "Piece status is required"],
+    },
+    lastScannedAt: {
+      type: Date,
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
 // Delivery Info Schema
 const deliveryInfoSchema = new Schema<IDeliveryInfo>(
   {
@@ -191,9 +521,47 @@ const deliveryInfoSchema = new Schema<IDeliveryInfo>(
   { _id: false, versionKey: false }
 );
 
+// Tax Line Schema
+const taxLineSchema = new Schema<ITaxLine>(
+  {
+    name: {
+      type: String,
+      required: [true, "Tax name is required"],
+    },
+    rate: {
+      type: Number,
+      required: [true, "Tax rate is required"],
+      min: [0, "Tax rate cannot be negative"],
+    },
+    taxableAmount: {
+      type: Number,
+      required: [true, "Taxable amount is required"],
+      min: [0, "Taxable amount cannot be negative"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Tax amount is required"],
+      min: [0, "Tax amount cannot be negative"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
 // Pricing Schema
 const pricingSchema = new Schema<IPricing>(
   {
+    actualWeight: {
+      type: Number,
+      min: [0, "Actual weight cannot be negative"],
+    },
+    volumetricWeight: {
+      type: Number,
+      min: [0, "Volumetric weight cannot be negative"],
+    },
+    chargeableWeight: {
+      type: Number,
+      min: [0, "Chargeable weight cannot be negative"],
+    },
     baseFee: {
       type: Number,
       required: [true, "Base fee is required"],
@@ -204,11 +572,19 @@ const pricingSchema = new Schema<IPricing>(
       required: [true, "Weight fee is required"],
       min: [0, "Weight fee cannot be negative"],
     },
+    surcharge: {
+      type: Number,
+      min: [0, "Surcharge cannot be negative"],
+    },
     urgencyFee: {
       type: Number,
       required: [true, "Urgency fee is required"],
       min: [0, "Urgency fee cannot be negative"],
     },
+    insurancePremium: {
+      type: Number,
+      min: [0, "Insurance premium cannot be negative"],
+    },
     totalFee: {
       type: Number,
       required: [true, "Total fee is required"],
@@ -223,59 +599,28 @@ const pricingSchema = new Schema<IPricing>(
       trim: true,
       uppercase: true,
     },
-  },
-  { _id: false, versionKey: false }
-);
-
-// Vehicle Info Schema (for delivery personnel)
-const vehicleInfoSchema = new Schema(
-  {
-    type: {
-      type: String,
-      required: [true, "Vehicle type is required"],
-      trim: true,
-    },
-    plateNumber: {
-      type: String,
-      required: [true, "Plate number is required"],
-      trim: true,
-      uppercase: true,
-    },
-  },
-  { _id: false, versionKey: false }
-);
-
-// Delivery Personnel Schema
-const deliveryPersonnelSchema = new Schema<IDeliveryPersonnel>(
-  {
-    name: {
-      type: String,
-      required: [true, "Delivery personnel name is required"],
-      trim: true,
-      minlength: [2, "Name must be at least 2 characters long"],
+    couponId: {
+      type: Schema.Types.ObjectId,
+      ref: "Coupon",
     },
-    email: {
-      type: String,
-      required: [true, "Email is required"],
-      trim: true,
-      lowercase: true,
-      match: [
-        /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/,
-        "Please enter a valid email",
-      ],
+    rateCardVersion: {
+      type: Number,
+      min: [1, "Rate card version must be at least 1"],
     },
-    phone: {
+    taxMode: {
       type: String,
-      required: [true, "Phone is required"],
-      trim: true,
-      match: [/^\+?[\d\s\-()]+$/, "Please enter a valid phone number"],
+      enum: {
+        values: Object.values(TaxMode),
+        message: "Invalid tax mode: {VALUE}",
+      },
     },
-    employeeId: {
-      type: String,
-      trim: true,
+    taxes: {
+      type: [taxLineSchema],
+      default: undefined,
     },
-    vehicleInfo: {
-      type: vehicleInfoSchema,
+    taxTotal: {
+      type: Number,
+      min: [0, "Tax total cannot be negative"],
     },
   },
   { _id: false, versionKey: false }
@@ -300,21 +645,71 @@ const parcelSchema = new Schema<IParcel, ParcelModel>(
       type: receiverSchema,
       required: [true, "Receiver information is required"],
     },
+    pickupInfo: {
+      type: pickupInfoSchema,
+      // Parcels created before pickup addresses whose sender had no address stay without one
+      required: [
+        function (this: IParcel) {
+          return (this as unknown as Document).isNew;
+        },
+        "Pickup information is required",
+      ],
+    },
+    currentHub: {
+      type: Schema.Types.ObjectId,
+      ref: "Hub",
+    },
     parcelDetails: {
       type: parcelDetailsSchema,
       required: [true, "Parcel details are required"],
     },
+    pieces: {
+      type: [parcelPieceSchema],
+      default: [],
+    },
     deliveryInfo: {
       type: deliveryInfoSchema,
       required: [true, "Delivery information is required"],
     },
+    estimatedDeliveryDate: {
+      type: Date,
+    },
+    promisedDeliveryDate: {
+      type: Date,
+    },
     pricing: {
       type: pricingSchema,
       required: [true, "Pricing information is required"],
     },
+    quoteId: {
+      type: String,
+    },
+    cod: {
+      type: cashOnDeliverySchema,
+    },
+    insurance: {
+      type: insuranceSchema,
+    },
+    paymentStatus: {
+      type: String,
+      enum: {
+        values: Object.values(PaymentStatus),
+        message: "Invalid payment status: {VALUE}",
+      },
+      default: PaymentStatus.UNPAID,
+    },
+    invoice: {
+      type: Schema.Types.ObjectId,
+      ref: "Invoice",
+    },
+    workflowVersion: {
+      type: Number,
+      required: [true, "Workflow version is required"],
+      default: 1,
+    },
     currentStatus: {
       type: String,
-      enum: Object.values(ParcelStatus),
+      trim: true,
       default: ParcelStatus.REQUESTED,
       required: [true, "Current status is required"],
     },
@@ -331,7 +726,44 @@ const parcelSchema = new Schema<IParcel, ParcelModel>(
       default: false,
     },
     deliveryPersonnel: {
-      type: deliveryPersonnelSchema,
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    routeOrder: {
+      type: Number,
+      min: [1, "Route order must be at least 1"],
+    },
+    assignmentHistory: {
+      type: [assignmentLogSchema],
+      default: [],
+    },
+    deliveryOtp: {
+      type: deliveryOtpSchema,
+      select: false,
+    },
+    deliveryAttempts: {
+      type: [deliveryAttemptSchema],
+      default: [],
+    },
+    deliveryAttemptCount: {
+      type: Number,
+      default: 0,
+      min: [0, "Delivery attempt count cannot be negative"],
+    },
+    autoReturnedAt: {
+      type: Date,
+    },
+    isReturnShipment: {
+      type: Boolean,
+      default: false,
+    },
+    parentParcel: {
+      type: Schema.Types.ObjectId,
+      ref: "Parcel",
+    },
+    returnParcel: {
+      type: Schema.Types.ObjectId,
+      ref: "Parcel",
     },
   },
   {
@@ -346,6 +778,23 @@ parcelSchema.index({ "receiver.email": 1 });
 parcelSchema.index({ currentStatus: 1 });
 parcelSchema.index({ createdAt: -1 });
 parcelSchema.index({ "deliveryInfo.urgency": 1 });
+// A parcel has one return leg, even when it is returned by parallel updates
+parcelSchema.index(
+  { parentParcel: 1 },
+  { unique: true, partialFilterExpression: { parentParcel: { $exists: true } } }
+);
+// A quote books one parcel, even when it is redeemed by parallel requests
+parcelSchema.index(
+  { quoteId: 1 },
+  { unique: true, partialFilterExpression: { quoteId: { $exists: true } } }
+);
+parcelSchema.index({ "pickupInfo.slot": 1 });
+parcelSchema.index({ currentHub: 1 });
+parcelSchema.index({ deliveryPersonnel: 1, currentStatus: 1 });
+parcelSchema.index({ "pieces.pieceId": 1 });
+parcelSchema.index({ "cod.status": 1, "cod.collectedBy": 1 });
+parcelSchema.index({ sender: 1, "cod.status": 1 });
+parcelSchema.index({ invoice: 1 });
 
 // Pre-save middleware to add initial status log
 parcelSchema.pre("save", function (next) {
@@ -354,7 +803,9 @@ parcelSchema.pre("save", function (next) {
       status: ParcelStatus.REQUESTED,
       timestamp: new Date(),
       updatedBy: this.sender.toString(),
-      note: "Parcel request created",
+      note: this.isReturnShipment
+        ? "Return shipment created"
+        : "Parcel request created",
     });
   }
   next();
@@ -1,22 +1,49 @@
 import { Router } from "express";
+import { csvUpload, multerUpload } from "../../config/multer.config";
 import { checkAuth } from "../../middlewares/checkAuth";
 import { validateRequest } from "../../middlewares/validateRequest";
 import { ParcelController } from "./parcel.controller";
 import {
   assignDeliveryPersonnelValidation,
   blockParcelValidation,
+  bulkAssignDeliveryPersonnelValidation,
+  bulkBlockParcelValidation,
+  bulkCreateParcelValidation,
+  bulkUpdateParcelStatusValidation,
   confirmDeliveryValidation,
   createParcelValidation,
+  createReturnShipmentValidation,
   getParcelQueryValidation,
   parcelIdValidation,
+  proofAttachmentValidation,
+  quoteParcelValidation,
+  reassignDeliveryPersonnelValidation,
+  riderRouteOrderValidation,
+  riderStatusUpdateValidation,
+  schedulePickupValidation,
   trackParcelValidation,
+  unassignDeliveryPersonnelValidation,
   updateParcelStatusValidation,
   updateParcelValidation,
+  updatePieceStatusValidation,
+  verifyDeliveryOtpValidation,
 } from "./parcel.validation";
 
 const router = Router();
 
+// Optional proof-of-delivery images sent as multipart form data
+const proofOfDeliveryUpload = multerUpload.fields([
+  { name: "photo", maxCount: 1 },
+  { name: "signature", maxCount: 1 },
+]);
+
 // Public Routes
+router.post(
+  "/quote",
+  validateRequest(quoteParcelValidation),
+  ParcelController.getQuote
+);
+
 router.get(
   "/track/:trackingId",
   validateRequest(trackParcelValidation),
@@ -31,6 +58,14 @@ router.post(
   ParcelController.createParcel
 );
 
+router.post(
+  "/bulk",
+  checkAuth("sender"),
+  csvUpload.single("file"),
+  validateRequest(bulkCreateParcelValidation),
+  ParcelController.bulkCreateParcels
+);
+
 router.get(
   "/my-sent",
   checkAuth("sender"),
@@ -53,6 +88,15 @@ router.delete(
   ParcelController.cancelParcel
 );
 
+// Sender and Admin Routes
+router.put(
+  "/:id/schedule-pickup",
+  checkAuth("sender", "admin"),
+  validateRequest(parcelIdValidation),
+  validateRequest(schedulePickupValidation),
+  ParcelController.schedulePickup
+);
+
 // Receiver Routes
 router.get(
   "/my-received",
@@ -69,6 +113,23 @@ router.put(
   ParcelController.confirmDelivery
 );
 
+// Delivery verification routes (Receiver or Admin)
+router.put(
+  "/:id/verify-delivery",
+  checkAuth("admin", "receiver"),
+  proofOfDeliveryUpload,
+  validateRequest(parcelIdValidation),
+  validateRequest(verifyDeliveryOtpValidation),
+  ParcelController.verifyDeliveryOtp
+);
+
+router.post(
+  "/:id/delivery-otp/resend",
+  checkAuth("admin", "receiver"),
+  validateRequest(parcelIdValidation),
+  ParcelController.resendDeliveryOtp
+);
+
 router.get(
   "/delivery-history",
   checkAuth("receiver"),
@@ -76,6 +137,30 @@ router.get(
   ParcelController.getDeliveryHistory
 );
 
+// Rider Routes
+router.get(
+  "/my-assigned",
+  checkAuth("rider"),
+  validateRequest(getParcelQueryValidation),
+  ParcelController.getMyAssignedParcels
+);
+
+router.put(
+  "/my-assigned/route-order",
+  checkAuth("rider"),
+  validateRequest(riderRouteOrderValidation),
+  ParcelController.updateMyRouteOrder
+);
+
+router.put(
+  "/:id/rider-status",
+  checkAuth("rider"),
+  proofOfDeliveryUpload,
+  validateRequest(parcelIdValidation),
+  validateRequest(riderStatusUpdateValidation),
+  ParcelController.updateRiderParcelStatus
+);
+
 // Admin Routes
 router.get(
   "/",
@@ -84,14 +169,44 @@ router.get(
   ParcelController.getAllParcels
 );
 
+// Bulk routes must come before :id routes
+router.put(
+  "/bulk/status",
+  checkAuth("admin"),
+  validateRequest(bulkUpdateParcelStatusValidation),
+  ParcelController.bulkUpdateParcelStatus
+);
+
+router.put(
+  "/bulk/block",
+  checkAuth("admin"),
+  validateRequest(bulkBlockParcelValidation),
+  ParcelController.bulkBlockParcels
+);
+
+router.put(
+  "/bulk/assign",
+  checkAuth("admin"),
+  validateRequest(bulkAssignDeliveryPersonnelValidation),
+  ParcelController.bulkAssignDeliveryPersonnel
+);
+
 router.put(
   "/:id/status",
   checkAuth("admin"),
+  proofOfDeliveryUpload,
   validateRequest(parcelIdValidation),
   validateRequest(updateParcelStatusValidation),
   ParcelController.updateParcelStatus
 );
 
+router.put(
+  "/pieces/:pieceId/status",
+  checkAuth("admin"),
+  validateRequest(updatePieceStatusValidation),
+  ParcelController.updatePieceStatus
+);
+
 router.put(
   "/:id/block",
   checkAuth("admin"),
@@ -108,6 +223,30 @@ router.put(
   ParcelController.assignDeliveryPersonnel
 );
 
+router.put(
+  "/:id/reassign",
+  checkAuth("admin"),
+  validateRequest(parcelIdValidation),
+  validateRequest(reassignDeliveryPersonnelValidation),
+  ParcelController.reassignDeliveryPersonnel
+);
+
+router.put(
+  "/:id/unassign",
+  checkAuth("admin"),
+  validateRequest(parcelIdValidation),
+  validateRequest(unassignDeliveryPersonnelValidation),
+  ParcelController.unassignDeliveryPersonnel
+);
+
+router.post(
+  "/:id/return-shipment",
+  checkAuth("admin"),
+  validateRequest(parcelIdValidation),
+  validateRequest(createReturnShipmentValidation),
+  ParcelController.createReturnShipment
+);
+
 router.get("/stats", checkAuth("admin"), ParcelController.getParcelStats);
 
 // Get user notifications (status updates from parcels) - Must come before :id routes
@@ -127,16 +266,23 @@ router.delete(
 // Shared Routes (Role-based access)
 router.get(
   "/:id",
-  checkAuth("admin", "sender", "receiver"),
+  checkAuth("admin", "sender", "receiver", "rider"),
   validateRequest(parcelIdValidation),
   ParcelController.getParcelById
 );
 
 router.get(
   "/:id/status-history",
-  checkAuth("admin", "sender", "receiver"),
+  checkAuth("admin", "sender", "receiver", "rider"),
   validateRequest(parcelIdValidation),
   ParcelController.getParcelStatusHistory
 );
 
+router.get(
+  "/:id/attachments/:attachmentId",
+  checkAuth("admin", "sender", "receiver"),
+  validateRequest(proofAttachmentValidation),
+  ParcelController.getProofAttachment
+);
+
 export const ParcelRoutes = router;
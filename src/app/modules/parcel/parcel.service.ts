@@ -1,93 +1,237 @@
 import { StatusCodes } from "http-status-codes";
 import { Types } from "mongoose";
+import { Readable } from "stream";
+import { envVars } from "../../config/env";
 import AppError from "../../errorHelpers/AppError";
 import {
+  generateDeliveryOtp,
+  hashDeliveryOtp,
+  isDeliveryOtpMatched,
+} from "../../utils/deliveryOtp";
+import {
+  applyReturnFeePolicy,
+  calculateInsurance,
   calculateParcelFee,
+  getTotalWeight,
+  IFeeCalculationInput,
   validateFeeCalculationInput,
 } from "../../utils/feeCalculator";
 import { QueryBuilder } from "../../utils/QueryBuilder";
-import { generateTrackingId } from "../../utils/tracking";
-import { User } from "../user/user.model";
+import { ICsvRecord, parseCsv } from "../../utils/csvParser";
+import {
+  estimateDeliveryDate,
+  getStartOfDay,
+  IBusinessCalendar,
+} from "../../utils/deliveryEstimate";
+import { getStorageAdapter } from "../../utils/fileStorage";
+import { sendNotification } from "../../utils/notifier";
+import { createQuoteToken, verifyQuoteToken } from "../../utils/quoteToken";
+import { generatePieceId, generateTrackingId } from "../../utils/tracking";
+import {
+  HubScanType,
+  IHubScan,
+  IHubScanEvent,
+} from "../hub/hub.interface";
+import { CodService } from "../cod/cod.service";
+import {
+  CouponRedemptionStatus,
+  ICoupon,
+} from "../coupon/coupon.interface";
+import { CouponRedemption } from "../coupon/coupon.model";
+import { CouponService } from "../coupon/coupon.service";
+import { HolidayService } from "../holiday/holiday.service";
+import { InvoiceService } from "../invoice/invoice.service";
+import { PickupSlotService } from "../pickupSlot/pickupSlot.service";
+import { IRateCard } from "../rateCard/rateCard.interface";
+import { RateCardService } from "../rateCard/rateCard.service";
+import { ITaxRule } from "../tax/tax.interface";
+import { TaxService } from "../tax/tax.service";
+import { BillingType, IsActive } from "../user/user.interface";
+import { IUser, User } from "../user/user.model";
+import { WorkflowService } from "../workflow/workflow.service";
+import { IZone, IZoneAddress } from "../zone/zone.interface";
+import { ZoneService } from "../zone/zone.service";
 import {
+  bulkParcelCsvColumns,
+  closedParcelStatuses,
+  MAX_BULK_PARCEL_ROWS,
+  transitBusinessDays,
+} from "./parcel.constant";
+import {
+  AssignmentAction,
+  CodStatus,
+  DeliveryFailureReason,
+  DeliveryVerificationMethod,
+  IBulkParcelImportReport,
+  IBulkParcelOperationReport,
+  IBulkParcelOperationResult,
+  IBulkParcelRowResult,
   ICreateParcel,
-  IDeliveryPersonnel,
+  ICreateParcelPiece,
+  ICreatePickupInfo,
+  ICreateReturnShipment,
+  IDeliveryAttempt,
+  IDeliveryInfo,
+  IDeliveryOtp,
   IParcel,
+  IParcelDetails,
+  IParcelInsurance,
+  IParcelPiece,
+  IParcelQuote,
+  IParcelReceiver,
   IParcelStats,
+  IPickupInfo,
+  IPricing,
+  IProofAttachment,
+  IProofOfDeliveryFiles,
+  IQuoteRequest,
+  IRiderStatusUpdate,
+  ISchedulePickup,
+  IStatusLog,
   IUpdateParcel,
   IUpdateParcelStatus,
+  IUpdatePieceStatus,
+  IVerifyDeliveryOtp,
   ParcelStatus,
+  PaymentStatus,
+  ProofAttachmentKind,
 } from "./parcel.interface";
 import { Parcel } from "./parcel.model";
+import { createParcelValidation } from "./parcel.validation";
 
-// Status transition rules as defined in SRS
-const allowedTransitions: Record<ParcelStatus, ParcelStatus[]> = {
-  [ParcelStatus.REQUESTED]: [ParcelStatus.APPROVED, ParcelStatus.CANCELLED],
-  [ParcelStatus.APPROVED]: [ParcelStatus.PICKED_UP, ParcelStatus.CANCELLED],
-  [ParcelStatus.PICKED_UP]: [ParcelStatus.IN_TRANSIT, ParcelStatus.RETURNED],
-  [ParcelStatus.IN_TRANSIT]: [
-    ParcelStatus.OUT_FOR_DELIVERY,
-    ParcelStatus.FAILED_DELIVERY,
-  ],
-  [ParcelStatus.OUT_FOR_DELIVERY]: [
-    ParcelStatus.DELIVERED,
-    ParcelStatus.FAILED_DELIVERY,
-  ],
-  [ParcelStatus.DELIVERED]: [], // Terminal state
-  [ParcelStatus.CANCELLED]: [], // Terminal state
-  [ParcelStatus.RETURNED]: [ParcelStatus.REQUESTED], // Can be re-requested
-  [ParcelStatus.FAILED_DELIVERY]: [
-    ParcelStatus.OUT_FOR_DELIVERY,
-    ParcelStatus.RETURNED,
-  ],
-};
+// Fields shown for the linked outbound/return leg of a parcel
+const linkedShipmentFields =
+  "trackingId currentStatus statusHistory isReturnShipment estimatedDeliveryDate createdAt updatedAt";
 
-// Create a new parcel (Sender only)
-const createParcel = async (
-  senderId: string,
-  parcelData: ICreateParcel
-): Promise<IParcel> => {
-  // Verify sender exists and has sender role
-  const sender = await User.findById(senderId);
-  if (!sender) {
-    throw new AppError(StatusCodes.NOT_FOUND, "Sender not found");
-  }
+// Fields shown for the hub a parcel is currently at
+const currentHubFields = "code name type address";
 
-  if (sender.role !== "sender") {
-    throw new AppError(
-      StatusCodes.FORBIDDEN,
-      "Only users with sender role can create parcels"
-    );
-  }
+// Fields shown for the rider a parcel is assigned to
+const riderFields = "name email phone riderProfile";
 
-  if (sender.isBlocked) {
-    throw new AppError(StatusCodes.FORBIDDEN, "Your account is blocked");
+// Recorded as the actor of changes made by the system rather than a user
+const SYSTEM_USER_ID = "000000000000000000000000";
+
+// Statuses that accept proof-of-delivery attachments
+const proofOfDeliveryStatuses: string[] = [
+  ParcelStatus.DELIVERED,
+  ParcelStatus.FAILED_DELIVERY,
+];
+
+// Store proof-of-delivery images through the storage adapter
+const storeProofAttachments = async (
+  parcelId: string,
+  status: string,
+  files: IProofOfDeliveryFiles | undefined,
+  uploadedBy: string
+): Promise<IProofAttachment[] | undefined> => {
+  const uploads = Object.values(ProofAttachmentKind).flatMap((kind) => {
+    const file = files?.[kind];
+    return file ? [{ kind, file }] : [];
+  });
+
+  if (!uploads.length) {
+    return undefined;
   }
 
-  // Validate fee calculation input
-  const feeValidation = validateFeeCalculationInput(
-    parcelData.parcelDetails,
-    parcelData.deliveryInfo
-  );
-  if (!feeValidation.isValid) {
+  if (!proofOfDeliveryStatuses.includes(status)) {
     throw new AppError(
       StatusCodes.BAD_REQUEST,
-      feeValidation.errors.join(", ")
+      "Proof of delivery can only be attached when a parcel is delivered or fails delivery"
     );
   }
 
-  // Calculate pricing
-  const pricing = calculateParcelFee({
-    parcelDetails: parcelData.parcelDetails,
-    deliveryInfo: parcelData.deliveryInfo,
-  });
+  const storage = getStorageAdapter();
+
+  return Promise.all(
+    uploads.map(async ({ kind, file }) => {
+      const storedFile = await storage.save(file, `parcels/${parcelId}`);
+
+      return {
+        kind,
+        storageKey: storedFile.key,
+        fileName: file.originalName,
+        mimeType: file.mimeType,
+        size: storedFile.size,
+        uploadedBy,
+        uploadedAt: new Date(),
+      };
+    })
+  );
+};
 
-  // Generate unique tracking ID
+// Cash handed over at the door is held by the delivering rider (or the admin without one)
+const getCodCollector = (
+  parcel: IParcel,
+  actorId: string
+): Types.ObjectId | undefined =>
+  parcel.cod?.status === CodStatus.PENDING
+    ? new Types.ObjectId(parcel.deliveryPersonnel?.toString() ?? actorId)
+    : undefined;
+
+// Parcel fields recording the cash-on-delivery collection
+const getCodCollectionFields = (collectorId?: Types.ObjectId) =>
+  collectorId && {
+    "cod.status": CodStatus.COLLECTED,
+    "cod.collectedBy": collectorId,
+    "cod.collectedAt": new Date(),
+  };
+
+// Create a new proof-of-delivery code for a parcel
+const createDeliveryOtp = (
+  parcelId: string
+): { otp: string; record: IDeliveryOtp } => {
+  const otp = generateDeliveryOtp();
+  const now = new Date();
+  const expiresInMinutes = Number(envVars.DELIVERY_OTP.EXPIRES_IN_MINUTES);
+
+  return {
+    otp,
+    record: {
+      codeHash: hashDeliveryOtp(parcelId, otp),
+      expiresAt: new Date(now.getTime() + expiresInMinutes * 60 * 1000),
+      attempts: 0,
+      maxAttempts: Number(envVars.DELIVERY_OTP.MAX_ATTEMPTS),
+      generatedAt: now,
+    },
+  };
+};
+
+// Send the proof-of-delivery code to the receiver
+const notifyDeliveryOtp = async (
+  parcel: IParcel,
+  otp: string
+): Promise<void> => {
+  try {
+    await sendNotification({
+      to: {
+        name: parcel.receiver.name,
+        email: parcel.receiver.email,
+        phone: parcel.receiver.phone,
+      },
+      subject: `Delivery code for parcel ${parcel.trackingId}`,
+      message: `Your parcel ${parcel.trackingId} is out for delivery. Share code ${otp} with the delivery person to receive it. The code expires in ${envVars.DELIVERY_OTP.EXPIRES_IN_MINUTES} minutes.`,
+      secrets: [otp],
+    });
+  } catch (error) {
+    // The status change is already saved, the code can be resent
+    // eslint-disable-next-line no-console
+    console.log("Failed to send delivery code", error);
+  }
+};
+
+// Generate a tracking ID that is not used by any parcel (or reserved in a batch) yet
+const generateUniqueTrackingId = async (
+  reservedTrackingIds?: Set<string>
+): Promise<string> => {
   let trackingId = generateTrackingId();
   let isUnique = false;
   let attempts = 0;
 
   while (!isUnique && attempts < 10) {
-    const existingParcel = await Parcel.findOne({ trackingId });
+    const existingParcel =
+      reservedTrackingIds?.has(trackingId) ||
+      (await Parcel.exists({ trackingId }));
     if (!existingParcel) {
       isUnique = true;
     } else {
@@ -103,302 +247,2999 @@ const createParcel = async (
     );
   }
 
-  // Create parcel
-  const newParcel = await Parcel.create({
-    trackingId,
-    sender: senderId,
-    receiver: parcelData.receiver,
-    parcelDetails: parcelData.parcelDetails,
-    deliveryInfo: parcelData.deliveryInfo,
-    pricing,
-    currentStatus: ParcelStatus.REQUESTED,
-  });
+  return trackingId;
+};
 
-  return (await Parcel.findById(newParcel._id).populate(
-    "sender",
-    "name email phone"
-  )) as IParcel;
+// Give each piece of a multi-piece shipment its sub-ID under the master tracking ID
+const buildParcelPieces = (
+  trackingId: string,
+  pieces: ICreateParcelPiece[] | undefined
+): IParcelPiece[] => {
+  return (pieces ?? []).map((piece, index) => ({
+    pieceId: generatePieceId(trackingId, index),
+    weight: piece.weight,
+    dimensions: piece.dimensions,
+    description: piece.description,
+    currentStatus: ParcelStatus.REQUESTED,
+  }));
 };
 
-// Get parcel by ID (Owner or Admin only)
-const getParcelById = async (
-  parcelId: string,
-  userId: string,
-  userRole: string
-): Promise<IParcel> => {
-  const parcel = await Parcel.findById(parcelId).populate(
-    "sender",
-    "name email phone"
-  );
-  if (!parcel) {
-    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
-  }
+// Derive the master status of a multi-piece shipment from its piece statuses
+const deriveMasterStatus = (
+  statusOrder: string[],
+  pieceStatuses: string[]
+): string => {
+  const distinctStatuses = [...new Set(pieceStatuses)];
 
-  // Check access permissions
-  const isSender = parcel.sender.toString() === userId;
-  const isReceiver =
-    parcel.receiver.email === (await User.findById(userId))?.email;
-  const isAdmin = userRole === "admin";
+  if (distinctStatuses.length === 1) {
+    return distinctStatuses[0];
+  }
 
-  if (!isSender && !isReceiver && !isAdmin) {
-    throw new AppError(
-      StatusCodes.FORBIDDEN,
-      "You do not have permission to view this parcel"
-    );
+  if (pieceStatuses.includes(ParcelStatus.DELIVERED)) {
+    return ParcelStatus.PARTIALLY_DELIVERED;
   }
 
-  return parcel;
+  // Otherwise the shipment is as far as its least progressed piece
+  return pieceStatuses.reduce((least, status) =>
+    statusOrder.indexOf(status) < statusOrder.indexOf(least) ? status : least
+  );
 };
 
-// Track parcel by tracking ID (Public)
-const trackParcelByTrackingId = async (
-  trackingId: string
-): Promise<IParcel> => {
-  const parcel = await Parcel.findOne({ trackingId }).populate(
-    "sender",
-    "name email phone"
-  );
-  if (!parcel) {
-    throw new AppError(
-      StatusCodes.NOT_FOUND,
-      "Parcel not found with this tracking ID"
-    );
+// Moving a multi-piece shipment as a whole moves every piece with it
+const cascadePieceStatus = (
+  parcel: IParcel,
+  status: string
+): Record<string, unknown> => {
+  if (!parcel.pieces?.length) {
+    return {};
   }
 
-  return parcel;
+  return {
+    "pieces.$[].currentStatus": status,
+    "pieces.$[].lastScannedAt": new Date(),
+  };
 };
 
-// Get all parcels with filters (Admin only)
-const getAllParcels = async (
-  query: Record<string, string>
-): Promise<{
-  parcels: IParcel[];
-  meta: { page: number; limit: number; totalPage: number; total: number };
-}> => {
-  const searchableFields = [
-    "trackingId",
-    "receiver.name",
-    "receiver.email",
-    "parcelDetails.description",
-  ];
+// Booked pickup slot given back when a scheduled parcel is unscheduled or cancelled
+const getReleasedPickupSlot = (
+  parcel: IParcel,
+  newStatus: string
+): string | undefined => {
+  const isReleased =
+    parcel.currentStatus === ParcelStatus.PICKUP_SCHEDULED &&
+    ([ParcelStatus.APPROVED, ParcelStatus.CANCELLED] as string[]).includes(
+      newStatus
+    );
 
-  const parcelQuery = new QueryBuilder(
-    Parcel.find().populate("sender", "name email phone"),
-    query
-  )
-    .search(searchableFields)
-    .filter()
-    .sort()
-    .paginate()
-    .fields();
+  return isReleased ? parcel.pickupInfo?.slot?.toString() : undefined;
+};
 
-  const parcels = (await parcelQuery.build()) as IParcel[];
-  const meta = await parcelQuery.getMeta();
+// Build the receiver of a return shipment from the original sender's profile
+const getReturnReceiver = async (
+  senderId: string
+): Promise<IParcelReceiver | undefined> => {
+  const sender = await User.findById(senderId);
 
-  return { parcels, meta };
+  if (!sender?.address || !sender.phone) {
+    return undefined;
+  }
+
+  return {
+    name: sender.name,
+    email: sender.email,
+    phone: sender.phone,
+    address: sender.address,
+  };
 };
 
-// Get sender's parcels
-const getSenderParcels = async (
-  senderId: string,
-  query: Record<string, string>
-): Promise<{
-  parcels: IParcel[];
-  meta: { page: number; limit: number; totalPage: number; total: number };
-}> => {
-  const searchableFields = [
-    "trackingId",
-    "receiver.name",
-    "receiver.email",
-    "parcelDetails.description",
-  ];
+// Create the return leg of a RETURNED parcel as its own linked parcel
+const createReturnShipment = async (
+  parcel: IParcel,
+  receiver: IParcelReceiver,
+  actorId: string
+): Promise<IParcel> => {
+  const deliveryInfo = {
+    urgency: "standard" as const,
+    deliveryInstructions: `Return of parcel ${parcel.trackingId}`,
+  };
 
-  const parcelQuery = new QueryBuilder(
-    Parcel.find({ sender: senderId }).populate("sender", "name email phone"),
-    query
-  )
-    .search(searchableFields)
-    .filter()
-    .sort()
-    .paginate()
-    .fields();
+  // The return leg is collected where the outbound leg was delivered to
+  const pickupInfo = {
+    address: parcel.receiver.address,
+    contactName: parcel.receiver.name,
+    contactPhone: parcel.receiver.phone,
+  };
 
-  const parcels = (await parcelQuery.build()) as IParcel[];
-  const meta = await parcelQuery.getMeta();
+  const rateCard = await RateCardService.getActiveRateCard();
+  const zones = await ZoneService.getActiveZones();
+  const taxRules = await TaxService.getActiveTaxRules();
+  const pricing = applyReturnFeePolicy(
+    calculateParcelFee(
+      {
+        parcelDetails: parcel.parcelDetails,
+        deliveryInfo,
+        pieces: parcel.pieces,
+        ...getRouteZones(pickupInfo.address, receiver.address, zones),
+        taxRules: TaxService.matchTaxRules(taxRules, pickupInfo.address),
+      },
+      rateCard
+    ),
+    envVars.RETURN_FEE.POLICY,
+    Number(envVars.RETURN_FEE.PERCENTAGE)
+  );
 
-  return { parcels, meta };
-};
+  const workflow = await WorkflowService.getActiveWorkflow();
+  const trackingId = await generateUniqueTrackingId();
+  const estimatedDeliveryDate = await calculateEstimatedDelivery(
+    { receiver, pickupInfo, deliveryInfo },
+    ParcelStatus.REQUESTED,
+    { zones }
+  );
 
-// Get receiver's parcels
-const getReceiverParcels = async (
-  receiverEmail: string,
-  query: Record<string, string>
-): Promise<{
-  parcels: IParcel[];
-  meta: { page: number; limit: number; totalPage: number; total: number };
-}> => {
-  const searchableFields = ["trackingId", "parcelDetails.description"];
+  let returnParcel: IParcel;
+  try {
+    returnParcel = await Parcel.create({
+      trackingId,
+      sender: parcel.sender,
+      receiver,
+      pickupInfo,
+      parcelDetails: parcel.parcelDetails,
+      pieces: buildParcelPieces(trackingId, parcel.pieces),
+      deliveryInfo,
+      estimatedDeliveryDate,
+      promisedDeliveryDate: estimatedDeliveryDate,
+      pricing,
+      // Free return legs have nothing to pay
+      ...(pricing.totalFee === 0 && { paymentStatus: PaymentStatus.PAID }),
+      workflowVersion: workflow.version,
+      currentStatus: ParcelStatus.REQUESTED,
+      isReturnShipment: true,
+      parentParcel: parcel._id,
+    });
+  } catch (error) {
+    // Another update returned the parcel at the same time and created its return leg
+    const { code, keyPattern } = error as {
+      code?: number;
+      keyPattern?: Record<string, unknown>;
+    };
+    if (code === 11000 && keyPattern?.parentParcel) {
+      throw new AppError(
+        StatusCodes.CONFLICT,
+        "Parcel already has a return shipment"
+      );
+    }
+    throw error;
+  }
 
-  const parcelQuery = new QueryBuilder(
-    Parcel.find({ "receiver.email": receiverEmail }).populate(
-      "sender",
-      "name email phone"
-    ),
-    query
-  )
-    .search(searchableFields)
-    .filter()
-    .sort()
-    .paginate()
-    .fields();
+  if (pricing.totalFee > 0) {
+    await InvoiceService.issueInvoice(
+      parcel.sender.toString(),
+      [returnParcel],
+      actorId
+    );
+  }
 
-  const parcels = (await parcelQuery.build()) as IParcel[];
-  const meta = await parcelQuery.getMeta();
+  await Parcel.findByIdAndUpdate(parcel._id, {
+    returnParcel: returnParcel._id,
+    updatedAt: new Date(),
+  });
 
-  return { parcels, meta };
+  return returnParcel;
 };
 
-// Update parcel details (Sender only, before dispatch)
-const updateParcel = async (
+// Open the return leg when a parcel reaches RETURNED
+const handleReturnedParcel = async (
   parcelId: string,
-  senderId: string,
-  updateData: IUpdateParcel
-): Promise<IParcel> => {
+  actorId: string
+): Promise<void> => {
   const parcel = await Parcel.findById(parcelId);
 
-  if (!parcel) {
-    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  if (!parcel || parcel.isReturnShipment || parcel.returnParcel) {
+    return;
   }
 
-  // Check if user is the sender
-  if (parcel.sender.toString() !== senderId) {
-    throw new AppError(
-      StatusCodes.FORBIDDEN,
-      "You can only update your own parcels"
-    );
+  const receiver = await getReturnReceiver(parcel.sender.toString());
+
+  if (!receiver) {
+    // Admin can create the return shipment with an explicit address later
+    await Parcel.findByIdAndUpdate(parcelId, {
+      $push: {
+        statusHistory: {
+          status: parcel.currentStatus,
+          timestamp: new Date(),
+          updatedBy: new Types.ObjectId(actorId),
+          note: "Return shipment pending: sender has no saved address and phone",
+        },
+      },
+    });
+    return;
   }
 
-  // Check if parcel can be updated (only before dispatch)
-  if (
-    ![ParcelStatus.REQUESTED, ParcelStatus.APPROVED].includes(
-      parcel.currentStatus
-    )
-  ) {
+  try {
+    await createReturnShipment(parcel, receiver, actorId);
+  } catch (error) {
+    // The return leg was created by the update that won
+    if (
+      error instanceof AppError &&
+      error.statusCode === StatusCodes.CONFLICT
+    ) {
+      return;
+    }
+    throw error;
+  }
+};
+
+// Prepaid senders pay a parcel's invoice before it can be approved
+const assertPaidForApproval = async (parcel: IParcel): Promise<void> => {
+  if (parcel.paymentStatus === PaymentStatus.PAID) {
+    return;
+  }
+
+  const sender = await User.findById(parcel.sender).select("billingType");
+
+  if (sender?.billingType === BillingType.PREPAID) {
     throw new AppError(
-      StatusCodes.BAD_REQUEST,
-      "Cannot update parcel after it has been dispatched"
+      StatusCodes.PAYMENT_REQUIRED,
+      "Parcels of prepaid senders can only be approved once their invoice is paid"
     );
   }
+};
 
-  if (parcel.isBlocked) {
-    throw new AppError(StatusCodes.BAD_REQUEST, "Cannot update blocked parcel");
+// Load the sender of a new parcel, rejecting non-senders and blocked accounts
+const getActiveSender = async (senderId: string) => {
+  const sender = await User.findById(senderId);
+  if (!sender) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Sender not found");
   }
 
-  if (parcel.isCancelled) {
+  if (sender.role !== "sender") {
     throw new AppError(
-      StatusCodes.BAD_REQUEST,
-      "Cannot update cancelled parcel"
+      StatusCodes.FORBIDDEN,
+      "Only users with sender role can create parcels"
     );
   }
 
-  // Recalculate pricing only if fields that affect pricing changed
-  let newPricing = parcel.pricing;
-  const needsPricingRecalculation =
-    updateData.parcelDetails ||
-    (updateData.deliveryInfo && updateData.deliveryInfo.urgency);
+  if (sender.isBlocked) {
+    throw new AppError(StatusCodes.FORBIDDEN, "Your account is blocked");
+  }
 
-  if (needsPricingRecalculation) {
-    const updatedParcelDetails = parcel.parcelDetails;
-    const updatedDeliveryInfo = {
-      ...parcel.deliveryInfo,
-      ...(updateData.deliveryInfo || {}),
-    };
+  return sender;
+};
 
-    const feeValidation = validateFeeCalculationInput(
-      updatedParcelDetails,
-      updatedDeliveryInfo
+// Zone codes of a route, which pick the base fee from the rate card
+const getRouteZones = (
+  origin: IZoneAddress,
+  destination: IZoneAddress,
+  zones: IZone[]
+): Pick<IFeeCalculationInput, "originZone" | "destinationZone"> => ({
+  originZone: ZoneService.matchZone(zones, origin)?.code,
+  destinationZone: ZoneService.matchZone(zones, destination)?.code,
+});
+
+// Price a parcel, taking off the discount of the coupon applied to it
+const priceWithCoupon = async (
+  feeInput: IFeeCalculationInput,
+  rateCard: IRateCard,
+  couponCode?: string, // A new coupon, checked against its sender's limits
+  senderId?: string,
+  redeemedCouponId?: ICoupon["_id"] // The coupon already redeemed on the parcel
+): Promise<{ pricing: IPricing; coupon?: ICoupon }> => {
+  // Coupons are checked and applied against the fee before tax
+  const pricing = calculateParcelFee(
+    {
+      ...feeInput,
+      taxRules: undefined,
+      discount: undefined,
+      couponCode: undefined,
+    },
+    rateCard
+  );
+
+  const order = {
+    subtotal: pricing.totalFee,
+    urgency: feeInput.deliveryInfo.urgency,
+    parcelType: feeInput.parcelDetails.type,
+  };
+  let coupon: ICoupon;
+  if (redeemedCouponId) {
+    coupon = await CouponService.getRedeemedCoupon(redeemedCouponId, order);
+  } else if (couponCode && senderId) {
+    coupon = await CouponService.getRedeemableCoupon(
+      couponCode,
+      senderId,
+      order
     );
-    if (!feeValidation.isValid) {
+  } else {
+    return { pricing };
+  }
+
+  return {
+    pricing: {
+      ...calculateParcelFee(
+        {
+          ...feeInput,
+          discount: CouponService.calculateDiscount(coupon, pricing.totalFee),
+          couponCode: coupon.code,
+        },
+        rateCard
+      ),
+      couponId: coupon._id,
+    },
+    coupon,
+  };
+};
+
+// Insure the declared value of a parcel at the rate card's rate for its type
+const getParcelInsurance = (
+  parcelDetails: IParcelDetails,
+  rateCard: IRateCard,
+  insured?: boolean
+): IParcelInsurance | undefined => {
+  if (!insured) {
+    return undefined;
+  }
+
+  if (!parcelDetails.value) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "A declared value (parcelDetails.value) is required to insure a parcel"
+    );
+  }
+
+  const rate = rateCard.insuranceRates.find(
+    (insuranceRate) => insuranceRate.parcelType === parcelDetails.type
+  );
+  if (!rate) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Insurance is not available for ${parcelDetails.type} parcels`
+    );
+  }
+
+  return calculateInsurance(parcelDetails.value, rate);
+};
+
+// Rate card locked by the quote a parcel is created from, if the parcel matches the quote
+const getQuotedRateCard = async (
+  quoteToken: string,
+  parcelData: ICreateParcel,
+  routeZones: Pick<IFeeCalculationInput, "originZone" | "destinationZone">
+): Promise<{ rateCard: IRateCard; quoteId: string }> => {
+  const quote = verifyQuoteToken(quoteToken);
+  const { parcelDetails, deliveryInfo } = parcelData;
+  const quotedSize = quote.dimensions;
+  const size = parcelDetails.dimensions;
+
+  // Quotes are priced for a single parcel, so pieces cannot be added later
+  const isMatch =
+    !parcelData.pieces?.length &&
+    quote.type === parcelDetails.type &&
+    quote.weight === parcelDetails.weight &&
+    quote.urgency === deliveryInfo.urgency &&
+    quote.originZone === routeZones.originZone &&
+    quote.destinationZone === routeZones.destinationZone &&
+    quotedSize?.length === size?.length &&
+    quotedSize?.width === size?.width &&
+    quotedSize?.height === size?.height;
+
+  if (!isMatch) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Parcel does not match the quote, request a new quote"
+    );
+  }
+
+  // A quote already booked is rejected early, the unique index settles races
+  if (await Parcel.exists({ quoteId: quote.quoteId })) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Quote has already been used, request a new quote"
+    );
+  }
+
+  return {
+    rateCard: await RateCardService.getRateCardByVersion(quote.rateCardVersion),
+    quoteId: quote.quoteId,
+  };
+};
+
+// Weigh and price a new parcel request
+const priceParcelRequest = async (
+  parcelData: ICreateParcel,
+  senderId: string,
+  pickupInfo: IPickupInfo,
+  context: { rateCard: IRateCard; zones: IZone[]; taxRules: ITaxRule[] }
+): Promise<{
+  parcelDetails: IParcelDetails;
+  pricing: IPricing;
+  insurance?: IParcelInsurance;
+  coupon?: ICoupon;
+  quoteId?: string;
+}> => {
+  // Validate fee calculation input
+  const feeValidation = validateFeeCalculationInput(
+    parcelData.parcelDetails,
+    parcelData.deliveryInfo,
+    parcelData.pieces
+  );
+  if (!feeValidation.isValid) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      feeValidation.errors.join(", ")
+    );
+  }
+
+  // Multi-piece shipments are weighed and priced across all pieces
+  const parcelDetails = {
+    ...parcelData.parcelDetails,
+    weight: getTotalWeight(parcelData.parcelDetails, parcelData.pieces),
+  };
+
+  const routeZones = getRouteZones(
+    pickupInfo.address,
+    parcelData.receiver.address,
+    context.zones
+  );
+
+  // A quote locks the rate card it was priced with
+  const quote = parcelData.quoteToken
+    ? await getQuotedRateCard(parcelData.quoteToken, parcelData, routeZones)
+    : undefined;
+  const rateCard = quote?.rateCard ?? context.rateCard;
+
+  const insurance = getParcelInsurance(
+    parcelDetails,
+    rateCard,
+    parcelData.insured
+  );
+
+  // Calculate pricing
+  const { pricing, coupon } = await priceWithCoupon(
+    {
+      parcelDetails,
+      deliveryInfo: parcelData.deliveryInfo,
+      pieces: parcelData.pieces,
+      ...routeZones,
+      insurancePremium: insurance?.premium,
+      taxRules: TaxService.matchTaxRules(context.taxRules, pickupInfo.address),
+    },
+    rateCard,
+    parcelData.couponCode,
+    senderId
+  );
+
+  return { parcelDetails, pricing, insurance, coupon, quoteId: quote?.quoteId };
+};
+
+// Throw for legacy parcels whose pickup address could not be filled in from the sender
+const assertPickupAddress = (parcel: IParcel): void => {
+  if (!parcel.pickupInfo) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Parcel has no pickup address, it was created before pickup addresses were recorded"
+    );
+  }
+};
+
+// Resolve the pickup details of a new parcel, defaulting to the sender's profile
+const buildPickupInfo = (
+  sender: Pick<IUser, "name" | "phone" | "address">,
+  pickupInfo?: ICreatePickupInfo
+): IPickupInfo => {
+  const address = pickupInfo?.address ?? sender.address;
+
+  if (!address) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Pickup address is required, provide one or save an address in your profile"
+    );
+  }
+
+  return {
+    address,
+    contactName: pickupInfo?.contactName ?? sender.name,
+    contactPhone: pickupInfo?.contactPhone ?? sender.phone,
+    window: pickupInfo?.window,
+  };
+};
+
+// Reject delivery or pickup addresses outside the active service zones
+const assertServiceableAddresses = async (
+  addresses: Record<string, IZoneAddress | undefined>,
+  zones?: IZone[]
+): Promise<void> => {
+  const activeZones = zones ?? (await ZoneService.getActiveZones());
+
+  // Coverage is only enforced once at least one zone is configured
+  if (!activeZones.length) {
+    return;
+  }
+
+  Object.entries(addresses).forEach(([label, address]) => {
+    if (address && !ZoneService.matchZone(activeZones, address)) {
       throw new AppError(
         StatusCodes.BAD_REQUEST,
-        feeValidation.errors.join(", ")
+        `${label} (${address.city}, ${address.zipCode}, ${address.country}) is outside our service area`
       );
     }
+  });
+};
+
+// Apply a partial address update on top of the stored address
+const mergeAddressUpdate = (
+  current: IParcelReceiver["address"],
+  update?: Partial<IParcelReceiver["address"]>
+): IZoneAddress | undefined =>
+  update && {
+    country: update.country ?? current.country,
+    state: update.state ?? current.state,
+    city: update.city ?? current.city,
+    zipCode: update.zipCode ?? current.zipCode,
+  };
+
+// Estimate the delivery day of a parcel entering a status, undefined keeps the last estimate
+const calculateEstimatedDelivery = async (
+  parcel: {
+    receiver: { address: IZoneAddress };
+    pickupInfo?: { address: IZoneAddress; window?: IPickupInfo["window"] };
+    deliveryInfo: Pick<IDeliveryInfo, "urgency">;
+    statusHistory?: IStatusLog[];
+  },
+  status: string,
+  context: { zones?: IZone[]; calendar?: IBusinessCalendar } = {}
+): Promise<Date | undefined> => {
+  // Legacy parcels whose pickup address could not be filled in keep their estimate
+  if (!parcel.pickupInfo) {
+    return undefined;
+  }
+
+  const now = new Date();
+  const origin = parcel.pickupInfo.address;
+  const destination = parcel.receiver.address;
+  const zones = context.zones ?? (await ZoneService.getActiveZones());
+  const originZone = ZoneService.matchZone(zones, origin);
+  const destinationZone = ZoneService.matchZone(zones, destination);
+
+  // Outside configured zones, deliveries within the same city count as local
+  const isSameZone =
+    originZone || destinationZone
+      ? originZone?._id.toString() === destinationZone?._id.toString()
+      : `${origin.city}|${origin.country}`.toLowerCase() ===
+        `${destination.city}|${destination.country}`.toLowerCase();
+
+  const transitDays =
+    transitBusinessDays[parcel.deliveryInfo.urgency][
+      isSameZone ? "sameZone" : "crossZone"
+    ];
+  const cutoffTime =
+    originZone?.pickupCutoffTime ??
+    envVars.DELIVERY_ESTIMATE.PICKUP_CUTOFF_TIME;
+
+  let start = now;
+  let businessDays: number;
+  let applyCutoff = true;
+
+  switch (status) {
+    case ParcelStatus.REQUESTED:
+    case ParcelStatus.APPROVED:
+    case ParcelStatus.PICKUP_SCHEDULED: {
+      // Counted from the requested or booked pickup window when it is ahead
+      const pickupStart = parcel.pickupInfo.window?.start;
+      start = pickupStart && pickupStart > now ? new Date(pickupStart) : now;
+      businessDays = transitDays;
+      break;
+    }
+    case ParcelStatus.PICKED_UP:
+    case ParcelStatus.IN_TRANSIT: {
+      // Counted from the pickup so in-network moves keep the promised day
+      const pickupLog = [...(parcel.statusHistory ?? [])]
+        .reverse()
+        .find((log) => log.status === ParcelStatus.PICKED_UP);
+      start = pickupLog ? new Date(pickupLog.timestamp) : now;
+      businessDays = transitDays;
+      break;
+    }
+    case ParcelStatus.OUT_FOR_DELIVERY:
+    case ParcelStatus.PARTIALLY_DELIVERED:
+      return getStartOfDay(now);
+    case ParcelStatus.FAILED_DELIVERY:
+      // The next attempt is made on the following business day
+      businessDays = 1;
+      applyCutoff = false;
+      break;
+    default:
+      // Closed and custom workflow statuses keep the last estimate
+      return undefined;
+  }
+
+  const calendar =
+    context.calendar && start >= now
+      ? context.calendar
+      : await HolidayService.getBusinessCalendar(start);
+
+  const estimate = estimateDeliveryDate(
+    start,
+    businessDays,
+    calendar,
+    applyCutoff ? cutoffTime : undefined
+  );
+
+  // Late parcels are expected on the next business day rather than in the past
+  const earliest = estimateDeliveryDate(now, 0, calendar);
+  return estimate > earliest ? estimate : earliest;
+};
+
+// Map a bulk import CSV record onto the create-parcel payload
+const csvRecordToParcelPayload = (
+  values: Record<string, string>
+): Record<string, unknown> => {
+  const payload: Record<string, unknown> = {};
+
+  Object.entries(bulkParcelCsvColumns).forEach(([column, { path, isNumber, isBoolean }]) => {
+    const value = values[column];
+    if (value === undefined || value === "") {
+      return;
+    }
 
-    newPricing = calculateParcelFee({
-      parcelDetails: updatedParcelDetails,
-      deliveryInfo: updatedDeliveryInfo,
-      discount: parcel.pricing.discount,
-      couponCode: parcel.pricing.couponCode,
+    const keys = path.split(".");
+    let target = payload;
+    keys.slice(0, -1).forEach((key) => {
+      target[key] = target[key] ?? {};
+      target = target[key] as Record<string, unknown>;
     });
+
+    // Non-numeric and non-boolean values are kept as text so validation reports them
+    const field = keys[keys.length - 1];
+    const flag = value.trim().toLowerCase();
+    if (isNumber && !Number.isNaN(Number(value))) {
+      target[field] = Number(value);
+    } else if (isBoolean && (flag === "true" || flag === "false")) {
+      target[field] = flag === "true";
+    } else {
+      target[field] = value;
+    }
+  });
+
+  return payload;
+};
+
+// Price a shipment and estimate its delivery before it is booked (Public)
+const getQuote = async (quoteData: IQuoteRequest): Promise<IParcelQuote> => {
+  const { parcelDetails, deliveryInfo, origin, destination } = quoteData;
+
+  const feeValidation = validateFeeCalculationInput(
+    parcelDetails,
+    deliveryInfo
+  );
+  if (!feeValidation.isValid) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      feeValidation.errors.join(", ")
+    );
   }
 
-  // Helper function to flatten nested objects for MongoDB updates
-  const flattenObject = (
-    obj: Record<string, unknown>,
-    prefix = ""
-  ): Record<string, unknown> => {
-    const flattened: Record<string, unknown> = {};
-    for (const key in obj) {
-      if (
-        obj[key] !== null &&
-        typeof obj[key] === "object" &&
-        !Array.isArray(obj[key])
-      ) {
-        Object.assign(
-          flattened,
-          flattenObject(obj[key] as Record<string, unknown>, `${prefix}${key}.`)
+  const zones = await ZoneService.getActiveZones();
+  await assertServiceableAddresses(
+    { "Delivery address": destination, "Pickup address": origin },
+    zones
+  );
+
+  const rateCard = await RateCardService.getActiveRateCard();
+  const taxRules = await TaxService.getActiveTaxRules();
+  const routeZones = getRouteZones(origin, destination, zones);
+  const pricing = calculateParcelFee(
+    {
+      parcelDetails,
+      deliveryInfo,
+      ...routeZones,
+      taxRules: TaxService.matchTaxRules(taxRules, origin),
+    },
+    rateCard
+  );
+
+  const estimatedDeliveryDate = await calculateEstimatedDelivery(
+    {
+      receiver: { address: destination },
+      pickupInfo: { address: origin },
+      deliveryInfo,
+    },
+    ParcelStatus.REQUESTED,
+    { zones }
+  );
+
+  const { quoteToken, expiresAt } = createQuoteToken({
+    type: parcelDetails.type,
+    weight: parcelDetails.weight,
+    dimensions: parcelDetails.dimensions,
+    urgency: deliveryInfo.urgency,
+    ...routeZones,
+    rateCardVersion: rateCard.version,
+  });
+
+  return { pricing, estimatedDeliveryDate, quoteToken, expiresAt };
+};
+
+// Create a new parcel (Sender only)
+const createParcel = async (
+  senderId: string,
+  parcelData: ICreateParcel
+): Promise<IParcel> => {
+  // Verify sender exists and has sender role
+  const sender = await getActiveSender(senderId);
+  const pickupInfo = buildPickupInfo(sender, parcelData.pickupInfo);
+
+  const zones = await ZoneService.getActiveZones();
+  await assertServiceableAddresses(
+    {
+      "Delivery address": parcelData.receiver.address,
+      "Pickup address": pickupInfo.address,
+    },
+    zones
+  );
+
+  // New parcels are priced with the currently active rate card
+  const rateCard = await RateCardService.getActiveRateCard();
+  const taxRules = await TaxService.getActiveTaxRules();
+  const { parcelDetails, pricing, insurance, coupon, quoteId } =
+    await priceParcelRequest(parcelData, senderId, pickupInfo, {
+      rateCard,
+      zones,
+      taxRules,
+    });
+
+  const estimatedDeliveryDate = await calculateEstimatedDelivery(
+    {
+      receiver: parcelData.receiver,
+      pickupInfo,
+      deliveryInfo: parcelData.deliveryInfo,
+    },
+    ParcelStatus.REQUESTED,
+    { zones }
+  );
+
+  // New parcels follow the currently active workflow version
+  const workflow = await WorkflowService.getActiveWorkflow();
+
+  // Generate unique tracking ID
+  const trackingId = await generateUniqueTrackingId();
+
+  // Create parcel
+  let newParcel: IParcel;
+  try {
+    newParcel = await Parcel.create({
+      trackingId,
+      sender: senderId,
+      receiver: parcelData.receiver,
+      pickupInfo,
+      parcelDetails,
+      pieces: buildParcelPieces(trackingId, parcelData.pieces),
+      deliveryInfo: parcelData.deliveryInfo,
+      estimatedDeliveryDate,
+      promisedDeliveryDate: estimatedDeliveryDate,
+      pricing,
+      quoteId,
+      ...(parcelData.codAmount && {
+        cod: { amount: parcelData.codAmount, status: CodStatus.PENDING },
+      }),
+      insurance,
+      workflowVersion: workflow.version,
+      currentStatus: ParcelStatus.REQUESTED,
+    });
+  } catch (error) {
+    // A parallel request booked the same quote first
+    const { code, keyPattern } = error as {
+      code?: number;
+      keyPattern?: Record<string, unknown>;
+    };
+    if (code === 11000 && keyPattern?.quoteId) {
+      throw new AppError(
+        StatusCodes.CONFLICT,
+        "Quote has already been used, request a new quote"
+      );
+    }
+    throw error;
+  }
+
+  if (coupon) {
+    try {
+      await CouponService.redeemCoupon(
+        coupon,
+        senderId,
+        newParcel,
+        pricing.discount ?? 0
+      );
+    } catch (error) {
+      // The coupon ran out while the parcel was being created
+      await Parcel.findByIdAndDelete(newParcel._id);
+      throw error;
+    }
+  }
+
+  // Every parcel is billed on its own invoice
+  await InvoiceService.issueInvoice(senderId, [newParcel], senderId);
+
+  return (await Parcel.findById(newParcel._id).populate(
+    "sender",
+    "name email phone"
+  )) as IParcel;
+};
+
+// Create parcels in bulk from a CSV upload (Sender only)
+const bulkCreateParcels = async (
+  senderId: string,
+  csvContent: string,
+  dryRun: boolean
+): Promise<IBulkParcelImportReport> => {
+  const sender = await getActiveSender(senderId);
+
+  let records: ICsvRecord[];
+  try {
+    records = parseCsv(csvContent);
+  } catch (error) {
+    throw new AppError(StatusCodes.BAD_REQUEST, (error as Error).message);
+  }
+
+  if (!records.length) {
+    throw new AppError(StatusCodes.BAD_REQUEST, "CSV file has no parcel rows");
+  }
+
+  if (records.length > MAX_BULK_PARCEL_ROWS) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `CSV file cannot contain more than ${MAX_BULK_PARCEL_ROWS} parcel rows`
+    );
+  }
+
+  const workflow = await WorkflowService.getActiveWorkflow();
+  const rateCard = await RateCardService.getActiveRateCard();
+  const zones = await ZoneService.getActiveZones();
+  const taxRules = await TaxService.getActiveTaxRules();
+  const calendar = await HolidayService.getBusinessCalendar();
+  const results: IBulkParcelRowResult[] = [];
+  const newParcels: Record<string, unknown>[] = [];
+  const reservedTrackingIds = new Set<string>();
+
+  for (const record of records) {
+    // Every row goes through the same validation as POST /parcel
+    const validation = await createParcelValidation.safeParseAsync({
+      body: csvRecordToParcelPayload(record.values),
+    });
+
+    if (!validation.success) {
+      results.push({
+        row: record.rowNumber,
+        success: false,
+        errors: validation.error.issues.map((issue) => {
+          const field = issue.path.slice(1).map(String).join(".");
+          return field ? `${field}: ${issue.message}` : issue.message;
+        }),
+      });
+      continue;
+    }
+
+    const parcelData = validation.data.body as ICreateParcel;
+
+    let priced: Awaited<ReturnType<typeof priceParcelRequest>>;
+    let pickupInfo: IPickupInfo;
+    let estimatedDeliveryDate: Date | undefined;
+    try {
+      pickupInfo = buildPickupInfo(sender, parcelData.pickupInfo);
+      await assertServiceableAddresses(
+        {
+          "Delivery address": parcelData.receiver.address,
+          "Pickup address": pickupInfo.address,
+        },
+        zones
+      );
+      priced = await priceParcelRequest(parcelData, senderId, pickupInfo, {
+        rateCard,
+        zones,
+        taxRules,
+      });
+      estimatedDeliveryDate = await calculateEstimatedDelivery(
+        {
+          receiver: parcelData.receiver,
+          pickupInfo,
+          deliveryInfo: parcelData.deliveryInfo,
+        },
+        ParcelStatus.REQUESTED,
+        { zones, calendar }
+      );
+    } catch (error) {
+      results.push({
+        row: record.rowNumber,
+        success: false,
+        errors: [(error as Error).message],
+      });
+      continue;
+    }
+
+    if (dryRun) {
+      results.push({
+        row: record.rowNumber,
+        success: true,
+        pricing: priced.pricing,
+        estimatedDeliveryDate,
+      });
+      continue;
+    }
+
+    const trackingId = await generateUniqueTrackingId(reservedTrackingIds);
+    const parcelId = new Types.ObjectId();
+
+    // Earlier rows count towards the coupon's usage limits
+    if (priced.coupon) {
+      try {
+        await CouponService.redeemCoupon(
+          priced.coupon,
+          senderId,
+          { _id: parcelId, trackingId },
+          priced.pricing.discount ?? 0
         );
-      } else {
-        flattened[`${prefix}${key}`] = obj[key];
+      } catch (error) {
+        results.push({
+          row: record.rowNumber,
+          success: false,
+          errors: [(error as Error).message],
+        });
+        continue;
       }
     }
-    return flattened;
-  };
+    reservedTrackingIds.add(trackingId);
+
+    // insertMany skips save middleware, so the initial status log is added here
+    newParcels.push({
+      _id: parcelId,
+      trackingId,
+      sender: senderId,
+      receiver: parcelData.receiver,
+      pickupInfo,
+      parcelDetails: priced.parcelDetails,
+      deliveryInfo: parcelData.deliveryInfo,
+      estimatedDeliveryDate,
+      promisedDeliveryDate: estimatedDeliveryDate,
+      pricing: priced.pricing,
+      ...(parcelData.codAmount && {
+        cod: { amount: parcelData.codAmount, status: CodStatus.PENDING },
+      }),
+      ...(priced.insurance && { insurance: priced.insurance }),
+      workflowVersion: workflow.version,
+      currentStatus: ParcelStatus.REQUESTED,
+      statusHistory: [
+        {
+          status: ParcelStatus.REQUESTED,
+          timestamp: new Date(),
+          updatedBy: senderId,
+          note: "Parcel request created via bulk import",
+        },
+      ],
+    });
 
-  // Flatten nested updates for proper partial updates
-  const updateFields: Record<string, unknown> = {
-    pricing: newPricing,
-    updatedAt: new Date(),
-  };
+    results.push({
+      row: record.rowNumber,
+      success: true,
+      parcelId: parcelId.toString(),
+      trackingId,
+      pricing: priced.pricing,
+      estimatedDeliveryDate,
+    });
+  }
 
-  // Handle receiver partial updates
-  if (updateData.receiver) {
-    Object.assign(
-      updateFields,
-      flattenObject(updateData.receiver, "receiver.")
+  // Valid rows are created together in a single batch, billed on one invoice
+  let invoiceNumber: string | undefined;
+  if (newParcels.length) {
+    let createdParcels: IParcel[];
+    try {
+      createdParcels = (await Parcel.insertMany(
+        newParcels
+      )) as unknown as IParcel[];
+    } catch (error) {
+      for (const newParcel of newParcels) {
+        await CouponService.releaseRedemption(newParcel._id as Types.ObjectId);
+      }
+      throw error;
+    }
+    const invoice = await InvoiceService.issueInvoice(
+      senderId,
+      createdParcels,
+      senderId
     );
+    invoiceNumber = invoice.invoiceNumber;
   }
 
-  // Handle parcelDetails partial updates
-  if (updateData.parcelDetails) {
-    Object.assign(
-      updateFields,
-      flattenObject(updateData.parcelDetails, "parcelDetails.")
-    );
+  const validRows = results.filter((result) => result.success).length;
+
+  return {
+    dryRun,
+    totalRows: records.length,
+    validRows,
+    invalidRows: records.length - validRows,
+    createdCount: dryRun ? 0 : newParcels.length,
+    invoiceNumber,
+    results,
+  };
+};
+
+// Get parcel by ID (Owner or Admin only)
+const getParcelById = async (
+  parcelId: string,
+  userId: string,
+  userRole: string
+): Promise<IParcel> => {
+  const parcel = await Parcel.findById(parcelId)
+    .populate("sender", "name email phone")
+    .populate("parentParcel", linkedShipmentFields)
+    .populate("returnParcel", linkedShipmentFields)
+    .populate("currentHub", currentHubFields)
+    .populate("deliveryPersonnel", riderFields);
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  // Check access permissions (sender and rider are populated, so compare their IDs)
+  const isSender = parcel.populated("sender")
+    ? (parcel.sender as unknown as { _id: Types.ObjectId })._id.toString() ===
+      userId
+    : parcel.sender.toString() === userId;
+  const isReceiver =
+    parcel.receiver.email === (await User.findById(userId))?.email;
+  const isAssignedRider =
+    userRole === "rider" &&
+    (
+      parcel.deliveryPersonnel as unknown as { _id: Types.ObjectId } | undefined
+    )?._id.toString() === userId;
+  const isAdmin = userRole === "admin";
+
+  if (!isSender && !isReceiver && !isAssignedRider && !isAdmin) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You do not have permission to view this parcel"
+    );
+  }
+
+  return parcel;
+};
+
+// Track parcel by tracking ID or piece ID (Public)
+const trackParcelByTrackingId = async (
+  trackingId: string
+): Promise<IParcel> => {
+  const parcel = await Parcel.findOne({
+    $or: [{ trackingId }, { "pieces.pieceId": trackingId }],
+  })
+    .populate("sender", "name email phone")
+    .populate("parentParcel", linkedShipmentFields)
+    .populate("returnParcel", linkedShipmentFields)
+    .populate("currentHub", currentHubFields);
+  if (!parcel) {
+    throw new AppError(
+      StatusCodes.NOT_FOUND,
+      "Parcel not found with this tracking ID"
+    );
+  }
+
+  return parcel;
+};
+
+// Get all parcels with filters (Admin only)
+const getAllParcels = async (
+  query: Record<string, string>
+): Promise<{
+  parcels: IParcel[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const searchableFields = [
+    "trackingId",
+    "receiver.name",
+    "receiver.email",
+    "parcelDetails.description",
+  ];
+
+  const parcelQuery = new QueryBuilder(
+    Parcel.find().populate("sender", "name email phone"),
+    query
+  )
+    .search(searchableFields)
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const parcels = (await parcelQuery.build()) as IParcel[];
+  const meta = await parcelQuery.getMeta();
+
+  return { parcels, meta };
+};
+
+// Get sender's parcels
+const getSenderParcels = async (
+  senderId: string,
+  query: Record<string, string>
+): Promise<{
+  parcels: IParcel[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const searchableFields = [
+    "trackingId",
+    "receiver.name",
+    "receiver.email",
+    "parcelDetails.description",
+  ];
+
+  const parcelQuery = new QueryBuilder(
+    Parcel.find({ sender: senderId }).populate("sender", "name email phone"),
+    query
+  )
+    .search(searchableFields)
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const parcels = (await parcelQuery.build()) as IParcel[];
+  const meta = await parcelQuery.getMeta();
+
+  return { parcels, meta };
+};
+
+// Get receiver's parcels
+const getReceiverParcels = async (
+  receiverEmail: string,
+  query: Record<string, string>
+): Promise<{
+  parcels: IParcel[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const searchableFields = ["trackingId", "parcelDetails.description"];
+
+  const parcelQuery = new QueryBuilder(
+    Parcel.find({ "receiver.email": receiverEmail }).populate(
+      "sender",
+      "name email phone"
+    ),
+    query
+  )
+    .search(searchableFields)
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const parcels = (await parcelQuery.build()) as IParcel[];
+  const meta = await parcelQuery.getMeta();
+
+  return { parcels, meta };
+};
+
+// Get the rider's run for today: open assignments plus stops closed today (Rider only)
+const getRiderParcels = async (
+  riderId: string,
+  query: Record<string, string>
+): Promise<{
+  parcels: IParcel[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const searchableFields = ["trackingId", "receiver.name", "receiver.phone"];
+
+  const startOfToday = new Date();
+  startOfToday.setUTCHours(0, 0, 0, 0);
+
+  const parcelQuery = new QueryBuilder(
+    Parcel.find({
+      deliveryPersonnel: riderId,
+      $or: [
+        { currentStatus: { $nin: closedParcelStatuses } },
+        { updatedAt: { $gte: startOfToday } },
+      ],
+    }).populate("sender", "name email phone"),
+    { sort: "routeOrder", ...query }
+  )
+    .search(searchableFields)
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const parcels = (await parcelQuery.build()) as IParcel[];
+  const meta = await parcelQuery.getMeta();
+
+  return { parcels, meta };
+};
+
+// Reorder the rider's open stops, unlisted stops keep their order after the listed ones (Rider only)
+const updateRiderRouteOrder = async (
+  riderId: string,
+  parcelIds: string[]
+): Promise<IParcel[]> => {
+  const openParcels = await Parcel.find({
+    deliveryPersonnel: riderId,
+    currentStatus: { $nin: closedParcelStatuses },
+  })
+    .sort({ routeOrder: 1, createdAt: 1 })
+    .select("_id");
+
+  const openParcelIds = openParcels.map((parcel) => parcel._id.toString());
+  const unknownParcelId = parcelIds.find((id) => !openParcelIds.includes(id));
+
+  if (unknownParcelId) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Parcel ${unknownParcelId} is not an open parcel assigned to you`
+    );
+  }
+
+  const orderedParcelIds = [
+    ...new Set([...parcelIds, ...openParcelIds]),
+  ];
+
+  await Parcel.bulkWrite(
+    orderedParcelIds.map((id, index) => ({
+      updateOne: {
+        filter: { _id: id },
+        update: { $set: { routeOrder: index + 1 } },
+      },
+    }))
+  );
+
+  return Parcel.find({ _id: { $in: orderedParcelIds } })
+    .sort({ routeOrder: 1 })
+    .populate("sender", "name email phone");
+};
+
+// Update parcel details (Sender only, before dispatch)
+const updateParcel = async (
+  parcelId: string,
+  senderId: string,
+  updateData: IUpdateParcel
+): Promise<IParcel> => {
+  const parcel = await Parcel.findById(parcelId);
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  // Check if user is the sender
+  if (parcel.sender.toString() !== senderId) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only update your own parcels"
+    );
+  }
+
+  assertPickupAddress(parcel);
+
+  // Check if parcel can be updated (only before dispatch)
+  if (
+    !(
+      [
+        ParcelStatus.REQUESTED,
+        ParcelStatus.APPROVED,
+        ParcelStatus.PICKUP_SCHEDULED,
+      ] as string[]
+    ).includes(parcel.currentStatus)
+  ) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cannot update parcel after it has been dispatched"
+    );
+  }
+
+  if (parcel.isBlocked) {
+    throw new AppError(StatusCodes.BAD_REQUEST, "Cannot update blocked parcel");
+  }
+
+  if (parcel.isCancelled) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cannot update cancelled parcel"
+    );
+  }
+
+  if (updateData.pickupInfo?.window && parcel.pickupInfo?.slot) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Pickup window is set by the booked pickup slot, reschedule the pickup instead"
+    );
+  }
+
+  if (parcel.pieces?.length && updateData.parcelDetails?.weight !== undefined) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Weight of a multi-piece shipment is derived from its pieces"
+    );
+  }
+
+  // Changed addresses must stay inside the service area
+  const zones = await ZoneService.getActiveZones();
+  const updatedDeliveryAddress = mergeAddressUpdate(
+    parcel.receiver.address,
+    updateData.receiver?.address
+  );
+  const updatedPickupAddress = mergeAddressUpdate(
+    parcel.pickupInfo.address,
+    updateData.pickupInfo?.address
+  );
+  await assertServiceableAddresses(
+    {
+      "Delivery address": updatedDeliveryAddress,
+      "Pickup address": updatedPickupAddress,
+    },
+    zones
+  );
+
+  // An empty coupon code removes the coupon from the parcel
+  const currentCouponCode = parcel.pricing.couponCode ?? "";
+  const isCouponChanged =
+    updateData.couponCode !== undefined &&
+    updateData.couponCode !== currentCouponCode;
+
+  // Recalculate pricing only if fields that affect pricing changed
+  let newPricing = parcel.pricing;
+  let newInsurance = parcel.insurance;
+  const needsPricingRecalculation =
+    updateData.parcelDetails ||
+    (updateData.deliveryInfo && updateData.deliveryInfo.urgency) ||
+    updatedDeliveryAddress ||
+    updatedPickupAddress ||
+    updateData.insured !== undefined ||
+    isCouponChanged;
+
+  if (needsPricingRecalculation) {
+    const currentParcel = parcel.toObject();
+    const updatedParcelDetails = {
+      ...currentParcel.parcelDetails,
+      ...(updateData.parcelDetails || {}),
+    };
+    const updatedDeliveryInfo = {
+      ...currentParcel.deliveryInfo,
+      ...(updateData.deliveryInfo || {}),
+    };
+
+    const feeValidation = validateFeeCalculationInput(
+      updatedParcelDetails,
+      updatedDeliveryInfo,
+      parcel.pieces
+    );
+    if (!feeValidation.isValid) {
+      throw new AppError(
+        StatusCodes.BAD_REQUEST,
+        feeValidation.errors.join(", ")
+      );
+    }
+
+    // Parcels keep the rate card version they were first priced with
+    const rateCard = await RateCardService.getRateCardForParcel(parcel);
+    // Taxes follow the current rules of the pickup address
+    const taxRules = await TaxService.getActiveTaxRules();
+    newInsurance = getParcelInsurance(
+      updatedParcelDetails,
+      rateCard,
+      updateData.insured ?? !!parcel.insurance
+    );
+
+    // A new coupon is checked like at creation, the current one only against the parcel
+    const priced = await priceWithCoupon(
+      {
+        parcelDetails: updatedParcelDetails,
+        deliveryInfo: updatedDeliveryInfo,
+        pieces: parcel.pieces,
+        ...getRouteZones(
+          updatedPickupAddress ?? parcel.pickupInfo.address,
+          updatedDeliveryAddress ?? parcel.receiver.address,
+          zones
+        ),
+        insurancePremium: newInsurance?.premium,
+        taxRules: TaxService.matchTaxRules(
+          taxRules,
+          updatedPickupAddress ?? parcel.pickupInfo.address
+        ),
+      },
+      rateCard,
+      isCouponChanged ? updateData.couponCode || undefined : undefined,
+      senderId,
+      isCouponChanged ? undefined : parcel.pricing.couponId
+    );
+    newPricing = priced.pricing;
+
+    if (isCouponChanged && priced.coupon) {
+      await CouponService.redeemCoupon(
+        priced.coupon,
+        senderId,
+        parcel,
+        newPricing.discount ?? 0
+      );
+    }
+
+    // The new fee replaces the old one on the open invoice
+    try {
+      await InvoiceService.updateParcelAmount(parcel, newPricing);
+    } catch (error) {
+      if (isCouponChanged && priced.coupon) {
+        await CouponService.releaseRedemption(parcel._id, priced.coupon._id);
+      }
+      throw error;
+    }
+
+    if (isCouponChanged && parcel.pricing.couponId) {
+      await CouponService.releaseRedemption(
+        parcel._id,
+        parcel.pricing.couponId
+      );
+    } else if (priced.coupon) {
+      await CouponService.updateRedemptionDiscount(
+        parcel._id,
+        newPricing.discount ?? 0
+      );
+    }
+  }
+
+  // Helper function to flatten nested objects for MongoDB updates
+  const flattenObject = (
+    obj: Record<string, unknown>,
+    prefix = ""
+  ): Record<string, unknown> => {
+    const flattened: Record<string, unknown> = {};
+    for (const key in obj) {
+      if (
+        obj[key] !== null &&
+        typeof obj[key] === "object" &&
+        !Array.isArray(obj[key])
+      ) {
+        Object.assign(
+          flattened,
+          flattenObject(obj[key] as Record<string, unknown>, `${prefix}${key}.`)
+        );
+      } else {
+        flattened[`${prefix}${key}`] = obj[key];
+      }
+    }
+    return flattened;
+  };
+
+  // Flatten nested updates for proper partial updates
+  const updateFields: Record<string, unknown> = {
+    pricing: newPricing,
+    updatedAt: new Date(),
+  };
+
+  // Handle receiver partial updates
+  if (updateData.receiver) {
+    Object.assign(
+      updateFields,
+      flattenObject(updateData.receiver, "receiver.")
+    );
+  }
+
+  // Handle pickupInfo partial updates (the window is replaced as a whole)
+  if (updateData.pickupInfo) {
+    const { window, ...pickupFields } = updateData.pickupInfo;
+    Object.assign(updateFields, flattenObject(pickupFields, "pickupInfo."));
+    if (window) {
+      updateFields["pickupInfo.window"] = window;
+    }
+  }
+
+  // Handle parcelDetails partial updates
+  if (updateData.parcelDetails) {
+    Object.assign(
+      updateFields,
+      flattenObject(updateData.parcelDetails, "parcelDetails.")
+    );
+  }
+
+  // Handle deliveryInfo partial updates
+  if (updateData.deliveryInfo) {
+    Object.assign(
+      updateFields,
+      flattenObject(updateData.deliveryInfo, "deliveryInfo.")
+    );
+  }
+
+  // A cash-on-delivery amount of 0 turns cash on delivery off
+  if (updateData.codAmount) {
+    updateFields.cod = {
+      amount: updateData.codAmount,
+      status: CodStatus.PENDING,
+    };
+  }
+
+  // Insurance follows the recalculated declared value, or is removed
+  const unsetFields: Record<string, 1> = {};
+  if (needsPricingRecalculation && newInsurance) {
+    updateFields.insurance = newInsurance;
+  } else if (needsPricingRecalculation && parcel.insurance) {
+    unsetFields.insurance = 1;
+  }
+
+  if (updateData.codAmount === 0) {
+    unsetFields.cod = 1;
+  }
+
+  const updatedParcel = await Parcel.findByIdAndUpdate(
+    parcelId,
+    {
+      $set: updateFields,
+      ...(Object.keys(unsetFields).length && { $unset: unsetFields }),
+    },
+    { new: true, runValidators: false }
+  ).populate("sender", "name email phone");
+
+  // Addresses, urgency and the pickup window all move the delivery estimate
+  if (
+    updatedParcel &&
+    (updateData.receiver?.address ||
+      updateData.pickupInfo?.address ||
+      updateData.pickupInfo?.window ||
+      updateData.deliveryInfo?.urgency)
+  ) {
+    const estimatedDeliveryDate = await calculateEstimatedDelivery(
+      updatedParcel,
+      updatedParcel.currentStatus
+    );
+
+    if (estimatedDeliveryDate) {
+      await Parcel.updateOne({ _id: parcelId }, { estimatedDeliveryDate });
+      updatedParcel.estimatedDeliveryDate = estimatedDeliveryDate;
+    }
+  }
+
+  return updatedParcel as IParcel;
+};
+
+// Update parcel status (Admin only)
+const updateParcelStatus = async (
+  parcelId: string,
+  userId: string,
+  userRole: string,
+  statusUpdate: IUpdateParcelStatus,
+  files?: IProofOfDeliveryFiles,
+  hubScan?: IHubScanEvent
+): Promise<IParcel> => {
+  const parcel = await Parcel.findById(parcelId);
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  if (
+    userRole === "rider" &&
+    parcel.deliveryPersonnel?.toString() !== userId
+  ) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only update parcels assigned to you"
+    );
+  }
+
+  if (parcel.isBlocked) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cannot update status of blocked parcel"
+    );
+  }
+
+  // Validate status transition against the parcel's workflow version
+  const workflow = await WorkflowService.getWorkflowForParcel(parcel);
+  WorkflowService.assertTransition(
+    workflow,
+    parcel.currentStatus,
+    statusUpdate.status,
+    userRole
+  );
+
+  if (statusUpdate.status === ParcelStatus.PICKUP_SCHEDULED) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Book a pickup slot through the schedule-pickup endpoint"
+    );
+  }
+
+  if (statusUpdate.status === ParcelStatus.APPROVED) {
+    await assertPaidForApproval(parcel);
+  }
+
+  // The rider is picked before the approval is saved
+  const autoAssignment =
+    statusUpdate.status === ParcelStatus.APPROVED
+      ? await pickAutoAssignment(parcel)
+      : null;
+
+  // Only admins can mark a parcel delivered without the receiver's code
+  if (userRole === "rider" && statusUpdate.status === ParcelStatus.DELIVERED) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Delivery must be confirmed with the receiver's delivery code"
+    );
+  }
+
+  const maxDeliveryAttempts = Number(envVars.MAX_DELIVERY_ATTEMPTS);
+
+  if (
+    statusUpdate.status === ParcelStatus.OUT_FOR_DELIVERY &&
+    parcel.deliveryAttemptCount >= maxDeliveryAttempts
+  ) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Parcel has reached the maximum of ${maxDeliveryAttempts} delivery attempts`
+    );
+  }
+
+  const releasedSlot = getReleasedPickupSlot(parcel, statusUpdate.status);
+
+  // Failed deliveries are recorded as attempts with a reason code
+  let deliveryAttempt: IDeliveryAttempt | undefined;
+  if (statusUpdate.status === ParcelStatus.FAILED_DELIVERY) {
+    if (!statusUpdate.failureReason) {
+      throw new AppError(
+        StatusCodes.BAD_REQUEST,
+        "Failure reason is required for failed deliveries"
+      );
+    }
+
+    deliveryAttempt = {
+      attemptNumber: parcel.deliveryAttemptCount + 1,
+      reason: statusUpdate.failureReason,
+      note: statusUpdate.note,
+      attemptedAt: new Date(),
+      recordedBy: userId,
+    };
+  }
+
+  // Reaching the attempt limit returns the parcel to the sender automatically
+  const isAutoReturn =
+    !!deliveryAttempt &&
+    deliveryAttempt.attemptNumber >= maxDeliveryAttempts &&
+    WorkflowService.getAllowedNextStatuses(
+      workflow,
+      ParcelStatus.FAILED_DELIVERY
+    ).includes(ParcelStatus.RETURNED);
+
+  // Entering OUT_FOR_DELIVERY issues a fresh proof-of-delivery code
+  const deliveryOtp =
+    statusUpdate.status === ParcelStatus.OUT_FOR_DELIVERY
+      ? createDeliveryOtp(parcelId)
+      : undefined;
+
+  const attachments = await storeProofAttachments(
+    parcelId,
+    statusUpdate.status,
+    files,
+    userId
+  );
+
+  // Add status log entry
+  const statusLogEntry = {
+    status: statusUpdate.status,
+    timestamp: new Date(),
+    updatedBy: new Types.ObjectId(userId),
+    location: statusUpdate.location,
+    note: statusUpdate.note,
+    ...(statusUpdate.status === ParcelStatus.DELIVERED && {
+      verificationMethod: DeliveryVerificationMethod.ADMIN_OVERRIDE,
+    }),
+    attachments,
+    failureReason: deliveryAttempt?.reason,
+    ...(hubScan && { hub: hubScan.hub._id, scanType: hubScan.scanType }),
+  };
+
+  const statusLogEntries = [statusLogEntry];
+  if (isAutoReturn) {
+    statusLogEntries.push({
+      status: ParcelStatus.RETURNED,
+      timestamp: new Date(),
+      updatedBy: new Types.ObjectId(userId),
+      location: statusUpdate.location,
+      note: `Automatically returned to sender after ${maxDeliveryAttempts} failed delivery attempts`,
+      attachments: undefined,
+      failureReason: undefined,
+    });
+  }
+
+  const newStatus = isAutoReturn ? ParcelStatus.RETURNED : statusUpdate.status;
+  const estimatedDeliveryDate = await calculateEstimatedDelivery(
+    parcel,
+    newStatus
+  );
+  const codCollector =
+    newStatus === ParcelStatus.DELIVERED
+      ? getCodCollector(parcel, userId)
+      : undefined;
+
+  // Fields cleared by this update
+  const unsetFields = {
+    ...(releasedSlot && { "pickupInfo.slot": 1 }),
+    ...(hubScan?.scanType === HubScanType.SCAN_OUT && { currentHub: 1 }),
+  };
+
+  // Only apply if no other update moved the parcel since it was checked
+  const updatedParcel = await Parcel.findOneAndUpdate(
+    { _id: parcelId, currentStatus: parcel.currentStatus },
+    {
+      currentStatus: newStatus,
+      ...cascadePieceStatus(parcel, newStatus),
+      $push: {
+        statusHistory: { $each: statusLogEntries },
+        ...(deliveryAttempt && { deliveryAttempts: deliveryAttempt }),
+      },
+      ...(deliveryAttempt && { $inc: { deliveryAttemptCount: 1 } }),
+      updatedAt: new Date(),
+      ...(statusUpdate.status === ParcelStatus.CANCELLED && {
+        isCancelled: true,
+      }),
+      ...(deliveryOtp && { deliveryOtp: deliveryOtp.record }),
+      ...(estimatedDeliveryDate && { estimatedDeliveryDate }),
+      ...getCodCollectionFields(codCollector),
+      ...(isAutoReturn && { autoReturnedAt: new Date() }),
+      ...(hubScan?.scanType === HubScanType.SCAN_IN && {
+        currentHub: hubScan.hub._id,
+      }),
+      ...(Object.keys(unsetFields).length > 0 && { $unset: unsetFields }),
+    },
+    { new: true, runValidators: true }
+  ).populate("sender", "name email phone");
+
+  if (!updatedParcel) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Parcel status changed while updating it, please retry"
+    );
+  }
+
+  if (releasedSlot) {
+    await PickupSlotService.releasePickupSlot(releasedSlot);
+  }
+
+  if (statusUpdate.status === ParcelStatus.CANCELLED) {
+    await InvoiceService.removeParcel(parcel);
+    await CouponService.releaseRedemption(parcel._id);
+  }
+
+  if (deliveryOtp) {
+    await notifyDeliveryOtp(updatedParcel, deliveryOtp.otp);
+  }
+
+  if (codCollector) {
+    await CodService.recordCollection(parcel, codCollector, userId);
+  }
+
+  // Approved parcels go to a rider straight away in auto-assign zones
+  if (
+    autoAssignment &&
+    updatedParcel.currentStatus === ParcelStatus.APPROVED
+  ) {
+    const autoAssignedParcel = await autoAssignParcel(
+      updatedParcel,
+      autoAssignment,
+      userId
+    );
+    if (autoAssignedParcel) {
+      return autoAssignedParcel;
+    }
+  }
+
+  if (updatedParcel.currentStatus === ParcelStatus.RETURNED) {
+    await handleReturnedParcel(parcelId, userId);
+
+    return (await Parcel.findById(parcelId).populate(
+      "sender",
+      "name email phone"
+    )) as IParcel;
+  }
+
+  return updatedParcel;
+};
+
+// Update the status of a single piece of a multi-piece shipment (Admin only)
+const updatePieceStatus = async (
+  pieceId: string,
+  adminId: string,
+  statusUpdate: IUpdatePieceStatus
+): Promise<IParcel> => {
+  const parcel = await Parcel.findOne({ "pieces.pieceId": pieceId });
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Piece not found");
+  }
+
+  if (parcel.isBlocked) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cannot update status of blocked parcel"
+    );
+  }
+
+  // Attempts and cancellations are tracked for the shipment as a whole
+  if (
+    (
+      [ParcelStatus.FAILED_DELIVERY, ParcelStatus.CANCELLED] as string[]
+    ).includes(statusUpdate.status)
+  ) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Status ${statusUpdate.status} must be set on the master parcel`
+    );
+  }
+
+  const piece = parcel.pieces.find((item) => item.pieceId === pieceId);
+  if (!piece) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Piece not found");
+  }
+
+  // Pieces follow the same workflow as their master parcel
+  const workflow = await WorkflowService.getWorkflowForParcel(parcel);
+  WorkflowService.assertTransition(
+    workflow,
+    piece.currentStatus,
+    statusUpdate.status,
+    "admin"
+  );
+
+  const maxDeliveryAttempts = Number(envVars.MAX_DELIVERY_ATTEMPTS);
+
+  if (
+    statusUpdate.status === ParcelStatus.OUT_FOR_DELIVERY &&
+    parcel.deliveryAttemptCount >= maxDeliveryAttempts
+  ) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Parcel has reached the maximum of ${maxDeliveryAttempts} delivery attempts`
+    );
+  }
+
+  const masterStatus = deriveMasterStatus(
+    workflow.statuses.map((status) => status.key),
+    parcel.pieces.map((item) =>
+      item.pieceId === pieceId ? statusUpdate.status : item.currentStatus
+    )
+  );
+  const isMasterChanged = masterStatus !== parcel.currentStatus;
+
+  const statusLogEntries: IStatusLog[] = [
+    {
+      status: statusUpdate.status,
+      timestamp: new Date(),
+      updatedBy: adminId,
+      location: statusUpdate.location,
+      note: statusUpdate.note,
+      pieceId,
+    },
+  ];
+
+  if (isMasterChanged) {
+    statusLogEntries.push({
+      status: masterStatus,
+      timestamp: new Date(),
+      updatedBy: adminId,
+      location: statusUpdate.location,
+      note: "Shipment status derived from piece statuses",
+      ...(masterStatus === ParcelStatus.DELIVERED && {
+        verificationMethod: DeliveryVerificationMethod.ADMIN_OVERRIDE,
+      }),
+    });
+  }
+
+  const estimatedDeliveryDate = isMasterChanged
+    ? await calculateEstimatedDelivery(parcel, masterStatus)
+    : undefined;
+  const codCollector =
+    isMasterChanged && masterStatus === ParcelStatus.DELIVERED
+      ? getCodCollector(parcel, adminId)
+      : undefined;
+
+  // The whole shipment going out for delivery issues the delivery code
+  const deliveryOtp =
+    isMasterChanged && masterStatus === ParcelStatus.OUT_FOR_DELIVERY
+      ? createDeliveryOtp(parcel._id.toString())
+      : undefined;
+
+  // Only apply the scan if no one else moved the piece in the meantime
+  const updatedParcel = await Parcel.findOneAndUpdate(
+    {
+      _id: parcel._id,
+      pieces: {
+        $elemMatch: { pieceId, currentStatus: piece.currentStatus },
+      },
+    },
+    {
+      "pieces.$.currentStatus": statusUpdate.status,
+      "pieces.$.lastScannedAt": new Date(),
+      currentStatus: masterStatus,
+      $push: { statusHistory: { $each: statusLogEntries } },
+      updatedAt: new Date(),
+      ...(deliveryOtp && { deliveryOtp: deliveryOtp.record }),
+      ...(estimatedDeliveryDate && { estimatedDeliveryDate }),
+      ...getCodCollectionFields(codCollector),
+    },
+    { new: true, runValidators: true }
+  ).populate("sender", "name email phone");
+
+  if (!updatedParcel) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Piece status was changed by another update, please retry"
+    );
+  }
+
+  if (deliveryOtp) {
+    await notifyDeliveryOtp(updatedParcel, deliveryOtp.otp);
+  }
+
+  if (codCollector) {
+    await CodService.recordCollection(parcel, codCollector, adminId);
+  }
+
+  if (isMasterChanged && masterStatus === ParcelStatus.RETURNED) {
+    await handleReturnedParcel(parcel._id.toString(), adminId);
+
+    return (await Parcel.findById(parcel._id).populate(
+      "sender",
+      "name email phone"
+    )) as IParcel;
+  }
+
+  return updatedParcel;
+};
+
+// Record a parcel arriving at or leaving a hub, optionally moving its status (Admin only)
+const scanParcelAtHub = async (
+  parcelId: string,
+  adminId: string,
+  hubScan: IHubScanEvent,
+  scan: Omit<IHubScan, "parcels">
+): Promise<IParcel> => {
+  const parcel = await Parcel.findById(parcelId);
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  if (parcel.isBlocked) {
+    throw new AppError(StatusCodes.BAD_REQUEST, "Cannot scan blocked parcel");
+  }
+
+  const hubId = hubScan.hub._id.toString();
+  const currentHub = parcel.currentHub?.toString();
+
+  if (hubScan.scanType === HubScanType.SCAN_IN) {
+    if (currentHub === hubId) {
+      throw new AppError(
+        StatusCodes.BAD_REQUEST,
+        "Parcel is already scanned in at this hub"
+      );
+    }
+    if (currentHub) {
+      throw new AppError(
+        StatusCodes.BAD_REQUEST,
+        "Parcel is still scanned in at another hub, scan it out first"
+      );
+    }
+  } else if (currentHub !== hubId) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Parcel is not scanned in at this hub"
+    );
+  }
+
+  const location = `${hubScan.hub.name} (${hubScan.hub.code})`;
+
+  // A status change goes through the regular transition rules
+  if (scan.status && scan.status !== parcel.currentStatus) {
+    return updateParcelStatus(
+      parcelId,
+      adminId,
+      "admin",
+      { status: scan.status, location, note: scan.note },
+      undefined,
+      hubScan
+    );
+  }
+
+  const workflow = await WorkflowService.getWorkflowForParcel(parcel);
+  if (WorkflowService.isTerminalStatus(workflow, parcel.currentStatus)) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Cannot scan a parcel that is ${parcel.currentStatus}`
+    );
+  }
+
+  const statusLogEntry = {
+    status: parcel.currentStatus,
+    timestamp: new Date(),
+    updatedBy: new Types.ObjectId(adminId),
+    location,
+    note:
+      scan.note ||
+      (hubScan.scanType === HubScanType.SCAN_IN
+        ? "Scanned in at hub"
+        : "Scanned out of hub"),
+    hub: hubScan.hub._id,
+    scanType: hubScan.scanType,
+  };
+
+  const updatedParcel = await Parcel.findByIdAndUpdate(
+    parcelId,
+    {
+      ...(hubScan.scanType === HubScanType.SCAN_IN
+        ? { currentHub: hubScan.hub._id }
+        : { $unset: { currentHub: 1 } }),
+      $push: { statusHistory: statusLogEntry },
+      updatedAt: new Date(),
+    },
+    { new: true, runValidators: true }
+  ).populate("sender", "name email phone");
+
+  return updatedParcel as IParcel;
+};
+
+// Book a pickup slot for an approved parcel, or move it to another slot (Sender or Admin)
+const schedulePickup = async (
+  parcelId: string,
+  userId: string,
+  userRole: string,
+  payload: ISchedulePickup
+): Promise<IParcel> => {
+  const parcel = await Parcel.findById(parcelId);
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  if (userRole === "sender" && parcel.sender.toString() !== userId) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only schedule pickups for your own parcels"
+    );
+  }
+
+  if (parcel.isBlocked) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cannot schedule pickup for blocked parcel"
+    );
+  }
+
+  assertPickupAddress(parcel);
+
+  const previousSlot = parcel.pickupInfo?.slot?.toString();
+  const isReschedule = parcel.currentStatus === ParcelStatus.PICKUP_SCHEDULED;
+
+  if (isReschedule && previousSlot === payload.slotId) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Pickup is already scheduled in this slot"
+    );
+  }
+
+  if (!isReschedule) {
+    const workflow = await WorkflowService.getWorkflowForParcel(parcel);
+    WorkflowService.assertTransition(
+      workflow,
+      parcel.currentStatus,
+      ParcelStatus.PICKUP_SCHEDULED,
+      userRole
+    );
+  }
+
+  const slot = await PickupSlotService.bookPickupSlot(payload.slotId);
+  const window = PickupSlotService.getSlotWindow(slot);
+  const estimatedDeliveryDate = await calculateEstimatedDelivery(
+    {
+      receiver: parcel.receiver,
+      pickupInfo: { address: parcel.pickupInfo.address, window },
+      deliveryInfo: parcel.deliveryInfo,
+    },
+    ParcelStatus.PICKUP_SCHEDULED
+  );
+
+  const statusLogEntry = {
+    status: ParcelStatus.PICKUP_SCHEDULED,
+    timestamp: new Date(),
+    updatedBy: new Types.ObjectId(userId),
+    note: `Pickup ${isReschedule ? "rescheduled" : "scheduled"} for ${window.start.toISOString()} - ${window.end.toISOString()}`,
+  };
+
+  // Only apply if the parcel did not move on while the slot was being booked
+  const updatedParcel = await Parcel.findOneAndUpdate(
+    { _id: parcelId, currentStatus: parcel.currentStatus },
+    {
+      currentStatus: ParcelStatus.PICKUP_SCHEDULED,
+      ...cascadePieceStatus(parcel, ParcelStatus.PICKUP_SCHEDULED),
+      "pickupInfo.slot": slot._id,
+      "pickupInfo.window": window,
+      "pickupInfo.scheduledAt": new Date(),
+      estimatedDeliveryDate,
+      $push: { statusHistory: statusLogEntry },
+      updatedAt: new Date(),
+    },
+    { new: true, runValidators: true }
+  ).populate("sender", "name email phone");
+
+  if (!updatedParcel) {
+    await PickupSlotService.releasePickupSlot(payload.slotId);
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Parcel status changed while scheduling the pickup, please retry"
+    );
+  }
+
+  if (isReschedule && previousSlot) {
+    await PickupSlotService.releasePickupSlot(previousSlot);
+  }
+
+  return updatedParcel;
+};
+
+// Cancel parcel (Sender only, if not dispatched)
+const cancelParcel = async (
+  parcelId: string,
+  senderId: string,
+  reason?: string
+): Promise<IParcel> => {
+  const parcel = await Parcel.findById(parcelId);
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  // Check if user is the sender
+  if (parcel.sender.toString() !== senderId) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only cancel your own parcels"
+    );
+  }
+
+  if (parcel.isCancelled) {
+    throw new AppError(StatusCodes.BAD_REQUEST, "Parcel is already cancelled");
+  }
+
+  // Check if parcel can be cancelled by the sender in its workflow
+  const workflow = await WorkflowService.getWorkflowForParcel(parcel);
+  WorkflowService.assertTransition(
+    workflow,
+    parcel.currentStatus,
+    ParcelStatus.CANCELLED,
+    "sender"
+  );
+
+  // Add cancellation status log
+  const statusLogEntry = {
+    status: ParcelStatus.CANCELLED,
+    timestamp: new Date(),
+    updatedBy: new Types.ObjectId(senderId),
+    note: reason || "Cancelled by sender",
+  };
+
+  const releasedSlot = getReleasedPickupSlot(parcel, ParcelStatus.CANCELLED);
+
+  // Only cancel if no other update moved the parcel since it was checked
+  const updatedParcel = await Parcel.findOneAndUpdate(
+    { _id: parcelId, currentStatus: parcel.currentStatus },
+    {
+      currentStatus: ParcelStatus.CANCELLED,
+      ...cascadePieceStatus(parcel, ParcelStatus.CANCELLED),
+      isCancelled: true,
+      $push: { statusHistory: statusLogEntry },
+      updatedAt: new Date(),
+      ...(releasedSlot && { $unset: { "pickupInfo.slot": 1 } }),
+    },
+    { new: true, runValidators: true }
+  ).populate("sender", "name email phone");
+
+  if (!updatedParcel) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Parcel status changed while cancelling it, please retry"
+    );
+  }
+
+  if (releasedSlot) {
+    await PickupSlotService.releasePickupSlot(releasedSlot);
+  }
+
+  await InvoiceService.removeParcel(parcel);
+  await CouponService.releaseRedemption(parcel._id);
+
+  return updatedParcel;
+};
+
+// Use up one attempt of a parcel's delivery code, throwing unless the code matches
+const consumeDeliveryOtp = async (
+  parcel: IParcel,
+  otp: string
+): Promise<void> => {
+  const { deliveryOtp } = parcel;
+
+  if (
+    parcel.currentStatus !== ParcelStatus.OUT_FOR_DELIVERY ||
+    !deliveryOtp ||
+    deliveryOtp.verifiedAt
+  ) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "No active delivery code for this parcel"
+    );
+  }
+
+  if (deliveryOtp.expiresAt < new Date()) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Delivery code has expired, request a new one"
+    );
+  }
+
+  // Each guess takes an attempt atomically, so parallel guesses cannot exceed the limit
+  const claimedParcel = await Parcel.findOneAndUpdate(
+    {
+      _id: parcel._id,
+      "deliveryOtp.codeHash": deliveryOtp.codeHash,
+      "deliveryOtp.verifiedAt": { $exists: false },
+      "deliveryOtp.expiresAt": { $gt: new Date() },
+      $expr: { $lt: ["$deliveryOtp.attempts", "$deliveryOtp.maxAttempts"] },
+    },
+    { $inc: { "deliveryOtp.attempts": 1 } },
+    { new: true }
+  ).select("+deliveryOtp");
+
+  if (!claimedParcel?.deliveryOtp) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Too many invalid attempts, request a new delivery code"
+    );
+  }
+
+  const { attempts, maxAttempts } = claimedParcel.deliveryOtp;
+  const parcelId = parcel._id.toString();
+  if (!isDeliveryOtpMatched(parcelId, otp, deliveryOtp.codeHash)) {
+    const remainingAttempts = maxAttempts - attempts;
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      remainingAttempts > 0
+        ? `Invalid delivery code, ${remainingAttempts} attempt(s) remaining`
+        : "Invalid delivery code, no attempts remaining. Request a new delivery code"
+    );
+  }
+};
+
+// Move a parcel that is still out for delivery to DELIVERED, using up its delivery code
+const markDeliveredWithOtp = async (
+  parcelId: string,
+  update: Record<string, unknown>
+): Promise<IParcel> => {
+  const updatedParcel = await Parcel.findOneAndUpdate(
+    {
+      _id: parcelId,
+      currentStatus: ParcelStatus.OUT_FOR_DELIVERY,
+      "deliveryOtp.verifiedAt": { $exists: false },
+    },
+    {
+      ...update,
+      "deliveryOtp.verifiedAt": new Date(),
+      updatedAt: new Date(),
+    },
+    { new: true, runValidators: true }
+  ).populate("sender", "name email phone");
+
+  if (!updatedParcel) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Parcel was updated by another request, please reload it"
+    );
+  }
+
+  return updatedParcel;
+};
+
+// Confirm delivery (Receiver only)
+const confirmDelivery = async (
+  parcelId: string,
+  receiverEmail: string,
+  otp: string,
+  note?: string
+): Promise<IParcel> => {
+  const parcel = await Parcel.findById(parcelId).select("+deliveryOtp");
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  // Check if user is the receiver
+  if (parcel.receiver.email !== receiverEmail) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only confirm delivery for parcels addressed to you"
+    );
+  }
+
+  // Cash has to be handed to the rider, who confirms the delivery
+  if (parcel.cod?.status === CodStatus.PENDING) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cash-on-delivery parcels are confirmed by the delivery rider"
+    );
+  }
+
+  // Check if delivery can be confirmed by the receiver in its workflow
+  const workflow = await WorkflowService.getWorkflowForParcel(parcel);
+  WorkflowService.assertTransition(
+    workflow,
+    parcel.currentStatus,
+    ParcelStatus.DELIVERED,
+    "receiver"
+  );
+
+  // Receivers confirm with the delivery code sent to them
+  await consumeDeliveryOtp(parcel, otp);
+
+  // Find if receiver is a registered user, otherwise use a placeholder ObjectId
+  let updatedById: Types.ObjectId;
+  const receiverUser = await User.findOne({ email: receiverEmail });
+
+  if (receiverUser) {
+    updatedById = new Types.ObjectId(receiverUser._id);
+  } else {
+    // Use a default ObjectId for non-registered receivers (we'll create a note to identify)
+    // This represents the system handling delivery confirmation for non-registered users
+    updatedById = new Types.ObjectId(SYSTEM_USER_ID); // System placeholder
+  }
+
+  // Add delivery confirmation status log
+  const statusLogEntry = {
+    status: ParcelStatus.DELIVERED,
+    timestamp: new Date(),
+    updatedBy: updatedById,
+    note: receiverUser
+      ? note || "Delivery confirmed by receiver"
+      : `Delivery confirmed by non-registered receiver: ${receiverEmail}${note ? ` - ${note}` : ""}`,
+    verificationMethod: DeliveryVerificationMethod.RECEIVER_CONFIRMATION,
+  };
+
+  return markDeliveredWithOtp(parcelId, {
+    currentStatus: ParcelStatus.DELIVERED,
+    ...cascadePieceStatus(parcel, ParcelStatus.DELIVERED),
+    $push: { statusHistory: statusLogEntry },
+  });
+};
+
+// Verify delivery with the one-time code (Receiver or Admin)
+const verifyDeliveryOtp = async (
+  parcelId: string,
+  userId: string,
+  userRole: string,
+  userEmail: string,
+  payload: IVerifyDeliveryOtp,
+  files?: IProofOfDeliveryFiles
+): Promise<IParcel> => {
+  const parcel = await Parcel.findById(parcelId).select("+deliveryOtp");
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  if (userRole === "receiver" && parcel.receiver.email !== userEmail) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only verify delivery for parcels addressed to you"
+    );
+  }
+
+  if (
+    userRole === "rider" &&
+    parcel.deliveryPersonnel?.toString() !== userId
+  ) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only deliver parcels assigned to you"
+    );
+  }
+
+  // Cash is only recorded as collected when the rider who took it confirms
+  if (userRole !== "rider" && parcel.cod?.status === CodStatus.PENDING) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cash-on-delivery parcels are confirmed by the delivery rider"
+    );
+  }
+
+  if (parcel.isBlocked) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cannot update status of blocked parcel"
+    );
+  }
+
+  const workflow = await WorkflowService.getWorkflowForParcel(parcel);
+  WorkflowService.assertTransition(
+    workflow,
+    parcel.currentStatus,
+    ParcelStatus.DELIVERED,
+    userRole
+  );
+
+  await consumeDeliveryOtp(parcel, payload.otp);
+
+  const attachments = await storeProofAttachments(
+    parcelId,
+    ParcelStatus.DELIVERED,
+    files,
+    userId
+  );
+
+  // Add delivery verification status log
+  const statusLogEntry = {
+    status: ParcelStatus.DELIVERED,
+    timestamp: new Date(),
+    updatedBy: new Types.ObjectId(userId),
+    note: payload.note || "Delivery verified with one-time code",
+    verificationMethod: DeliveryVerificationMethod.OTP,
+    attachments,
+  };
+
+  const codCollector = getCodCollector(parcel, userId);
+
+  const updatedParcel = await markDeliveredWithOtp(parcelId, {
+    currentStatus: ParcelStatus.DELIVERED,
+    ...cascadePieceStatus(parcel, ParcelStatus.DELIVERED),
+    ...getCodCollectionFields(codCollector),
+    $push: { statusHistory: statusLogEntry },
+  });
+
+  if (codCollector) {
+    await CodService.recordCollection(parcel, codCollector, userId);
+  }
+
+  return updatedParcel as IParcel;
+};
+
+// Update the status of an assigned parcel (Rider only)
+const updateRiderParcelStatus = async (
+  parcelId: string,
+  riderId: string,
+  statusUpdate: IRiderStatusUpdate,
+  files?: IProofOfDeliveryFiles
+): Promise<IParcel> => {
+  const { otp, codCollected, ...update } = statusUpdate;
+
+  // Delivery is only accepted with the code sent to the receiver
+  if (update.status === ParcelStatus.DELIVERED) {
+    if (!otp) {
+      throw new AppError(
+        StatusCodes.BAD_REQUEST,
+        "Delivery code is required to mark a parcel delivered"
+      );
+    }
+
+    const parcel = await Parcel.findById(parcelId).select("cod");
+    if (parcel?.cod?.status === CodStatus.PENDING && !codCollected) {
+      throw new AppError(
+        StatusCodes.BAD_REQUEST,
+        `Collect the cash-on-delivery amount of ${parcel.cod.amount} and confirm it with codCollected`
+      );
+    }
+
+    return verifyDeliveryOtp(
+      parcelId,
+      riderId,
+      "rider",
+      "",
+      { otp, note: update.note },
+      files
+    );
+  }
+
+  return updateParcelStatus(parcelId, riderId, "rider", update, files);
+};
+
+// Issue a new delivery code (Receiver or Admin)
+const resendDeliveryOtp = async (
+  parcelId: string,
+  userRole: string,
+  userEmail: string
+): Promise<IParcel> => {
+  const parcel = await Parcel.findById(parcelId);
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  if (userRole === "receiver" && parcel.receiver.email !== userEmail) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      "You can only request delivery codes for parcels addressed to you"
+    );
+  }
+
+  if (parcel.currentStatus !== ParcelStatus.OUT_FOR_DELIVERY) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Delivery codes are only issued for parcels out for delivery"
+    );
+  }
+
+  const deliveryOtp = createDeliveryOtp(parcelId);
+
+  const updatedParcel = await Parcel.findByIdAndUpdate(
+    parcelId,
+    { deliveryOtp: deliveryOtp.record, updatedAt: new Date() },
+    { new: true, runValidators: true }
+  ).populate("sender", "name email phone");
+
+  await notifyDeliveryOtp(updatedParcel as IParcel, deliveryOtp.otp);
+
+  return updatedParcel as IParcel;
+};
+
+// Get a proof-of-delivery attachment (Sender, Receiver or Admin)
+const getProofAttachment = async (
+  parcelId: string,
+  attachmentId: string,
+  userId: string,
+  userRole: string
+): Promise<{ attachment: IProofAttachment; file: Readable }> => {
+  // Reuses the parcel access check (sender, receiver or admin)
+  const parcel = await getParcelById(parcelId, userId, userRole);
+
+  const attachment = parcel.statusHistory
+    .flatMap((statusLog) => statusLog.attachments || [])
+    .find((item) => item._id?.toString() === attachmentId);
+
+  if (!attachment) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Attachment not found");
+  }
+
+  try {
+    const file = await getStorageAdapter().read(attachment.storageKey);
+    return { attachment, file };
+  } catch {
+    throw new AppError(
+      StatusCodes.NOT_FOUND,
+      "Attachment file is no longer available"
+    );
+  }
+};
+
+// Create return shipment for a RETURNED parcel (Admin only)
+const createReturnShipmentForParcel = async (
+  parcelId: string,
+  adminId: string,
+  payload: ICreateReturnShipment
+): Promise<IParcel> => {
+  const parcel = await Parcel.findById(parcelId);
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  if (parcel.currentStatus !== ParcelStatus.RETURNED) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Return shipments can only be created for returned parcels"
+    );
+  }
+
+  if (parcel.isReturnShipment) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cannot create a return shipment for a return shipment"
+    );
+  }
+
+  if (parcel.returnParcel) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Parcel already has a return shipment"
+    );
+  }
+
+  const receiver =
+    payload.receiver || (await getReturnReceiver(parcel.sender.toString()));
+
+  if (!receiver) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Sender has no saved address and phone, provide the return receiver"
+    );
+  }
+
+  const returnParcel = await createReturnShipment(parcel, receiver, adminId);
+
+  return (await Parcel.findById(returnParcel._id)
+    .populate("sender", "name email phone")
+    .populate("parentParcel", linkedShipmentFields)) as IParcel;
+};
+
+// Block/unblock parcel (Admin only)
+const blockParcel = async (
+  parcelId: string,
+  adminId: string,
+  isBlocked: boolean,
+  reason?: string
+): Promise<IParcel> => {
+  const parcel = await Parcel.findById(parcelId);
+
+  if (!parcel) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
+  }
+
+  const action = isBlocked ? "blocked" : "unblocked";
+  const statusLogEntry = {
+    status: parcel.currentStatus,
+    timestamp: new Date(),
+    updatedBy: new Types.ObjectId(adminId),
+    note: `Parcel ${action} by admin${reason ? `: ${reason}` : ""}`,
+  };
+
+  const updatedParcel = await Parcel.findByIdAndUpdate(
+    parcelId,
+    {
+      isBlocked,
+      $push: { statusHistory: statusLogEntry },
+      updatedAt: new Date(),
+    },
+    { new: true, runValidators: true }
+  ).populate("sender", "name email phone");
+  return updatedParcel as IParcel;
+};
+
+// Get a rider that can take new parcels
+const getAssignableRider = async (riderId: string): Promise<IUser> => {
+  const rider = await User.findById(riderId);
+
+  if (!rider || rider.role !== "rider") {
+    throw new AppError(StatusCodes.NOT_FOUND, "Rider not found");
+  }
+
+  if (
+    rider.isBlocked ||
+    rider.isDeleted ||
+    rider.isActive !== IsActive.ACTIVE ||
+    !rider.riderProfile?.isActive
+  ) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Rider is not active and cannot take new parcels"
+    );
+  }
+
+  return rider;
+};
+
+// New assignments join the end of the rider's current run
+const getNextRouteOrder = async (riderId: string): Promise<number> => {
+  const lastStop = await Parcel.findOne({
+    deliveryPersonnel: riderId,
+    currentStatus: { $nin: closedParcelStatuses },
+  })
+    .sort({ routeOrder: -1 })
+    .select("routeOrder");
+
+  return (lastStop?.routeOrder ?? 0) + 1;
+};
+
+// Turn the embedded delivery personnel of legacy parcels into rider references
+const migrateLegacyDeliveryPersonnel = async (): Promise<number> => {
+  // Read through the driver, the legacy shape no longer casts to the schema
+  const legacyParcels = await Parcel.collection
+    .find({ deliveryPersonnel: { $type: "object" } })
+    .project<{
+      _id: Types.ObjectId;
+      deliveryPersonnel: { name?: string; email?: string };
+    }>({ deliveryPersonnel: 1 })
+    .toArray();
+
+  for (const legacyParcel of legacyParcels) {
+    const { name, email } = legacyParcel.deliveryPersonnel;
+    const rider = email
+      ? await User.findOne({ email: email.toLowerCase(), role: "rider" })
+      : null;
+    const riderId = rider && new Types.ObjectId(rider._id);
+
+    // Personnel without a rider account are unassigned so an admin can pick a rider
+    const assignmentLogEntry = {
+      action: rider ? AssignmentAction.ASSIGNED : AssignmentAction.UNASSIGNED,
+      ...(riderId && { rider: riderId }),
+      assignedBy: SYSTEM_USER_ID,
+      reason: rider
+        ? "Migrated from the embedded delivery personnel record"
+        : `Delivery personnel ${name ?? "unknown"} (${email ?? "no email"}) has no rider account`,
+      timestamp: new Date(),
+    };
+
+    const update: Record<string, unknown> = {
+      ...(riderId
+        ? {
+            $set: {
+              deliveryPersonnel: riderId,
+              routeOrder: await getNextRouteOrder(riderId.toString()),
+            },
+          }
+        : { $unset: { deliveryPersonnel: "" } }),
+      $push: { assignmentHistory: assignmentLogEntry },
+    };
+
+    await Parcel.collection.updateOne(
+      { _id: legacyParcel._id, deliveryPersonnel: { $type: "object" } },
+      update
+    );
+  }
+
+  return legacyParcels.length;
+};
+
+// Fill in the pickup details of parcels created before pickup addresses, from the sender's profile
+const migrateLegacyPickupInfo = async (): Promise<number> => {
+  const senderIds: Types.ObjectId[] = await Parcel.collection.distinct(
+    "sender",
+    { pickupInfo: { $exists: false } }
+  );
+
+  let migratedParcels = 0;
+  for (const senderId of senderIds) {
+    const sender = await User.findById(senderId);
+    if (!sender?.address) {
+      continue;
+    }
+
+    const { street, city, state, zipCode, country } = sender.address;
+    const result = await Parcel.collection.updateMany(
+      { sender: senderId, pickupInfo: { $exists: false } },
+      {
+        $set: {
+          pickupInfo: {
+            address: { street, city, state, zipCode, country },
+            contactName: sender.name,
+            ...(sender.phone && { contactPhone: sender.phone }),
+          },
+        },
+      }
+    );
+    migratedParcels += result.modifiedCount;
+  }
+
+  return migratedParcels;
+};
+
+// Link parcels priced before coupon ids were stored to the coupon they redeemed
+const migrateLegacyCouponIds = async (): Promise<number> => {
+  const parcelIds: Types.ObjectId[] = await Parcel.collection.distinct("_id", {
+    "pricing.couponCode": { $exists: true },
+    "pricing.couponId": { $exists: false },
+  });
+  if (!parcelIds.length) {
+    return 0;
+  }
+
+  // Released coupons are not recalculated, so only the redeemed ones are linked
+  const redemptions = await CouponRedemption.find({
+    parcel: { $in: parcelIds },
+    status: CouponRedemptionStatus.REDEEMED,
+  });
+  if (!redemptions.length) {
+    return 0;
+  }
+
+  const result = await Parcel.collection.bulkWrite(
+    redemptions.map((redemption) => ({
+      updateOne: {
+        filter: {
+          _id: new Types.ObjectId(redemption.parcel.toString()),
+          "pricing.couponId": { $exists: false },
+        },
+        update: {
+          $set: {
+            "pricing.couponId": new Types.ObjectId(
+              redemption.coupon.toString()
+            ),
+          },
+        },
+      },
+    }))
+  );
+
+  return result.modifiedCount;
+};
+
+// Assign an unassigned parcel to a rider, manually or automatically
+const saveRiderAssignment = async (
+  parcel: IParcel,
+  rider: IUser,
+  actorId: string,
+  note: string,
+  reason?: string,
+  isAutomatic = false
+): Promise<IParcel> => {
+  const routeOrder = await getNextRouteOrder(rider._id);
+
+  // Create status log entry for assignment
+  const statusLogEntry = {
+    status: parcel.currentStatus, // Keep current status
+    timestamp: new Date(),
+    updatedBy: new Types.ObjectId(actorId),
+    note,
+    ...(isAutomatic && { autoAssigned: true }),
+  };
+
+  const assignmentLogEntry = {
+    action: AssignmentAction.ASSIGNED,
+    rider: rider._id,
+    assignedBy: actorId,
+    reason,
+    isAutomatic,
+    timestamp: new Date(),
+  };
+
+  // Only assign if nobody assigned the parcel in the meantime
+  const updatedParcel = await Parcel.findOneAndUpdate(
+    { _id: parcel._id, deliveryPersonnel: null },
+    {
+      deliveryPersonnel: rider._id,
+      routeOrder,
+      $push: {
+        statusHistory: statusLogEntry,
+        assignmentHistory: assignmentLogEntry,
+      },
+      updatedAt: new Date(),
+    },
+    { new: true, runValidators: true }
+  )
+    .populate("sender", "name email phone")
+    .populate("deliveryPersonnel", riderFields);
+
+  if (!updatedParcel) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Parcel assignment changed while assigning, please retry"
+    );
+  }
+
+  return updatedParcel;
+};
+
+// Check that every piece of the parcel fits the rider's vehicle
+const fitsRiderVehicle = (parcel: IParcel, rider: IUser): boolean => {
+  const vehicle = rider.riderProfile?.vehicleInfo;
+
+  if (vehicle?.maxWeight && parcel.parcelDetails.weight > vehicle.maxWeight) {
+    return false;
+  }
+
+  if (!vehicle?.maxDimensions) {
+    return true;
+  }
+
+  const maxSides = Object.values(vehicle.maxDimensions).sort((a, b) => b - a);
+  const parcelDimensions = parcel.pieces.length
+    ? parcel.pieces.map((piece) => piece.dimensions)
+    : [parcel.parcelDetails.dimensions];
+
+  // Compare longest to longest side so the parcel may be turned to fit
+  return parcelDimensions.every((dimensions) => {
+    if (!dimensions) {
+      return true;
+    }
+    const sides = [dimensions.length, dimensions.width, dimensions.height].sort(
+      (a, b) => b - a
+    );
+    return sides.every((side, index) => side <= maxSides[index]);
+  });
+};
+
+// Rider picked for a parcel, or the note explaining why none was
+interface IAutoAssignment {
+  rider?: IUser;
+  note: string;
+}
+
+// Pick the least busy rider of the pickup zone for a parcel being approved, if the
+// zone allows it, before anything is saved
+const pickAutoAssignment = async (
+  parcel: IParcel
+): Promise<IAutoAssignment | null> => {
+  if (parcel.deliveryPersonnel || parcel.isBlocked || !parcel.pickupInfo) {
+    return null;
+  }
+
+  const zone = await ZoneService.findZoneForAddress(parcel.pickupInfo.address);
+
+  if (!zone?.autoAssignEnabled) {
+    return null;
+  }
+
+  const riders = await User.find({
+    role: "rider",
+    isBlocked: { $ne: true },
+    isDeleted: { $ne: true },
+    isActive: IsActive.ACTIVE,
+    "riderProfile.isActive": true,
+    "riderProfile.zones": zone._id,
+  });
+  const eligibleRiders = riders.filter((rider) =>
+    fitsRiderVehicle(parcel, rider)
+  );
+
+  if (!eligibleRiders.length) {
+    return {
+      note: `Automatic assignment skipped: no available rider in zone ${zone.code} can carry this parcel`,
+    };
+  }
+
+  // Current workload: parcels each rider still has to complete
+  const openParcelCounts = await Parcel.aggregate<{
+    _id: Types.ObjectId;
+    count: number;
+  }>([
+    {
+      $match: {
+        deliveryPersonnel: { $in: eligibleRiders.map((rider) => rider._id) },
+        currentStatus: { $nin: closedParcelStatuses },
+      },
+    },
+    { $group: { _id: "$deliveryPersonnel", count: { $sum: 1 } } },
+  ]);
+  const workload = new Map(
+    openParcelCounts.map((entry) => [entry._id.toString(), entry.count])
+  );
+
+  const [rider] = eligibleRiders.sort(
+    (a, b) =>
+      (workload.get(a._id.toString()) ?? 0) -
+      (workload.get(b._id.toString()) ?? 0)
+  );
+
+  return {
+    rider,
+    note: `Automatically assigned to rider ${rider.name} (zone ${zone.code})`,
+  };
+};
+
+// Save the automatic assignment picked for a parcel once it has been approved
+const autoAssignParcel = async (
+  parcel: IParcel,
+  assignment: IAutoAssignment,
+  actorId: string
+): Promise<IParcel | null> => {
+  if (!assignment.rider) {
+    // Leave the parcel for manual assignment, noting why
+    await Parcel.findByIdAndUpdate(parcel._id, {
+      $push: {
+        statusHistory: {
+          status: ParcelStatus.APPROVED,
+          timestamp: new Date(),
+          updatedBy: new Types.ObjectId(actorId),
+          note: assignment.note,
+        },
+      },
+    });
+    return null;
   }
 
-  // Handle deliveryInfo partial updates
-  if (updateData.deliveryInfo) {
-    Object.assign(
-      updateFields,
-      flattenObject(updateData.deliveryInfo, "deliveryInfo.")
+  try {
+    return await saveRiderAssignment(
+      parcel,
+      assignment.rider,
+      actorId,
+      assignment.note,
+      undefined,
+      true
     );
+  } catch (error) {
+    // An admin assigned the parcel first, which leaves nothing to do
+    if (
+      error instanceof AppError &&
+      error.statusCode === StatusCodes.CONFLICT
+    ) {
+      return null;
+    }
+    throw error;
   }
-
-  const updatedParcel = await Parcel.findByIdAndUpdate(
-    parcelId,
-    { $set: updateFields },
-    { new: true, runValidators: false }
-  ).populate("sender", "name email phone");
-  return updatedParcel as IParcel;
 };
 
-// Update parcel status (Admin only)
-const updateParcelStatus = async (
+// Assign a rider to a parcel (Admin only)
+const assignDeliveryPersonnel = async (
   parcelId: string,
-  adminId: string,
-  statusUpdate: IUpdateParcelStatus
+  riderId: string,
+  note: string | undefined,
+  adminId: string
 ): Promise<IParcel> => {
   const parcel = await Parcel.findById(parcelId);
 
@@ -406,51 +3247,39 @@ const updateParcelStatus = async (
     throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
   }
 
-  if (parcel.isBlocked) {
+  // Check if parcel is already assigned to delivery personnel
+  if (parcel.deliveryPersonnel) {
     throw new AppError(
       StatusCodes.BAD_REQUEST,
-      "Cannot update status of blocked parcel"
+      "Parcel is already assigned to delivery personnel"
     );
   }
 
-  // Validate status transition
-  const allowedNextStatuses = allowedTransitions[parcel.currentStatus];
-  if (!allowedNextStatuses.includes(statusUpdate.status)) {
+  // Check if parcel can be assigned (not delivered, cancelled, or returned)
+  if (closedParcelStatuses.includes(parcel.currentStatus)) {
     throw new AppError(
       StatusCodes.BAD_REQUEST,
-      `Cannot transition from ${parcel.currentStatus} to ${statusUpdate.status}`
+      "Cannot assign delivery personnel to parcels that are delivered, cancelled, or returned"
     );
   }
 
-  // Add status log entry
-  const statusLogEntry = {
-    status: statusUpdate.status,
-    timestamp: new Date(),
-    updatedBy: new Types.ObjectId(adminId),
-    location: statusUpdate.location,
-    note: statusUpdate.note,
-  };
+  const rider = await getAssignableRider(riderId);
 
-  const updatedParcel = await Parcel.findByIdAndUpdate(
-    parcelId,
-    {
-      currentStatus: statusUpdate.status,
-      $push: { statusHistory: statusLogEntry },
-      updatedAt: new Date(),
-      ...(statusUpdate.status === ParcelStatus.CANCELLED && {
-        isCancelled: true,
-      }),
-    },
-    { new: true, runValidators: true }
-  ).populate("sender", "name email phone");
-  return updatedParcel as IParcel;
+  return saveRiderAssignment(
+    parcel,
+    rider,
+    adminId,
+    note || `Assigned to rider ${rider.name}`,
+    note
+  );
 };
 
-// Cancel parcel (Sender only, if not dispatched)
-const cancelParcel = async (
+// Move an assigned parcel to another rider (Admin only)
+const reassignDeliveryPersonnel = async (
   parcelId: string,
-  senderId: string,
-  reason?: string
+  riderId: string,
+  reason: string,
+  adminId: string
 ): Promise<IParcel> => {
   const parcel = await Parcel.findById(parcelId);
 
@@ -458,56 +3287,80 @@ const cancelParcel = async (
     throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
   }
 
-  // Check if user is the sender
-  if (parcel.sender.toString() !== senderId) {
+  if (!parcel.deliveryPersonnel) {
     throw new AppError(
-      StatusCodes.FORBIDDEN,
-      "You can only cancel your own parcels"
+      StatusCodes.BAD_REQUEST,
+      "Parcel is not assigned to delivery personnel, assign it instead"
     );
   }
 
-  // Check if parcel can be cancelled
-  if (
-    ![ParcelStatus.REQUESTED, ParcelStatus.APPROVED].includes(
-      parcel.currentStatus
-    )
-  ) {
+  if (closedParcelStatuses.includes(parcel.currentStatus)) {
     throw new AppError(
       StatusCodes.BAD_REQUEST,
-      "Cannot cancel parcel after it has been dispatched"
+      `Cannot reassign a parcel that is ${parcel.currentStatus}`
     );
   }
 
-  if (parcel.isCancelled) {
-    throw new AppError(StatusCodes.BAD_REQUEST, "Parcel is already cancelled");
+  const previousRider = parcel.deliveryPersonnel;
+
+  if (previousRider.toString() === riderId) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Parcel is already assigned to this rider"
+    );
   }
 
-  // Add cancellation status log
+  const rider = await getAssignableRider(riderId);
+  const routeOrder = await getNextRouteOrder(riderId);
+
   const statusLogEntry = {
-    status: ParcelStatus.CANCELLED,
+    status: parcel.currentStatus, // Keep current status
     timestamp: new Date(),
-    updatedBy: new Types.ObjectId(senderId),
-    note: reason || "Cancelled by sender",
+    updatedBy: new Types.ObjectId(adminId),
+    note: `Reassigned to rider ${rider.name}: ${reason}`,
   };
 
-  const updatedParcel = await Parcel.findByIdAndUpdate(
-    parcelId,
+  const assignmentLogEntry = {
+    action: AssignmentAction.REASSIGNED,
+    rider: rider._id,
+    previousRider,
+    assignedBy: adminId,
+    reason,
+    timestamp: new Date(),
+  };
+
+  // Only reassign if the parcel is still with the rider we read
+  const updatedParcel = await Parcel.findOneAndUpdate(
+    { _id: parcelId, deliveryPersonnel: previousRider },
     {
-      currentStatus: ParcelStatus.CANCELLED,
-      isCancelled: true,
-      $push: { statusHistory: statusLogEntry },
+      deliveryPersonnel: rider._id,
+      routeOrder,
+      $push: {
+        statusHistory: statusLogEntry,
+        assignmentHistory: assignmentLogEntry,
+      },
       updatedAt: new Date(),
     },
     { new: true, runValidators: true }
-  ).populate("sender", "name email phone");
-  return updatedParcel as IParcel;
+  )
+    .populate("sender", "name email phone")
+    .populate("deliveryPersonnel", riderFields);
+
+  if (!updatedParcel) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Parcel assignment changed while reassigning, please retry"
+    );
+  }
+
+  return updatedParcel;
 };
 
-// Confirm delivery (Receiver only)
-const confirmDelivery = async (
+// Remove the rider from a parcel (Admin only)
+const unassignDeliveryPersonnel = async (
   parcelId: string,
-  receiverEmail: string,
-  note?: string
+  reason: string,
+  adminId: string
 ): Promise<IParcel> => {
   const parcel = await Parcel.findById(parcelId);
 
@@ -515,141 +3368,172 @@ const confirmDelivery = async (
     throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
   }
 
-  // Check if user is the receiver
-  if (parcel.receiver.email !== receiverEmail) {
+  if (!parcel.deliveryPersonnel) {
     throw new AppError(
-      StatusCodes.FORBIDDEN,
-      "You can only confirm delivery for parcels addressed to you"
+      StatusCodes.BAD_REQUEST,
+      "Parcel is not assigned to delivery personnel"
     );
   }
 
-  if (parcel.currentStatus !== ParcelStatus.OUT_FOR_DELIVERY) {
+  if (parcel.currentStatus === ParcelStatus.DELIVERED) {
     throw new AppError(
       StatusCodes.BAD_REQUEST,
-      "Parcel must be out for delivery to confirm delivery"
+      "Cannot unassign the rider of a delivered parcel"
     );
   }
 
-  // Find if receiver is a registered user, otherwise use a placeholder ObjectId
-  let updatedById: Types.ObjectId;
-  const receiverUser = await User.findOne({ email: receiverEmail });
-
-  if (receiverUser) {
-    updatedById = new Types.ObjectId(receiverUser._id);
-  } else {
-    // Use a default ObjectId for non-registered receivers (we'll create a note to identify)
-    // This represents the system handling delivery confirmation for non-registered users
-    updatedById = new Types.ObjectId("000000000000000000000000"); // System placeholder
-  }
+  const previousRider = parcel.deliveryPersonnel;
 
-  // Add delivery confirmation status log
   const statusLogEntry = {
-    status: ParcelStatus.DELIVERED,
+    status: parcel.currentStatus, // Keep current status
     timestamp: new Date(),
-    updatedBy: updatedById,
-    note: receiverUser
-      ? note || "Delivery confirmed by receiver"
-      : `Delivery confirmed by non-registered receiver: ${receiverEmail}${note ? ` - ${note}` : ""}`,
+    updatedBy: new Types.ObjectId(adminId),
+    note: `Delivery personnel unassigned: ${reason}`,
   };
 
-  const updatedParcel = await Parcel.findByIdAndUpdate(
-    parcelId,
-    {
-      currentStatus: ParcelStatus.DELIVERED,
-      $push: { statusHistory: statusLogEntry },
-      updatedAt: new Date(),
-    },
-    { new: true, runValidators: true }
-  ).populate("sender", "name email phone");
-  return updatedParcel as IParcel;
-};
-
-// Block/unblock parcel (Admin only)
-const blockParcel = async (
-  parcelId: string,
-  adminId: string,
-  isBlocked: boolean,
-  reason?: string
-): Promise<IParcel> => {
-  const parcel = await Parcel.findById(parcelId);
-
-  if (!parcel) {
-    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
-  }
-
-  const action = isBlocked ? "blocked" : "unblocked";
-  const statusLogEntry = {
-    status: parcel.currentStatus,
+  const assignmentLogEntry = {
+    action: AssignmentAction.UNASSIGNED,
+    previousRider,
+    assignedBy: adminId,
+    reason,
     timestamp: new Date(),
-    updatedBy: new Types.ObjectId(adminId),
-    note: `Parcel ${action} by admin${reason ? `: ${reason}` : ""}`,
   };
 
-  const updatedParcel = await Parcel.findByIdAndUpdate(
-    parcelId,
+  const updatedParcel = await Parcel.findOneAndUpdate(
+    { _id: parcelId, deliveryPersonnel: previousRider },
     {
-      isBlocked,
-      $push: { statusHistory: statusLogEntry },
+      $unset: { deliveryPersonnel: 1, routeOrder: 1 },
+      $push: {
+        statusHistory: statusLogEntry,
+        assignmentHistory: assignmentLogEntry,
+      },
       updatedAt: new Date(),
     },
     { new: true, runValidators: true }
   ).populate("sender", "name email phone");
-  return updatedParcel as IParcel;
-};
-
-// Assign delivery personnel (Admin only)
-const assignDeliveryPersonnel = async (
-  parcelId: string,
-  deliveryPersonnelInfo: IDeliveryPersonnel,
-  note: string | undefined,
-  adminId: string
-): Promise<IParcel> => {
-  const parcel = await Parcel.findById(parcelId);
-
-  if (!parcel) {
-    throw new AppError(StatusCodes.NOT_FOUND, "Parcel not found");
-  }
 
-  // Check if parcel is already assigned to delivery personnel
-  if (parcel.deliveryPersonnel) {
+  if (!updatedParcel) {
     throw new AppError(
-      StatusCodes.BAD_REQUEST,
-      "Parcel is already assigned to delivery personnel"
+      StatusCodes.CONFLICT,
+      "Parcel assignment changed while unassigning, please retry"
     );
   }
 
-  // Check if parcel can be assigned (not delivered, cancelled, or returned)
-  if (
-    [ParcelStatus.DELIVERED, ParcelStatus.CANCELLED, ParcelStatus.RETURNED].includes(
-      parcel.currentStatus
-    )
-  ) {
-    throw new AppError(
-      StatusCodes.BAD_REQUEST,
-      "Cannot assign delivery personnel to parcels that are delivered, cancelled, or returned"
+  return updatedParcel;
+};
+
+// Apply an admin operation to each referenced parcel, collecting a per-item report
+const runBulkParcelOperation = async (
+  references: string[],
+  operation: (parcelId: string) => Promise<IParcel>
+): Promise<IBulkParcelOperationReport> => {
+  const uniqueReferences = [...new Set(references)];
+  const parcelIds = uniqueReferences.filter((reference) =>
+    /^[0-9a-fA-F]{24}$/.test(reference)
+  );
+
+  const parcels = await Parcel.find({
+    $or: [
+      { _id: { $in: parcelIds } },
+      { trackingId: { $in: uniqueReferences } },
+    ],
+  }).select("_id trackingId");
+
+  const results: IBulkParcelOperationResult[] = [];
+
+  // Items are applied one by one so a failing parcel does not abort the batch
+  for (const reference of uniqueReferences) {
+    const match = parcels.find(
+      (parcel) =>
+        parcel._id.toString() === reference || parcel.trackingId === reference
     );
+
+    if (!match) {
+      results.push({ reference, success: false, error: "Parcel not found" });
+      continue;
+    }
+
+    const parcelId = match._id.toString();
+
+    try {
+      const updatedParcel = await operation(parcelId);
+      results.push({
+        reference,
+        success: true,
+        parcelId,
+        trackingId: match.trackingId,
+        currentStatus: updatedParcel.currentStatus,
+      });
+    } catch (error) {
+      results.push({
+        reference,
+        success: false,
+        parcelId,
+        trackingId: match.trackingId,
+        error: (error as Error).message,
+      });
+    }
   }
 
-  // Create status log entry for assignment
-  const statusLogEntry = {
-    status: parcel.currentStatus, // Keep current status
-    timestamp: new Date(),
-    updatedBy: new Types.ObjectId(adminId),
-    note: note || "Delivery personnel assigned",
+  const succeeded = results.filter((result) => result.success).length;
+
+  return {
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
   };
+};
 
-  // Update parcel with delivery personnel and status history
-  const updatedParcel = await Parcel.findByIdAndUpdate(
-    parcelId,
-    {
-      deliveryPersonnel: deliveryPersonnelInfo,
-      $push: { statusHistory: statusLogEntry },
-      updatedAt: new Date(),
-    },
-    { new: true, runValidators: true }
-  ).populate("sender", "name email phone");
+// Update the status of many parcels at once (Admin only)
+const bulkUpdateParcelStatus = async (
+  references: string[],
+  adminId: string,
+  statusUpdate: IUpdateParcelStatus
+): Promise<IBulkParcelOperationReport> => {
+  return runBulkParcelOperation(references, (parcelId) =>
+    updateParcelStatus(parcelId, adminId, "admin", statusUpdate)
+  );
+};
 
-  return updatedParcel as IParcel;
+// Block or unblock many parcels at once (Admin only)
+const bulkBlockParcels = async (
+  references: string[],
+  adminId: string,
+  isBlocked: boolean,
+  reason?: string
+): Promise<IBulkParcelOperationReport> => {
+  return runBulkParcelOperation(references, (parcelId) =>
+    blockParcel(parcelId, adminId, isBlocked, reason)
+  );
+};
+
+// Assign the same delivery personnel to many parcels at once (Admin only)
+const bulkAssignDeliveryPersonnel = async (
+  references: string[],
+  riderId: string,
+  note: string | undefined,
+  adminId: string
+): Promise<IBulkParcelOperationReport> => {
+  // Reject an unknown or inactive rider once instead of on every parcel
+  await getAssignableRider(riderId);
+
+  return runBulkParcelOperation(references, (parcelId) =>
+    assignDeliveryPersonnel(parcelId, riderId, note, adminId)
+  );
+};
+
+// Scan many parcels in or out of a hub at once (Admin only)
+const scanParcelsAtHub = async (
+  hubScan: IHubScanEvent,
+  adminId: string,
+  scan: IHubScan
+): Promise<IBulkParcelOperationReport> => {
+  const { parcels, ...scanDetails } = scan;
+
+  return runBulkParcelOperation(parcels, (parcelId) =>
+    scanParcelAtHub(parcelId, adminId, hubScan, scanDetails)
+  );
 };
 
 // Delete parcel (Admin only)
@@ -661,6 +3545,15 @@ const deleteParcel = async (parcelId: string): Promise<void> => {
   }
 
   await Parcel.findByIdAndDelete(parcelId);
+
+  // Free what the parcel held, as cancelling it would
+  const releasedSlot = getReleasedPickupSlot(parcel, ParcelStatus.CANCELLED);
+  if (releasedSlot) {
+    await PickupSlotService.releasePickupSlot(releasedSlot);
+  }
+
+  await InvoiceService.removeParcel(parcel);
+  await CouponService.releaseRedemption(parcel._id);
 };
 
 // Get parcel statistics (Admin only)
@@ -680,10 +3573,11 @@ const getParcelStats = async (): Promise<IParcelStats> => {
     },
   ]);
 
-  // Initialize status breakdown with all statuses
-  const statusBreakdown = {
+  // Initialize status breakdown with all built-in statuses
+  const statusBreakdown: IParcelStats["statusBreakdown"] = {
     requested: 0,
     approved: 0,
+    pickup_scheduled: 0,
     picked_up: 0,
     in_transit: 0,
     out_for_delivery: 0,
@@ -691,20 +3585,19 @@ const getParcelStats = async (): Promise<IParcelStats> => {
     cancelled: 0,
     returned: 0,
     failed_delivery: 0,
+    partially_delivered: 0,
   };
 
-  // Populate status breakdown from database results
+  // Populate status breakdown from database results (custom workflow statuses included)
   statusStats.forEach((stat) => {
-    if (stat._id in statusBreakdown) {
-      statusBreakdown[stat._id as keyof typeof statusBreakdown] = stat.count;
-    }
+    statusBreakdown[stat._id] = stat.count;
   });
 
   // Calculate derived counts
   const totalParcels = Object.values(statusBreakdown).reduce((sum, count) => sum + count, 0);
   const deliveredParcels = statusBreakdown.delivered;
-  const inTransitParcels = statusBreakdown.in_transit + statusBreakdown.out_for_delivery + statusBreakdown.picked_up;
-  const pendingParcels = statusBreakdown.requested + statusBreakdown.approved;
+  const inTransitParcels = statusBreakdown.in_transit + statusBreakdown.out_for_delivery + statusBreakdown.picked_up + statusBreakdown.partially_delivered;
+  const pendingParcels = statusBreakdown.requested + statusBreakdown.approved + statusBreakdown.pickup_scheduled;
   const cancelledParcels = statusBreakdown.cancelled + statusBreakdown.returned + statusBreakdown.failed_delivery;
 
   // Calculate revenue for current month
@@ -722,11 +3615,13 @@ const getParcelStats = async (): Promise<IParcelStats> => {
       $group: {
         _id: null,
         totalRevenue: { $sum: "$pricing.totalFee" },
+        totalTax: { $sum: "$pricing.taxTotal" },
       },
     },
   ]);
 
   const revenueThisMonth = monthlyRevenue[0]?.totalRevenue || 0;
+  const taxThisMonth = monthlyRevenue[0]?.totalTax || 0;
 
   // Calculate average delivery time
   const deliveryTimeStats = await Parcel.aggregate([
@@ -753,6 +3648,37 @@ const getParcelStats = async (): Promise<IParcelStats> => {
     },
   ]);
 
+  // Failed delivery attempts by reason
+  const attemptStats = await Parcel.aggregate([
+    { $unwind: "$deliveryAttempts" },
+    {
+      $group: {
+        _id: "$deliveryAttempts.reason",
+        count: { $sum: 1 },
+        parcels: { $addToSet: "$_id" },
+      },
+    },
+  ]);
+
+  const byReason = Object.values(DeliveryFailureReason).reduce(
+    (breakdown, reason) => ({ ...breakdown, [reason]: 0 }),
+    {} as Record<DeliveryFailureReason, number>
+  );
+  attemptStats.forEach((stat) => {
+    byReason[stat._id as DeliveryFailureReason] = stat.count;
+  });
+
+  const totalFailedAttempts = Object.values(byReason).reduce(
+    (sum, count) => sum + count,
+    0
+  );
+  const parcelsWithFailedAttempts = await Parcel.countDocuments({
+    deliveryAttemptCount: { $gt: 0 },
+  });
+  const autoReturnedParcels = await Parcel.countDocuments({
+    autoReturnedAt: { $exists: true },
+  });
+
   const avgDeliveryDays = deliveryTimeStats[0]?.averageDeliveryDays || 0;
   const averageDeliveryTime = avgDeliveryDays > 0 ? `${avgDeliveryDays.toFixed(1)} days` : "N/A";
 
@@ -764,7 +3690,16 @@ const getParcelStats = async (): Promise<IParcelStats> => {
     cancelledParcels,
     averageDeliveryTime,
     revenueThisMonth,
+    taxThisMonth,
+    netRevenueThisMonth:
+      Math.round((revenueThisMonth - taxThisMonth) * 100) / 100,
     statusBreakdown,
+    deliveryAttempts: {
+      totalFailedAttempts,
+      parcelsWithFailedAttempts,
+      autoReturnedParcels,
+      byReason,
+    },
   };
 };
 
@@ -816,6 +3751,10 @@ const getUserNotifications = async (
       notificationType = "warning";
       title = "Delivery Failed";
       message = `Delivery of parcel ${parcel.trackingId} has failed`;
+    } else if (parcel.currentStatus === ParcelStatus.PARTIALLY_DELIVERED) {
+      notificationType = "info";
+      title = "Parcel Partially Delivered";
+      message = `Some pieces of your parcel ${parcel.trackingId} have been delivered`;
     } else if (parcel.currentStatus === ParcelStatus.IN_TRANSIT) {
       notificationType = "info";
       title = "Parcel In Transit";
@@ -834,6 +3773,16 @@ const getUserNotifications = async (
       message += `. Note: ${latestStatus.note}`;
     }
 
+    // Open parcels carry their delivery estimate
+    const estimatedDeliveryDate = closedParcelStatuses.includes(
+      parcel.currentStatus
+    )
+      ? undefined
+      : parcel.estimatedDeliveryDate;
+    if (estimatedDeliveryDate) {
+      message += `. Estimated delivery: ${estimatedDeliveryDate.toISOString().slice(0, 10)}`;
+    }
+
     return {
       id: parcel._id.toString(),
       parcelId: parcel._id.toString(),
@@ -847,6 +3796,7 @@ const getUserNotifications = async (
       location: latestStatus?.location,
       note: latestStatus?.note,
       updatedBy: latestStatus?.updatedBy,
+      estimatedDeliveryDate,
     };
   });
 
@@ -857,18 +3807,38 @@ const getUserNotifications = async (
 };
 
 export const ParcelService = {
+  migrateLegacyDeliveryPersonnel,
+  migrateLegacyPickupInfo,
+  migrateLegacyCouponIds,
+  getQuote,
   createParcel,
+  bulkCreateParcels,
   getParcelById,
   trackParcelByTrackingId,
   getAllParcels,
   getSenderParcels,
   getReceiverParcels,
+  getRiderParcels,
+  updateRiderRouteOrder,
+  updateRiderParcelStatus,
   updateParcel,
   updateParcelStatus,
+  updatePieceStatus,
+  schedulePickup,
   cancelParcel,
   confirmDelivery,
+  verifyDeliveryOtp,
+  resendDeliveryOtp,
+  getProofAttachment,
+  createReturnShipmentForParcel,
   blockParcel,
   assignDeliveryPersonnel,
+  reassignDeliveryPersonnel,
+  unassignDeliveryPersonnel,
+  bulkUpdateParcelStatus,
+  bulkBlockParcels,
+  bulkAssignDeliveryPersonnel,
+  scanParcelsAtHub,
   deleteParcel,
   getParcelStats,
   getUserNotifications,
@@ -1,5 +1,17 @@
 import { z } from "zod";
-import { ParcelStatus } from "./parcel.interface";
+import { couponCodeSchema } from "../coupon/coupon.validation";
+import {
+  DeliveryFailureReason,
+  ParcelStatus,
+  PaymentStatus,
+} from "./parcel.interface";
+
+// Parcel statuses come from the configurable workflow, so only the format is checked here
+const statusSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z][a-z0-9_]*$/, "Invalid parcel status");
 
 // Address validation schema
 const addressSchema = z.object({
@@ -52,6 +64,50 @@ const parcelDetailsSchema = z.object({
   value: z.number().min(0, "Value cannot be negative").optional(),
 });
 
+// Pickup window validation schema
+const pickupWindowSchema = z
+  .object({
+    start: z.coerce.date().refine((date) => date > new Date(), {
+      message: "Pickup window must be in the future",
+    }),
+    end: z.coerce.date(),
+  })
+  .refine((window) => window.end > window.start, {
+    message: "Pickup window end must be after its start",
+    path: ["end"],
+  });
+
+// Pickup info validation schema (address defaults to the sender's saved address)
+const pickupInfoSchema = z.object({
+  address: addressSchema.optional(),
+  contactName: z
+    .string()
+    .trim()
+    .min(2, "Contact name must be at least 2 characters")
+    .max(50, "Contact name cannot exceed 50 characters")
+    .optional(),
+  contactPhone: z
+    .string()
+    .trim()
+    .regex(/^\+?[\d\s\-()]+$/, "Invalid phone number format")
+    .optional(),
+  window: pickupWindowSchema.optional(),
+});
+
+// Piece validation schema (multi-piece shipments)
+const pieceSchema = z.object({
+  weight: z
+    .number()
+    .min(0.1, "Weight must be at least 0.1 kg")
+    .max(50, "Weight cannot exceed 50 kg"),
+  dimensions: dimensionsSchema,
+  description: z
+    .string()
+    .trim()
+    .max(200, "Piece description cannot exceed 200 characters")
+    .optional(),
+});
+
 // Delivery info validation schema
 const deliveryInfoSchema = z.object({
   preferredDeliveryDate: z.coerce
@@ -72,12 +128,66 @@ const deliveryInfoSchema = z.object({
     .default("standard"),
 });
 
+// Cash to collect from the receiver, 0 means no cash on delivery
+const codAmountSchema = z
+  .number()
+  .min(0, "Cash-on-delivery amount cannot be negative")
+  .max(1000000, "Cash-on-delivery amount cannot exceed 1,000,000");
+
 // Create parcel validation
 export const createParcelValidation = z.object({
+  body: z
+    .object({
+      receiver: receiverSchema,
+      pickupInfo: pickupInfoSchema.optional(),
+      // Weight is derived from the pieces for multi-piece shipments
+      parcelDetails: parcelDetailsSchema.extend({
+        weight: parcelDetailsSchema.shape.weight.optional(),
+      }),
+      deliveryInfo: deliveryInfoSchema,
+      pieces: z
+        .array(pieceSchema)
+        .min(1, "At least one piece is required")
+        .max(50, "A shipment cannot have more than 50 pieces")
+        .optional(),
+      codAmount: codAmountSchema.optional(),
+      couponCode: couponCodeSchema.optional(),
+      insured: z.boolean().optional(),
+      quoteToken: z
+        .string()
+        .trim()
+        .min(1, "Quote token is required")
+        .optional(),
+    })
+    .refine(
+      (body) => body.pieces?.length || body.parcelDetails.weight !== undefined,
+      {
+        message: "Weight is required",
+        path: ["parcelDetails", "weight"],
+      }
+    ),
+});
+
+// Parcel quote validation (addresses only need what zone matching uses)
+export const quoteParcelValidation = z.object({
   body: z.object({
-    receiver: receiverSchema,
-    parcelDetails: parcelDetailsSchema,
-    deliveryInfo: deliveryInfoSchema,
+    parcelDetails: parcelDetailsSchema.pick({
+      type: true,
+      weight: true,
+      dimensions: true,
+    }),
+    deliveryInfo: deliveryInfoSchema.pick({ urgency: true }),
+    origin: addressSchema.omit({ street: true }),
+    destination: addressSchema.omit({ street: true }),
+  }),
+});
+
+// Bulk parcel import validation (CSV rows are validated with createParcelValidation)
+export const bulkCreateParcelValidation = z.object({
+  query: z.object({
+    dryRun: z
+      .enum(["true", "false"], { message: "dryRun must be true or false" })
+      .optional(),
   }),
 });
 
@@ -85,18 +195,106 @@ export const createParcelValidation = z.object({
 export const updateParcelValidation = z.object({
   body: z.object({
     receiver: receiverSchema.partial().optional(),
+    pickupInfo: pickupInfoSchema
+      .extend({ address: addressSchema.partial().optional() })
+      .optional(),
     parcelDetails: parcelDetailsSchema.partial().optional(),
     deliveryInfo: deliveryInfoSchema.partial().optional(),
+    codAmount: codAmountSchema.optional(),
+    couponCode: z.union([couponCodeSchema, z.literal("")]).optional(),
+    insured: z.boolean().optional(),
   }),
 });
 
+// Status update fields shared by single and bulk status updates
+const statusUpdateSchema = z.object({
+  status: statusSchema,
+  location: z.string().trim().optional(),
+  note: z
+    .string()
+    .trim()
+    .max(500, "Note cannot exceed 500 characters")
+    .optional(),
+  failureReason: z
+    .nativeEnum(DeliveryFailureReason, {
+      message: "Invalid delivery failure reason",
+    })
+    .optional(),
+});
+
+// Failed deliveries must carry a reason code
+const hasFailureReason = (body: z.infer<typeof statusUpdateSchema>) =>
+  body.status !== ParcelStatus.FAILED_DELIVERY || !!body.failureReason;
+
+const failureReasonRequired = {
+  message: "Failure reason is required for failed deliveries",
+  path: ["failureReason"],
+};
+
 // Update parcel status validation
 export const updateParcelStatusValidation = z.object({
-  body: z.object({
-    status: z.nativeEnum(ParcelStatus, {
-      message: "Invalid parcel status",
+  body: statusUpdateSchema.refine(hasFailureReason, failureReasonRequired),
+});
+
+// Statuses a rider can set on an assigned parcel
+const riderStatuses = [
+  ParcelStatus.PICKED_UP,
+  ParcelStatus.IN_TRANSIT,
+  ParcelStatus.OUT_FOR_DELIVERY,
+  ParcelStatus.DELIVERED,
+  ParcelStatus.FAILED_DELIVERY,
+] as const;
+
+// Rider status update validation
+export const riderStatusUpdateValidation = z.object({
+  body: statusUpdateSchema
+    .extend({
+      status: z.enum(riderStatuses, {
+        message: `Status must be one of ${riderStatuses.join(", ")}`,
+      }),
+      otp: z
+        .string()
+        .trim()
+        .regex(/^\d{6}$/, "Delivery code must be 6 digits")
+        .optional(),
+      codCollected: z.boolean().optional(),
+    })
+    .refine(hasFailureReason, failureReasonRequired)
+    .refine((body) => body.status !== ParcelStatus.DELIVERED || !!body.otp, {
+      message: "Delivery code is required to mark a parcel delivered",
+      path: ["otp"],
     }),
-    location: z.string().trim().optional(),
+});
+
+// Rider route order validation
+export const riderRouteOrderValidation = z.object({
+  body: z.object({
+    parcels: z
+      .array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid parcel ID format"))
+      .min(1, "At least one parcel is required")
+      .max(500, "Cannot reorder more than 500 parcels at once")
+      .refine((ids) => new Set(ids).size === ids.length, {
+        message: "Each parcel can only be listed once",
+      }),
+  }),
+});
+
+// Schedule pickup validation
+export const schedulePickupValidation = z.object({
+  body: z.object({
+    slotId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid pickup slot ID format"),
+  }),
+});
+
+// Confirm delivery validation
+export const confirmDeliveryValidation = z.object({
+  body: z.object({
+    otp: z
+      .string()
+      .trim()
+      .regex(/^\d{6}$/, "Delivery code must be 6 digits"),
     note: z
       .string()
       .trim()
@@ -105,9 +303,13 @@ export const updateParcelStatusValidation = z.object({
   }),
 });
 
-// Confirm delivery validation
-export const confirmDeliveryValidation = z.object({
+// Verify delivery OTP validation
+export const verifyDeliveryOtpValidation = z.object({
   body: z.object({
+    otp: z
+      .string()
+      .trim()
+      .regex(/^\d{6}$/, "Delivery code must be 6 digits"),
     note: z
       .string()
       .trim()
@@ -124,11 +326,12 @@ export const getParcelQueryValidation = z.object({
     sort: z.string().optional(),
     fields: z.string().optional(),
     searchTerm: z.string().trim().optional(),
-    status: z.nativeEnum(ParcelStatus).optional(),
+    status: statusSchema.optional(),
     sender: z.string().trim().optional(),
     receiverEmail: z.string().email().optional(),
     trackingId: z.string().trim().optional(),
     urgency: z.enum(["standard", "express", "urgent"]).optional(),
+    paymentStatus: z.nativeEnum(PaymentStatus).optional(),
     startDate: z.string().pipe(z.coerce.date()).optional(),
     endDate: z.string().pipe(z.coerce.date()).optional(),
   }),
@@ -140,7 +343,26 @@ export const trackParcelValidation = z.object({
     trackingId: z
       .string()
       .trim()
-      .regex(/^TRK-\d{8}-\d{6}$/, "Invalid tracking ID format"),
+      .regex(/^TRK-\d{8}-\d{6}(-P\d{2})?$/, "Invalid tracking ID format"),
+  }),
+});
+
+// Update piece status validation (per-piece scan)
+export const updatePieceStatusValidation = z.object({
+  params: z.object({
+    pieceId: z
+      .string()
+      .trim()
+      .regex(/^TRK-\d{8}-\d{6}-P\d{2}$/, "Invalid piece ID format"),
+  }),
+  body: z.object({
+    status: statusSchema,
+    location: z.string().trim().optional(),
+    note: z
+      .string()
+      .trim()
+      .max(500, "Note cannot exceed 500 characters")
+      .optional(),
   }),
 });
 
@@ -151,29 +373,48 @@ export const parcelIdValidation = z.object({
   }),
 });
 
+// Proof attachment validation
+export const proofAttachmentValidation = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid parcel ID format"),
+    attachmentId: z
+      .string()
+      .regex(/^[0-9a-fA-F]{24}$/, "Invalid attachment ID format"),
+  }),
+});
+
+// Rider reference validation schema
+const riderIdSchema = z
+  .string()
+  .trim()
+  .regex(/^[0-9a-fA-F]{24}$/, "Invalid rider ID format");
+
+// Reassignment and unassignment must say why
+const assignmentReasonSchema = z
+  .string()
+  .trim()
+  .min(1, "Reason is required")
+  .max(500, "Reason cannot exceed 500 characters");
+
+// Reassign delivery personnel validation
+export const reassignDeliveryPersonnelValidation = z.object({
+  body: z.object({
+    riderId: riderIdSchema,
+    reason: assignmentReasonSchema,
+  }),
+});
+
+// Unassign delivery personnel validation
+export const unassignDeliveryPersonnelValidation = z.object({
+  body: z.object({
+    reason: assignmentReasonSchema,
+  }),
+});
+
 // Assign delivery personnel validation
 export const assignDeliveryPersonnelValidation = z.object({
   body: z.object({
-    deliveryPersonnel: z.object({
-      name: z
-        .string()
-        .trim()
-        .min(2, "Name must be at least 2 characters long"),
-      email: z
-        .string()
-        .trim()
-        .email("Please enter a valid email address")
-        .toLowerCase(),
-      phone: z
-        .string()
-        .trim()
-        .regex(/^\+?[\d\s\-()]+$/, "Please enter a valid phone number"),
-      employeeId: z.string().trim().optional(),
-      vehicleInfo: z.object({
-        type: z.string().trim().min(1, "Vehicle type is required"),
-        plateNumber: z.string().trim().min(1, "Plate number is required"),
-      }).optional(),
-    }),
+    riderId: riderIdSchema,
     note: z
       .string()
       .trim()
@@ -182,6 +423,13 @@ export const assignDeliveryPersonnelValidation = z.object({
   }),
 });
 
+// Create return shipment validation
+export const createReturnShipmentValidation = z.object({
+  body: z.object({
+    receiver: receiverSchema.optional(),
+  }),
+});
+
 // Block/unblock parcel validation
 export const blockParcelValidation = z.object({
   body: z.object({
@@ -193,3 +441,50 @@ export const blockParcelValidation = z.object({
       .optional(),
   }),
 });
+
+// Parcels targeted by a bulk operation, by parcel ID or tracking ID
+const parcelReferencesSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .regex(
+        /^([0-9a-fA-F]{24}|TRK-\d{8}-\d{6})$/,
+        "Each parcel must be a parcel ID or tracking ID"
+      )
+  )
+  .min(1, "At least one parcel is required")
+  .max(500, "Cannot update more than 500 parcels at once");
+
+// Bulk update parcel status validation
+export const bulkUpdateParcelStatusValidation = z.object({
+  body: statusUpdateSchema
+    .extend({ parcels: parcelReferencesSchema })
+    .refine(hasFailureReason, failureReasonRequired),
+});
+
+// Bulk block/unblock parcels validation
+export const bulkBlockParcelValidation = z.object({
+  body: z.object({
+    parcels: parcelReferencesSchema,
+    isBlocked: z.boolean(),
+    reason: z
+      .string()
+      .trim()
+      .max(500, "Reason cannot exceed 500 characters")
+      .optional(),
+  }),
+});
+
+// Bulk assign delivery personnel validation
+export const bulkAssignDeliveryPersonnelValidation = z.object({
+  body: z.object({
+    parcels: parcelReferencesSchema,
+    riderId: riderIdSchema,
+    note: z
+      .string()
+      .trim()
+      .max(500, "Note cannot exceed 500 characters")
+      .optional(),
+  }),
+});
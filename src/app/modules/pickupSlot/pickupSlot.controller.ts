@@ -0,0 +1,96 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { IPickupSlotFilters } from "./pickupSlot.interface";
+import { PickupSlotService } from "./pickupSlot.service";
+
+// Get pickup slots (Admin or Sender)
+const getPickupSlots = catchAsync(async (req: Request, res: Response) => {
+  const userRole = req.user?.role;
+
+  if (!userRole) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await PickupSlotService.getPickupSlots(
+    req.query as IPickupSlotFilters,
+    userRole
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Pickup slots retrieved successfully",
+    data: result,
+  });
+});
+
+// Get pickup slot by ID (Admin or Sender)
+const getPickupSlotById = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await PickupSlotService.getPickupSlotById(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Pickup slot retrieved successfully",
+    data: result,
+  });
+});
+
+// Create pickup slot (Admin only)
+const createPickupSlot = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await PickupSlotService.createPickupSlot(adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: "Pickup slot created successfully",
+    data: result,
+  });
+});
+
+// Update pickup slot (Admin only)
+const updatePickupSlot = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await PickupSlotService.updatePickupSlot(id, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Pickup slot updated successfully",
+    data: result,
+  });
+});
+
+// Delete pickup slot (Admin only)
+const deletePickupSlot = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  await PickupSlotService.deletePickupSlot(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Pickup slot deleted successfully",
+    data: null,
+  });
+});
+
+export const PickupSlotController = {
+  getPickupSlots,
+  getPickupSlotById,
+  createPickupSlot,
+  updatePickupSlot,
+  deletePickupSlot,
+};
@@ -0,0 +1,37 @@
+import { ObjectId } from "mongoose";
+
+export interface IPickupSlot {
+  _id: ObjectId;
+  date: Date; // Day of the slot (midnight UTC)
+  startTime: string; // HH:mm (UTC)
+  endTime: string; // HH:mm (UTC)
+  capacity: number; // Pickups that can be booked into the slot
+  bookedCount: number;
+  isActive: boolean;
+  createdBy?: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPickupWindow {
+  start: Date;
+  end: Date;
+}
+
+// Input interfaces for API operations
+export interface ICreatePickupSlot {
+  date: string; // YYYY-MM-DD
+  startTime: string;
+  endTime: string;
+  capacity: number;
+}
+
+export interface IUpdatePickupSlot {
+  capacity?: number;
+  isActive?: boolean;
+}
+
+export interface IPickupSlotFilters {
+  date?: string; // YYYY-MM-DD
+  available?: string; // "true" to only list slots with free capacity
+}
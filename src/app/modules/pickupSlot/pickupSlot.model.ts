@@ -0,0 +1,55 @@
+import { model, Model, Schema } from "mongoose";
+import { IPickupSlot } from "./pickupSlot.interface";
+
+export type PickupSlotModel = Model<IPickupSlot>;
+
+const timeOfDayRegex = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Main Pickup Slot Schema
+const pickupSlotSchema = new Schema<IPickupSlot, PickupSlotModel>(
+  {
+    date: {
+      type: Date,
+      required: [true, "Slot date is required"],
+    },
+    startTime: {
+      type: String,
+      required: [true, "Start time is required"],
+      match: [timeOfDayRegex, "Start time must be in HH:mm format"],
+    },
+    endTime: {
+      type: String,
+      required: [true, "End time is required"],
+      match: [timeOfDayRegex, "End time must be in HH:mm format"],
+    },
+    capacity: {
+      type: Number,
+      required: [true, "Capacity is required"],
+      min: [1, "Capacity must be at least 1"],
+    },
+    bookedCount: {
+      type: Number,
+      default: 0,
+      min: [0, "Booked count cannot be negative"],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+pickupSlotSchema.index({ date: 1, startTime: 1 }, { unique: true });
+
+export const PickupSlot = model<IPickupSlot, PickupSlotModel>(
+  "PickupSlot",
+  pickupSlotSchema
+);
@@ -0,0 +1,47 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { PickupSlotController } from "./pickupSlot.controller";
+import { PickupSlotValidation } from "./pickupSlot.validation";
+
+const router = Router();
+
+// Admin and Sender Routes
+router.get(
+  "/",
+  checkAuth("admin", "sender"),
+  validateRequest(PickupSlotValidation.getPickupSlotsValidationSchema),
+  PickupSlotController.getPickupSlots
+);
+
+router.get(
+  "/:id",
+  checkAuth("admin", "sender"),
+  validateRequest(PickupSlotValidation.pickupSlotIdValidationSchema),
+  PickupSlotController.getPickupSlotById
+);
+
+// Admin Routes
+router.post(
+  "/",
+  checkAuth("admin"),
+  validateRequest(PickupSlotValidation.createPickupSlotValidationSchema),
+  PickupSlotController.createPickupSlot
+);
+
+router.put(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(PickupSlotValidation.pickupSlotIdValidationSchema),
+  validateRequest(PickupSlotValidation.updatePickupSlotValidationSchema),
+  PickupSlotController.updatePickupSlot
+);
+
+router.delete(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(PickupSlotValidation.pickupSlotIdValidationSchema),
+  PickupSlotController.deletePickupSlot
+);
+
+export const PickupSlotRoutes = router;
@@ -0,0 +1,190 @@
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import {
+  ICreatePickupSlot,
+  IPickupSlot,
+  IPickupSlotFilters,
+  IPickupWindow,
+  IUpdatePickupSlot,
+} from "./pickupSlot.interface";
+import { PickupSlot } from "./pickupSlot.model";
+
+// Start of the current day in UTC, slots before it can no longer be booked
+const getStartOfToday = (): Date => {
+  const now = new Date();
+  return new Date(
+    Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  );
+};
+
+// Pickup window covered by a slot
+const getSlotWindow = (slot: IPickupSlot): IPickupWindow => {
+  const day = slot.date.toISOString().slice(0, 10);
+
+  return {
+    start: new Date(`${day}T${slot.startTime}:00.000Z`),
+    end: new Date(`${day}T${slot.endTime}:00.000Z`),
+  };
+};
+
+// Get pickup slots (Admin sees all, senders only see bookable slots)
+const getPickupSlots = async (
+  filters: IPickupSlotFilters,
+  userRole: string
+): Promise<IPickupSlot[]> => {
+  const query: Record<string, unknown> = {};
+
+  if (filters.date) {
+    query.date = new Date(filters.date);
+  } else if (userRole !== "admin") {
+    query.date = { $gte: getStartOfToday() };
+  }
+
+  if (userRole !== "admin") {
+    query.isActive = true;
+  }
+
+  if (filters.available === "true" || userRole !== "admin") {
+    query.$expr = { $lt: ["$bookedCount", "$capacity"] };
+  }
+
+  return PickupSlot.find(query).sort({ date: 1, startTime: 1 });
+};
+
+// Get pickup slot by ID
+const getPickupSlotById = async (slotId: string): Promise<IPickupSlot> => {
+  const slot = await PickupSlot.findById(slotId);
+
+  if (!slot) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Pickup slot not found");
+  }
+
+  return slot;
+};
+
+// Create a pickup slot (Admin only)
+const createPickupSlot = async (
+  adminId: string,
+  payload: ICreatePickupSlot
+): Promise<IPickupSlot> => {
+  const date = new Date(payload.date);
+
+  if (date < getStartOfToday()) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Pickup slots cannot be created in the past"
+    );
+  }
+
+  const existingSlot = await PickupSlot.findOne({
+    date,
+    startTime: payload.startTime,
+  });
+  if (existingSlot) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "A pickup slot already starts at this time on this day"
+    );
+  }
+
+  return PickupSlot.create({
+    ...payload,
+    date,
+    createdBy: adminId,
+  });
+};
+
+// Update capacity or availability of a pickup slot (Admin only)
+const updatePickupSlot = async (
+  slotId: string,
+  payload: IUpdatePickupSlot
+): Promise<IPickupSlot> => {
+  const slot = await getPickupSlotById(slotId);
+
+  if (payload.capacity !== undefined && payload.capacity < slot.bookedCount) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Capacity cannot be lower than the ${slot.bookedCount} pickups already booked`
+    );
+  }
+
+  // Only shrink capacity if no booking slipped in since the check above
+  const updatedSlot = await PickupSlot.findOneAndUpdate(
+    {
+      _id: slotId,
+      ...(payload.capacity !== undefined && {
+        bookedCount: { $lte: payload.capacity },
+      }),
+    },
+    payload,
+    { new: true, runValidators: true }
+  );
+
+  if (!updatedSlot) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Pickup slot bookings changed, please retry"
+    );
+  }
+
+  return updatedSlot;
+};
+
+// Delete a pickup slot without bookings (Admin only)
+const deletePickupSlot = async (slotId: string): Promise<void> => {
+  const slot = await PickupSlot.findOneAndDelete({
+    _id: slotId,
+    bookedCount: 0,
+  });
+
+  if (!slot) {
+    await getPickupSlotById(slotId);
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Cannot delete a pickup slot with booked pickups, deactivate it instead"
+    );
+  }
+};
+
+// Reserve one pickup in a slot, atomically respecting its capacity
+const bookPickupSlot = async (slotId: string): Promise<IPickupSlot> => {
+  const slot = await PickupSlot.findOneAndUpdate(
+    {
+      _id: slotId,
+      isActive: true,
+      date: { $gte: getStartOfToday() },
+      $expr: { $lt: ["$bookedCount", "$capacity"] },
+    },
+    { $inc: { bookedCount: 1 } },
+    { new: true }
+  );
+
+  if (!slot) {
+    await getPickupSlotById(slotId);
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      "Pickup slot is fully booked or no longer available"
+    );
+  }
+
+  return slot;
+};
+
+// Give a booked pickup back to the slot
+const releasePickupSlot = async (slotId: string): Promise<void> => {
+  await PickupSlot.updateOne(
+    { _id: slotId, bookedCount: { $gt: 0 } },
+    { $inc: { bookedCount: -1 } }
+  );
+};
+
+export const PickupSlotService = {
+  getSlotWindow,
+  getPickupSlots,
+  getPickupSlotById,
+  createPickupSlot,
+  updatePickupSlot,
+  deletePickupSlot,
+  bookPickupSlot,
+  releasePickupSlot,
+};
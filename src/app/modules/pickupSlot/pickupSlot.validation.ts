@@ -0,0 +1,62 @@
+import { z } from "zod";
+
+const timeOfDaySchema = z
+  .string()
+  .trim()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:mm format");
+
+const slotDateSchema = z
+  .string()
+  .trim()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((date) => !Number.isNaN(new Date(date).getTime()), {
+    message: "Invalid date",
+  });
+
+const createPickupSlotValidationSchema = z.object({
+  body: z
+    .object({
+      date: slotDateSchema,
+      startTime: timeOfDaySchema,
+      endTime: timeOfDaySchema,
+      capacity: z
+        .number()
+        .int("Capacity must be a whole number")
+        .min(1, "Capacity must be at least 1"),
+    })
+    .refine((body) => body.startTime < body.endTime, {
+      message: "End time must be after start time",
+      path: ["endTime"],
+    }),
+});
+
+const updatePickupSlotValidationSchema = z.object({
+  body: z.object({
+    capacity: z
+      .number()
+      .int("Capacity must be a whole number")
+      .min(1, "Capacity must be at least 1")
+      .optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+const pickupSlotIdValidationSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid pickup slot ID format"),
+  }),
+});
+
+const getPickupSlotsValidationSchema = z.object({
+  query: z.object({
+    date: slotDateSchema.optional(),
+    available: z.enum(["true", "false"]).optional(),
+  }),
+});
+
+export const PickupSlotValidation = {
+  createPickupSlotValidationSchema,
+  updatePickupSlotValidationSchema,
+  pickupSlotIdValidationSchema,
+  getPickupSlotsValidationSchema,
+};
@@ -0,0 +1,36 @@
+import { ICreateRateCard } from "./rateCard.interface";
+
+// Seeded as version 1 when no rate card has been configured yet (the original flat
+// pricing on actual weight)
+export const defaultRateCard: ICreateRateCard = {
+  name: "Standard Rates",
+  description: "Default rate card",
+  defaultBaseFee: 50,
+  zoneRates: [],
+  weightSlabs: [{ maxWeight: 50, flatFee: 0, perKgFee: 10 }],
+  parcelTypeSurcharges: [],
+  insuranceRates: [
+    {
+      parcelType: "document",
+      premiumRate: 1,
+      minPremium: 5,
+      maxCoverage: 1000,
+    },
+    { parcelType: "package", premiumRate: 1, minPremium: 10 },
+    { parcelType: "fragile", premiumRate: 2, minPremium: 20 },
+    { parcelType: "electronics", premiumRate: 2, minPremium: 20 },
+    { parcelType: "other", premiumRate: 1, minPremium: 10 },
+  ],
+  urgencyMultipliers: {
+    standard: 1,
+    express: 1.5,
+    urgent: 2,
+  },
+};
+
+// Seeded as version 2 on top of version 1, the same rates on the chargeable weight
+export const defaultRateCardV2: ICreateRateCard = {
+  ...defaultRateCard,
+  description: "Default rate card with volumetric weight",
+  volumetricDivisor: 5000,
+};
@@ -0,0 +1,120 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { RateCardService } from "./rateCard.service";
+
+// Get all rate card versions (Admin only)
+const getAllRateCards = catchAsync(async (req: Request, res: Response) => {
+  const result = await RateCardService.getAllRateCards(
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Rate cards retrieved successfully",
+    data: result.rateCards,
+    meta: result.meta,
+  });
+});
+
+// Get active rate card (Admin only)
+const getActiveRateCard = catchAsync(async (req: Request, res: Response) => {
+  const result = await RateCardService.getActiveRateCard();
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Active rate card retrieved successfully",
+    data: result,
+  });
+});
+
+// Get rate card by version (Admin only)
+const getRateCardByVersion = catchAsync(async (req: Request, res: Response) => {
+  const { version } = req.params;
+
+  const result = await RateCardService.getRateCardByVersion(Number(version));
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Rate card retrieved successfully",
+    data: result,
+  });
+});
+
+// Create new draft rate card version (Admin only)
+const createRateCard = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await RateCardService.createRateCard(adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: "Rate card created successfully",
+    data: result,
+  });
+});
+
+// Update draft rate card version (Admin only)
+const updateRateCard = catchAsync(async (req: Request, res: Response) => {
+  const { version } = req.params;
+
+  const result = await RateCardService.updateRateCard(
+    Number(version),
+    req.body
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Rate card updated successfully",
+    data: result,
+  });
+});
+
+// Activate rate card version (Admin only)
+const activateRateCard = catchAsync(async (req: Request, res: Response) => {
+  const { version } = req.params;
+
+  const result = await RateCardService.activateRateCard(Number(version));
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Rate card activated successfully",
+    data: result,
+  });
+});
+
+// Delete draft rate card version (Admin only)
+const deleteRateCard = catchAsync(async (req: Request, res: Response) => {
+  const { version } = req.params;
+
+  await RateCardService.deleteRateCard(Number(version));
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Rate card deleted successfully",
+    data: null,
+  });
+});
+
+export const RateCardController = {
+  getAllRateCards,
+  getActiveRateCard,
+  getRateCardByVersion,
+  createRateCard,
+  updateRateCard,
+  activateRateCard,
+  deleteRateCard,
+};
@@ -0,0 +1,67 @@
+import { ObjectId } from "mongoose";
+import { IDeliveryInfo, IParcelDetails } from "../parcel/parcel.interface";
+
+// Base fee of a route between two zones
+export interface IZoneRate {
+  originZone: string; // Zone code of the pickup address
+  destinationZone: string; // Zone code of the delivery address
+  baseFee: number;
+}
+
+// Weight band charged a flat fee plus a rate per kg of the whole weight
+export interface IWeightSlab {
+  maxWeight: number; // Upper bound in kg, heavier shipments use the last slab
+  flatFee: number;
+  perKgFee: number;
+}
+
+export interface IParcelTypeSurcharge {
+  parcelType: IParcelDetails["type"];
+  amount: number;
+}
+
+// Premium charged to insure the declared value of a parcel type
+export interface IInsuranceRate {
+  parcelType: IParcelDetails["type"];
+  premiumRate: number; // Percentage of the covered value
+  minPremium?: number;
+  maxPremium?: number;
+  maxCoverage?: number; // Highest value covered, the declared value above it is not insured
+}
+
+// Multiplier applied to the base fee, 1 adds no urgency fee
+export type IUrgencyMultipliers = Record<IDeliveryInfo["urgency"], number>;
+
+export interface IRateCard {
+  _id: ObjectId;
+  name: string;
+  version: number; // Incrementing version, recorded on the parcels it priced
+  description?: string;
+  defaultBaseFee: number; // Base fee of routes without a zone rate
+  zoneRates: IZoneRate[];
+  weightSlabs: IWeightSlab[]; // Sorted by maxWeight
+  volumetricDivisor?: number; // cm³ per kg, actual weight only when unset
+  parcelTypeSurcharges: IParcelTypeSurcharge[];
+  insuranceRates: IInsuranceRate[]; // Parcel types without a rate cannot be insured
+  urgencyMultipliers: IUrgencyMultipliers;
+  isActive: boolean;
+  activatedAt?: Date; // Set once a version goes live, after which it is locked
+  createdBy?: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Input interfaces for API operations
+export interface ICreateRateCard {
+  name: string;
+  description?: string;
+  defaultBaseFee: number;
+  zoneRates: IZoneRate[];
+  weightSlabs: IWeightSlab[];
+  volumetricDivisor?: number;
+  parcelTypeSurcharges: IParcelTypeSurcharge[];
+  insuranceRates: IInsuranceRate[];
+  urgencyMultipliers: IUrgencyMultipliers;
+}
+
+export type IUpdateRateCard = Partial<ICreateRateCard>;
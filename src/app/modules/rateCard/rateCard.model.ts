@@ -0,0 +1,216 @@
+import { model, Model, Schema } from "mongoose";
+import {
+  IInsuranceRate,
+  IParcelTypeSurcharge,
+  IRateCard,
+  IUrgencyMultipliers,
+  IWeightSlab,
+  IZoneRate,
+} from "./rateCard.interface";
+
+export type RateCardModel = Model<IRateCard>;
+
+const parcelTypeValues = [
+  "document",
+  "package",
+  "fragile",
+  "electronics",
+  "other",
+];
+
+// Zone Rate Schema
+const zoneRateSchema = new Schema<IZoneRate>(
+  {
+    originZone: {
+      type: String,
+      required: [true, "Origin zone is required"],
+      trim: true,
+      uppercase: true,
+    },
+    destinationZone: {
+      type: String,
+      required: [true, "Destination zone is required"],
+      trim: true,
+      uppercase: true,
+    },
+    baseFee: {
+      type: Number,
+      required: [true, "Base fee is required"],
+      min: [0, "Base fee cannot be negative"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Weight Slab Schema
+const weightSlabSchema = new Schema<IWeightSlab>(
+  {
+    maxWeight: {
+      type: Number,
+      required: [true, "Slab weight is required"],
+      min: [0.01, "Slab weight must be greater than 0"],
+    },
+    flatFee: {
+      type: Number,
+      default: 0,
+      min: [0, "Flat fee cannot be negative"],
+    },
+    perKgFee: {
+      type: Number,
+      default: 0,
+      min: [0, "Per kg fee cannot be negative"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Parcel Type Surcharge Schema
+const parcelTypeSurchargeSchema = new Schema<IParcelTypeSurcharge>(
+  {
+    parcelType: {
+      type: String,
+      enum: {
+        values: parcelTypeValues,
+        message: "Invalid parcel type: {VALUE}",
+      },
+      required: [true, "Parcel type is required"],
+    },
+    amount: {
+      type: Number,
+      required: [true, "Surcharge amount is required"],
+      min: [0, "Surcharge cannot be negative"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Insurance Rate Schema
+const insuranceRateSchema = new Schema<IInsuranceRate>(
+  {
+    parcelType: {
+      type: String,
+      enum: {
+        values: parcelTypeValues,
+        message: "Invalid parcel type: {VALUE}",
+      },
+      required: [true, "Parcel type is required"],
+    },
+    premiumRate: {
+      type: Number,
+      required: [true, "Premium rate is required"],
+      min: [0, "Premium rate cannot be negative"],
+      max: [100, "Premium rate cannot exceed 100"],
+    },
+    minPremium: {
+      type: Number,
+      min: [0, "Minimum premium cannot be negative"],
+    },
+    maxPremium: {
+      type: Number,
+      min: [0, "Maximum premium cannot be negative"],
+    },
+    maxCoverage: {
+      type: Number,
+      min: [0.01, "Maximum coverage must be greater than 0"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Urgency Multipliers Schema
+const urgencyMultipliersSchema = new Schema<IUrgencyMultipliers>(
+  {
+    standard: {
+      type: Number,
+      required: [true, "Standard multiplier is required"],
+      min: [1, "Urgency multipliers must be at least 1"],
+    },
+    express: {
+      type: Number,
+      required: [true, "Express multiplier is required"],
+      min: [1, "Urgency multipliers must be at least 1"],
+    },
+    urgent: {
+      type: Number,
+      required: [true, "Urgent multiplier is required"],
+      min: [1, "Urgency multipliers must be at least 1"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Main Rate Card Schema
+const rateCardSchema = new Schema<IRateCard, RateCardModel>(
+  {
+    name: {
+      type: String,
+      required: [true, "Rate card name is required"],
+      trim: true,
+    },
+    version: {
+      type: Number,
+      required: [true, "Rate card version is required"],
+      unique: true,
+      min: [1, "Rate card version must be at least 1"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Description cannot exceed 500 characters"],
+    },
+    defaultBaseFee: {
+      type: Number,
+      required: [true, "Default base fee is required"],
+      min: [0, "Base fee cannot be negative"],
+    },
+    zoneRates: {
+      type: [zoneRateSchema],
+      default: [],
+    },
+    weightSlabs: {
+      type: [weightSlabSchema],
+      validate: {
+        validator: (slabs: IWeightSlab[]) => slabs.length > 0,
+        message: "A rate card needs at least one weight slab",
+      },
+    },
+    volumetricDivisor: {
+      type: Number,
+      min: [1, "Volumetric divisor must be at least 1"],
+    },
+    parcelTypeSurcharges: {
+      type: [parcelTypeSurchargeSchema],
+      default: [],
+    },
+    insuranceRates: {
+      type: [insuranceRateSchema],
+      default: [],
+    },
+    urgencyMultipliers: {
+      type: urgencyMultipliersSchema,
+      required: [true, "Urgency multipliers are required"],
+    },
+    isActive: {
+      type: Boolean,
+      default: false,
+    },
+    activatedAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+rateCardSchema.index({ isActive: 1 });
+
+export const RateCard = model<IRateCard, RateCardModel>(
+  "RateCard",
+  rateCardSchema
+);
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { RateCardController } from "./rateCard.controller";
+import { RateCardValidation } from "./rateCard.validation";
+
+const router = Router();
+
+// Admin Routes
+router.get("/", checkAuth("admin"), RateCardController.getAllRateCards);
+
+router.get(
+  "/active",
+  checkAuth("admin"),
+  RateCardController.getActiveRateCard
+);
+
+router.post(
+  "/",
+  checkAuth("admin"),
+  validateRequest(RateCardValidation.createRateCardValidationSchema),
+  RateCardController.createRateCard
+);
+
+router.get(
+  "/:version",
+  checkAuth("admin"),
+  validateRequest(RateCardValidation.rateCardVersionValidationSchema),
+  RateCardController.getRateCardByVersion
+);
+
+router.put(
+  "/:version",
+  checkAuth("admin"),
+  validateRequest(RateCardValidation.rateCardVersionValidationSchema),
+  validateRequest(RateCardValidation.updateRateCardValidationSchema),
+  RateCardController.updateRateCard
+);
+
+router.put(
+  "/:version/activate",
+  checkAuth("admin"),
+  validateRequest(RateCardValidation.rateCardVersionValidationSchema),
+  RateCardController.activateRateCard
+);
+
+router.delete(
+  "/:version",
+  checkAuth("admin"),
+  validateRequest(RateCardValidation.rateCardVersionValidationSchema),
+  RateCardController.deleteRateCard
+);
+
+export const RateCardRoutes = router;
@@ -0,0 +1,342 @@
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { QueryBuilder } from "../../utils/QueryBuilder";
+import { Parcel } from "../parcel/parcel.model";
+import { Zone } from "../zone/zone.model";
+import { defaultRateCard, defaultRateCardV2 } from "./rateCard.constant";
+import {
+  ICreateRateCard,
+  IRateCard,
+  IUpdateRateCard,
+} from "./rateCard.interface";
+import { RateCard } from "./rateCard.model";
+
+// Version assigned to parcels priced before rate cards were stored in the database
+const LEGACY_RATE_CARD_VERSION = 1;
+
+// Version the current default rate card is seeded as
+const DEFAULT_RATE_CARD_VERSION = 2;
+
+// Tries at taking the next version number when versions are created concurrently
+const MAX_VERSION_ATTEMPTS = 5;
+
+// List the values that appear more than once
+const findDuplicates = (values: string[]): string[] => [
+  ...new Set(values.filter((value, index) => values.indexOf(value) !== index)),
+];
+
+// Validate the rates of a rate card and sort its weight slabs
+const validateDefinition = async (
+  definition: ICreateRateCard
+): Promise<ICreateRateCard> => {
+  const errors: string[] = [];
+
+  const zoneRates = definition.zoneRates.map((rate) => ({
+    ...rate,
+    originZone: rate.originZone.toUpperCase(),
+    destinationZone: rate.destinationZone.toUpperCase(),
+  }));
+
+  const duplicateRoutes = findDuplicates(
+    zoneRates.map((rate) => `${rate.originZone} -> ${rate.destinationZone}`)
+  );
+  if (duplicateRoutes.length) {
+    errors.push(`Duplicate zone rates: ${duplicateRoutes.join(", ")}`);
+  }
+
+  const zoneCodes = [
+    ...new Set(
+      zoneRates.flatMap((rate) => [rate.originZone, rate.destinationZone])
+    ),
+  ];
+  if (zoneCodes.length) {
+    const zones = await Zone.find({ code: { $in: zoneCodes } }).select("code");
+    const unknownCodes = zoneCodes.filter(
+      (code) => !zones.some((zone) => zone.code === code)
+    );
+    if (unknownCodes.length) {
+      errors.push(`Unknown zones: ${unknownCodes.join(", ")}`);
+    }
+  }
+
+  const duplicateWeights = findDuplicates(
+    definition.weightSlabs.map((slab) => String(slab.maxWeight))
+  );
+  if (duplicateWeights.length) {
+    errors.push(`Duplicate weight slabs: ${duplicateWeights.join(", ")} kg`);
+  }
+
+  const duplicateTypes = findDuplicates(
+    definition.parcelTypeSurcharges.map((surcharge) => surcharge.parcelType)
+  );
+  if (duplicateTypes.length) {
+    errors.push(`Duplicate surcharges: ${duplicateTypes.join(", ")}`);
+  }
+
+  const duplicateInsuranceTypes = findDuplicates(
+    definition.insuranceRates.map((rate) => rate.parcelType)
+  );
+  if (duplicateInsuranceTypes.length) {
+    errors.push(
+      `Duplicate insurance rates: ${duplicateInsuranceTypes.join(", ")}`
+    );
+  }
+
+  if (errors.length) {
+    throw new AppError(StatusCodes.BAD_REQUEST, errors.join(", "));
+  }
+
+  return {
+    ...definition,
+    zoneRates,
+    weightSlabs: [...definition.weightSlabs].sort(
+      (a, b) => a.maxWeight - b.maxWeight
+    ),
+  };
+};
+
+// Create a seeded rate card version, tolerating another request seeding it first
+const seedRateCard = async (
+  definition: ICreateRateCard,
+  version: number
+): Promise<void> => {
+  try {
+    await RateCard.create({
+      ...definition,
+      version,
+      isActive: true,
+      activatedAt: new Date(),
+    });
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) {
+      throw error;
+    }
+  }
+};
+
+// Seed the default rate cards until an admin has configured their own versions
+const ensureDefaultRateCard = async (): Promise<void> => {
+  const rateCardCount = await RateCard.countDocuments();
+  if (rateCardCount >= DEFAULT_RATE_CARD_VERSION) {
+    return;
+  }
+
+  // Version 1 stays frozen for the parcels priced with it
+  if (rateCardCount === 0) {
+    await seedRateCard(defaultRateCard, LEGACY_RATE_CARD_VERSION);
+  }
+
+  // New parcels move to version 2, switched on before version 1 goes off
+  await seedRateCard(defaultRateCardV2, DEFAULT_RATE_CARD_VERSION);
+  await RateCard.updateMany(
+    { isActive: true, version: { $ne: DEFAULT_RATE_CARD_VERSION } },
+    { $set: { isActive: false } }
+  );
+};
+
+// Get the rate card new parcels are priced with
+const getActiveRateCard = async (): Promise<IRateCard> => {
+  await ensureDefaultRateCard();
+
+  // The latest activation wins while a switch-over is in flight
+  const rateCard = await RateCard.findOne({ isActive: true }).sort({
+    activatedAt: -1,
+  });
+  if (!rateCard) {
+    throw new AppError(
+      StatusCodes.INTERNAL_SERVER_ERROR,
+      "No active rate card is configured"
+    );
+  }
+
+  return rateCard;
+};
+
+// Get a rate card by version
+const getRateCardByVersion = async (version: number): Promise<IRateCard> => {
+  await ensureDefaultRateCard();
+
+  const rateCard = await RateCard.findOne({ version });
+  if (!rateCard) {
+    throw new AppError(
+      StatusCodes.NOT_FOUND,
+      `Rate card version ${version} not found`
+    );
+  }
+
+  return rateCard;
+};
+
+// Get the rate card a parcel was priced with
+const getRateCardForParcel = async (parcel: {
+  pricing: { rateCardVersion?: number };
+}): Promise<IRateCard> => {
+  return getRateCardByVersion(
+    parcel.pricing.rateCardVersion ?? LEGACY_RATE_CARD_VERSION
+  );
+};
+
+// Get all rate card versions (Admin only)
+const getAllRateCards = async (
+  query: Record<string, string>
+): Promise<{
+  rateCards: IRateCard[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  await ensureDefaultRateCard();
+
+  const rateCardQuery = new QueryBuilder(RateCard.find(), {
+    sort: "-version",
+    ...query,
+  })
+    .search(["name", "description"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const rateCards = (await rateCardQuery.build()) as IRateCard[];
+  const meta = await rateCardQuery.getMeta();
+
+  return { rateCards, meta };
+};
+
+// Create a new draft rate card version (Admin only)
+const createRateCard = async (
+  adminId: string,
+  rateCardData: ICreateRateCard
+): Promise<IRateCard> => {
+  const definition = await validateDefinition(rateCardData);
+  await ensureDefaultRateCard();
+
+  for (let attempt = 0; attempt < MAX_VERSION_ATTEMPTS; attempt++) {
+    const latestRateCard = await RateCard.findOne().sort({ version: -1 });
+    const version = (latestRateCard?.version ?? 0) + 1;
+
+    try {
+      return await RateCard.create({
+        ...definition,
+        version,
+        isActive: false,
+        createdBy: adminId,
+      });
+    } catch (error) {
+      // Another request took the version number first, read the next one
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+  }
+
+  throw new AppError(
+    StatusCodes.CONFLICT,
+    "Could not assign a rate card version, please try again"
+  );
+};
+
+// Update a draft rate card version (Admin only)
+const updateRateCard = async (
+  version: number,
+  updateData: IUpdateRateCard
+): Promise<IRateCard> => {
+  const rateCard = await getRateCardByVersion(version);
+
+  if (rateCard.activatedAt) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Rate card versions that have been activated cannot be changed, create a new version instead"
+    );
+  }
+
+  const definition = await validateDefinition({
+    name: updateData.name ?? rateCard.name,
+    description: updateData.description ?? rateCard.description,
+    defaultBaseFee: updateData.defaultBaseFee ?? rateCard.defaultBaseFee,
+    zoneRates: updateData.zoneRates ?? rateCard.zoneRates,
+    weightSlabs: updateData.weightSlabs ?? rateCard.weightSlabs,
+    volumetricDivisor:
+      updateData.volumetricDivisor ?? rateCard.volumetricDivisor,
+    parcelTypeSurcharges:
+      updateData.parcelTypeSurcharges ?? rateCard.parcelTypeSurcharges,
+    insuranceRates: updateData.insuranceRates ?? rateCard.insuranceRates,
+    urgencyMultipliers:
+      updateData.urgencyMultipliers ?? rateCard.urgencyMultipliers,
+  });
+
+  const updatedRateCard = await RateCard.findOneAndUpdate(
+    { version },
+    { $set: definition },
+    { new: true, runValidators: true }
+  );
+  return updatedRateCard as IRateCard;
+};
+
+// Make a rate card version the one new parcels are priced with (Admin only)
+const activateRateCard = async (version: number): Promise<IRateCard> => {
+  const rateCard = await getRateCardByVersion(version);
+
+  if (rateCard.isActive) {
+    throw new AppError(StatusCodes.BAD_REQUEST, "Rate card is already active");
+  }
+
+  // Switch the new version on before the others off, so one is always active
+  await RateCard.bulkWrite(
+    [
+      {
+        updateOne: {
+          filter: { version },
+          update: {
+            $set: {
+              isActive: true,
+              activatedAt: rateCard.activatedAt ?? new Date(),
+            },
+          },
+        },
+      },
+      {
+        updateMany: {
+          filter: { isActive: true, version: { $ne: version } },
+          update: { $set: { isActive: false } },
+        },
+      },
+    ],
+    { ordered: true }
+  );
+
+  return getRateCardByVersion(version);
+};
+
+// Delete a draft rate card version (Admin only)
+const deleteRateCard = async (version: number): Promise<void> => {
+  const rateCard = await getRateCardByVersion(version);
+
+  if (rateCard.isActive || rateCard.activatedAt) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Only draft rate card versions can be deleted"
+    );
+  }
+
+  const parcelCount = await Parcel.countDocuments({
+    "pricing.rateCardVersion": version,
+  });
+  if (parcelCount > 0) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Rate card version has priced existing parcels"
+    );
+  }
+
+  await RateCard.findOneAndDelete({ version });
+};
+
+export const RateCardService = {
+  getActiveRateCard,
+  getRateCardByVersion,
+  getRateCardForParcel,
+  getAllRateCards,
+  createRateCard,
+  updateRateCard,
+  activateRateCard,
+  deleteRateCard,
+};
@@ -0,0 +1,140 @@
+import { z } from "zod";
+
+const zoneCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .min(1, "Zone code is required");
+
+// Zone rate validation schema
+const zoneRateSchema = z.object({
+  originZone: zoneCodeSchema,
+  destinationZone: zoneCodeSchema,
+  baseFee: z.number().min(0, "Base fee cannot be negative"),
+});
+
+// Weight slab validation schema
+const weightSlabSchema = z.object({
+  maxWeight: z.number().positive("Slab weight must be greater than 0"),
+  flatFee: z.number().min(0, "Flat fee cannot be negative").default(0),
+  perKgFee: z.number().min(0, "Per kg fee cannot be negative").default(0),
+});
+
+// Parcel type surcharge validation schema
+const parcelTypeSurchargeSchema = z.object({
+  parcelType: z.enum([
+    "document",
+    "package",
+    "fragile",
+    "electronics",
+    "other",
+  ]),
+  amount: z.number().min(0, "Surcharge cannot be negative"),
+});
+
+// Insurance rate validation schema
+const insuranceRateSchema = z
+  .object({
+    parcelType: z.enum([
+      "document",
+      "package",
+      "fragile",
+      "electronics",
+      "other",
+    ]),
+    premiumRate: z
+      .number()
+      .min(0, "Premium rate cannot be negative")
+      .max(100, "Premium rate cannot exceed 100"),
+    minPremium: z
+      .number()
+      .min(0, "Minimum premium cannot be negative")
+      .optional(),
+    maxPremium: z
+      .number()
+      .min(0, "Maximum premium cannot be negative")
+      .optional(),
+    maxCoverage: z
+      .number()
+      .positive("Maximum coverage must be greater than 0")
+      .optional(),
+  })
+  .refine(
+    (rate) =>
+      rate.minPremium === undefined ||
+      rate.maxPremium === undefined ||
+      rate.maxPremium >= rate.minPremium,
+    {
+      message: "Maximum premium cannot be lower than the minimum premium",
+      path: ["maxPremium"],
+    }
+  );
+
+// Cubic centimetres per kg of volumetric weight, 5000 being the common courier divisor
+const volumetricDivisorSchema = z
+  .number()
+  .min(1, "Volumetric divisor must be at least 1");
+
+const urgencyMultiplierSchema = z
+  .number()
+  .min(1, "Urgency multipliers must be at least 1");
+
+// Urgency multipliers validation schema
+const urgencyMultipliersSchema = z.object({
+  standard: urgencyMultiplierSchema,
+  express: urgencyMultiplierSchema,
+  urgent: urgencyMultiplierSchema,
+});
+
+const createRateCardValidationSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, "Rate card name is required"),
+    description: z
+      .string()
+      .trim()
+      .max(500, "Description cannot exceed 500 characters")
+      .optional(),
+    defaultBaseFee: z.number().min(0, "Base fee cannot be negative"),
+    zoneRates: z.array(zoneRateSchema).default([]),
+    weightSlabs: z
+      .array(weightSlabSchema)
+      .min(1, "At least one weight slab is required"),
+    volumetricDivisor: volumetricDivisorSchema.optional(),
+    parcelTypeSurcharges: z.array(parcelTypeSurchargeSchema).max(5).default([]),
+    insuranceRates: z.array(insuranceRateSchema).max(5).default([]),
+    urgencyMultipliers: urgencyMultipliersSchema,
+  }),
+});
+
+const updateRateCardValidationSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, "Rate card name is required").optional(),
+    description: z
+      .string()
+      .trim()
+      .max(500, "Description cannot exceed 500 characters")
+      .optional(),
+    defaultBaseFee: z.number().min(0, "Base fee cannot be negative").optional(),
+    zoneRates: z.array(zoneRateSchema).optional(),
+    weightSlabs: z
+      .array(weightSlabSchema)
+      .min(1, "At least one weight slab is required")
+      .optional(),
+    volumetricDivisor: volumetricDivisorSchema.optional(),
+    parcelTypeSurcharges: z.array(parcelTypeSurchargeSchema).max(5).optional(),
+    insuranceRates: z.array(insuranceRateSchema).max(5).optional(),
+    urgencyMultipliers: urgencyMultipliersSchema.optional(),
+  }),
+});
+
+const rateCardVersionValidationSchema = z.object({
+  params: z.object({
+    version: z.string().regex(/^\d+$/, "Invalid rate card version"),
+  }),
+});
+
+export const RateCardValidation = {
+  createRateCardValidationSchema,
+  updateRateCardValidationSchema,
+  rateCardVersionValidationSchema,
+};
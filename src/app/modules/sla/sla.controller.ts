@@ -0,0 +1,164 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { SlaService } from "./sla.service";
+
+// Get all SLA rules (Admin only)
+const getAllSlaRules = catchAsync(async (req: Request, res: Response) => {
+  const result = await SlaService.getAllSlaRules(
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "SLA rules retrieved successfully",
+    data: result.rules,
+    meta: result.meta,
+  });
+});
+
+// Get SLA rule by ID (Admin only)
+const getSlaRuleById = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await SlaService.getSlaRuleById(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "SLA rule retrieved successfully",
+    data: result,
+  });
+});
+
+// Create SLA rule (Admin only)
+const createSlaRule = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await SlaService.createSlaRule(adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: "SLA rule created successfully",
+    data: result,
+  });
+});
+
+// Update SLA rule (Admin only)
+const updateSlaRule = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await SlaService.updateSlaRule(id, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "SLA rule updated successfully",
+    data: result,
+  });
+});
+
+// Delete SLA rule (Admin only)
+const deleteSlaRule = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  await SlaService.deleteSlaRule(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "SLA rule deleted successfully",
+    data: null,
+  });
+});
+
+// Get the SLA exception queue (Admin only)
+const getSlaExceptions = catchAsync(async (req: Request, res: Response) => {
+  const result = await SlaService.getSlaExceptions(
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "SLA exceptions retrieved successfully",
+    data: result.exceptions,
+    meta: result.meta,
+  });
+});
+
+// Acknowledge SLA exception (Admin only)
+const acknowledgeSlaException = catchAsync(
+  async (req: Request, res: Response) => {
+    const { id } = req.params;
+    const adminId = req.user?.userId;
+
+    if (!adminId) {
+      throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+    }
+
+    const result = await SlaService.acknowledgeSlaException(id, adminId);
+
+    sendResponse(res, {
+      statusCode: StatusCodes.OK,
+      success: true,
+      message: "SLA exception acknowledged successfully",
+      data: result,
+    });
+  }
+);
+
+// Resolve SLA exception (Admin only)
+const resolveSlaException = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await SlaService.resolveSlaException(
+    id,
+    adminId,
+    req.body?.note
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "SLA exception resolved successfully",
+    data: result,
+  });
+});
+
+// Run the SLA check now (Admin only)
+const runSlaCheck = catchAsync(async (req: Request, res: Response) => {
+  const result = await SlaService.runSlaCheck();
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "SLA check completed successfully",
+    data: result,
+  });
+});
+
+export const SlaController = {
+  getAllSlaRules,
+  getSlaRuleById,
+  createSlaRule,
+  updateSlaRule,
+  deleteSlaRule,
+  getSlaExceptions,
+  acknowledgeSlaException,
+  resolveSlaException,
+  runSlaCheck,
+};
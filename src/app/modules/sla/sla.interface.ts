@@ -0,0 +1,79 @@
+import { ObjectId } from "mongoose";
+import { IDeliveryInfo } from "../parcel/parcel.interface";
+
+export enum SlaRuleType {
+  STATUS_DURATION = "status_duration", // Parcel stays in one status too long
+  DELIVERY_OVERDUE = "delivery_overdue", // Parcel is past its estimated delivery day
+}
+
+export enum SlaSeverity {
+  LOW = "low",
+  MEDIUM = "medium",
+  HIGH = "high",
+}
+
+export enum SlaExceptionState {
+  OPEN = "open",
+  ACKNOWLEDGED = "acknowledged",
+  RESOLVED = "resolved",
+}
+
+export interface ISlaRule {
+  _id: ObjectId;
+  name: string;
+  type: SlaRuleType;
+  status?: string; // Watched status (status_duration rules only)
+  urgency?: IDeliveryInfo["urgency"]; // Any urgency when empty
+  maxHours: number; // Time allowed in the status, or grace after the estimated delivery day
+  severity: SlaSeverity;
+  isActive: boolean;
+  createdBy?: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ISlaException {
+  _id: ObjectId;
+  parcel: ObjectId; // Reference to Parcel
+  trackingId: string;
+  rule: ObjectId; // Reference to SlaRule
+  ruleName: string; // Kept in case the rule is renamed or deleted
+  type: SlaRuleType;
+  severity: SlaSeverity;
+  parcelStatus: string; // Parcel status when the breach was detected
+  urgency: IDeliveryInfo["urgency"];
+  breachedAt: Date; // When the parcel crossed the rule's limit
+  detectedAt: Date;
+  state: SlaExceptionState;
+  acknowledgedBy?: ObjectId; // Reference to User
+  acknowledgedAt?: Date;
+  resolvedBy?: ObjectId; // Reference to User, empty when resolved by the checker
+  resolvedAt?: Date;
+  resolutionNote?: string;
+  autoResolved?: boolean; // Set when the parcel recovered before an admin resolved it
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Input interfaces for API operations
+export interface ICreateSlaRule {
+  name: string;
+  type: SlaRuleType;
+  status?: string;
+  urgency?: IDeliveryInfo["urgency"];
+  maxHours: number;
+  severity?: SlaSeverity;
+}
+
+export type IUpdateSlaRule = Partial<ICreateSlaRule> & { isActive?: boolean };
+
+export interface IResolveSlaException {
+  note?: string;
+}
+
+export interface ISlaCheckReport {
+  rulesChecked: number;
+  exceptionsRaised: number;
+  exceptionsResolved: number;
+  checkedAt: Date;
+}
@@ -0,0 +1,160 @@
+import { model, Model, Schema } from "mongoose";
+import {
+  ISlaException,
+  ISlaRule,
+  SlaExceptionState,
+  SlaRuleType,
+  SlaSeverity,
+} from "./sla.interface";
+
+export type SlaRuleModel = Model<ISlaRule>;
+export type SlaExceptionModel = Model<ISlaException>;
+
+const urgencyValues = ["standard", "express", "urgent"];
+
+// Main SLA Rule Schema
+const slaRuleSchema = new Schema<ISlaRule, SlaRuleModel>(
+  {
+    name: {
+      type: String,
+      required: [true, "Rule name is required"],
+      trim: true,
+      maxlength: [100, "Rule name cannot exceed 100 characters"],
+    },
+    type: {
+      type: String,
+      enum: {
+        values: Object.values(SlaRuleType),
+        message: "Invalid SLA rule type: {VALUE}",
+      },
+      required: [true, "Rule type is required"],
+    },
+    status: {
+      type: String,
+      trim: true,
+    },
+    urgency: {
+      type: String,
+      enum: {
+        values: urgencyValues,
+        message: "Invalid urgency: {VALUE}",
+      },
+    },
+    maxHours: {
+      type: Number,
+      required: [true, "Maximum hours are required"],
+      min: [0, "Maximum hours cannot be negative"],
+    },
+    severity: {
+      type: String,
+      enum: {
+        values: Object.values(SlaSeverity),
+        message: "Invalid severity: {VALUE}",
+      },
+      default: SlaSeverity.MEDIUM,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+// Main SLA Exception Schema
+const slaExceptionSchema = new Schema<ISlaException, SlaExceptionModel>(
+  {
+    parcel: {
+      type: Schema.Types.ObjectId,
+      ref: "Parcel",
+      required: [true, "Parcel is required"],
+    },
+    trackingId: {
+      type: String,
+      required: [true, "Tracking ID is required"],
+    },
+    rule: {
+      type: Schema.Types.ObjectId,
+      ref: "SlaRule",
+      required: [true, "SLA rule is required"],
+    },
+    ruleName: {
+      type: String,
+      required: [true, "Rule name is required"],
+    },
+    type: {
+      type: String,
+      enum: Object.values(SlaRuleType),
+      required: [true, "Rule type is required"],
+    },
+    severity: {
+      type: String,
+      enum: Object.values(SlaSeverity),
+      required: [true, "Severity is required"],
+    },
+    parcelStatus: {
+      type: String,
+      required: [true, "Parcel status is required"],
+    },
+    urgency: {
+      type: String,
+      enum: urgencyValues,
+      required: [true, "Urgency is required"],
+    },
+    breachedAt: {
+      type: Date,
+      required: [true, "Breach time is required"],
+    },
+    detectedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    state: {
+      type: String,
+      enum: Object.values(SlaExceptionState),
+      default: SlaExceptionState.OPEN,
+    },
+    acknowledgedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    acknowledgedAt: {
+      type: Date,
+    },
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    resolvedAt: {
+      type: Date,
+    },
+    resolutionNote: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Resolution note cannot exceed 500 characters"],
+    },
+    autoResolved: {
+      type: Boolean,
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+slaExceptionSchema.index({ state: 1, severity: 1, breachedAt: -1 });
+slaExceptionSchema.index({ parcel: 1, rule: 1, state: 1 });
+
+export const SlaRule = model<ISlaRule, SlaRuleModel>("SlaRule", slaRuleSchema);
+export const SlaException = model<ISlaException, SlaExceptionModel>(
+  "SlaException",
+  slaExceptionSchema
+);
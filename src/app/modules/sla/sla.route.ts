@@ -0,0 +1,65 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { SlaController } from "./sla.controller";
+import { SlaValidation } from "./sla.validation";
+
+const router = Router();
+
+// Admin Routes
+router.get("/rules", checkAuth("admin"), SlaController.getAllSlaRules);
+
+router.post(
+  "/rules",
+  checkAuth("admin"),
+  validateRequest(SlaValidation.createSlaRuleValidationSchema),
+  SlaController.createSlaRule
+);
+
+router.get(
+  "/rules/:id",
+  checkAuth("admin"),
+  validateRequest(SlaValidation.slaIdValidationSchema),
+  SlaController.getSlaRuleById
+);
+
+router.put(
+  "/rules/:id",
+  checkAuth("admin"),
+  validateRequest(SlaValidation.slaIdValidationSchema),
+  validateRequest(SlaValidation.updateSlaRuleValidationSchema),
+  SlaController.updateSlaRule
+);
+
+router.delete(
+  "/rules/:id",
+  checkAuth("admin"),
+  validateRequest(SlaValidation.slaIdValidationSchema),
+  SlaController.deleteSlaRule
+);
+
+router.get(
+  "/exceptions",
+  checkAuth("admin"),
+  validateRequest(SlaValidation.getSlaExceptionsValidationSchema),
+  SlaController.getSlaExceptions
+);
+
+router.put(
+  "/exceptions/:id/acknowledge",
+  checkAuth("admin"),
+  validateRequest(SlaValidation.slaIdValidationSchema),
+  SlaController.acknowledgeSlaException
+);
+
+router.put(
+  "/exceptions/:id/resolve",
+  checkAuth("admin"),
+  validateRequest(SlaValidation.slaIdValidationSchema),
+  validateRequest(SlaValidation.resolveSlaExceptionValidationSchema),
+  SlaController.resolveSlaException
+);
+
+router.post("/check", checkAuth("admin"), SlaController.runSlaCheck);
+
+export const SlaRoutes = router;
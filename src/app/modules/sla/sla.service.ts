@@ -0,0 +1,384 @@
+import { StatusCodes } from "http-status-codes";
+import { Types } from "mongoose";
+import AppError from "../../errorHelpers/AppError";
+import { QueryBuilder } from "../../utils/QueryBuilder";
+import { closedParcelStatuses } from "../parcel/parcel.constant";
+import { IParcel, IStatusLog } from "../parcel/parcel.interface";
+import { Parcel } from "../parcel/parcel.model";
+import {
+  ICreateSlaRule,
+  ISlaCheckReport,
+  ISlaException,
+  ISlaRule,
+  IUpdateSlaRule,
+  SlaExceptionState,
+  SlaRuleType,
+} from "./sla.interface";
+import { SlaException, SlaRule } from "./sla.model";
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+// Fields shown for the parcel behind an exception
+const exceptionParcelFields =
+  "trackingId currentStatus deliveryInfo promisedDeliveryDate estimatedDeliveryDate deliveryPersonnel currentHub";
+
+interface ISlaBreach {
+  parcel: Pick<
+    IParcel,
+    "_id" | "trackingId" | "currentStatus" | "deliveryInfo"
+  >;
+  breachedAt: Date;
+}
+
+// When the parcel entered its current status (piece scans and hub scans do not reset it)
+const getStatusEnteredAt = (
+  statusHistory: IStatusLog[],
+  currentStatus: string
+): Date | undefined => {
+  let enteredAt: Date | undefined;
+
+  for (let i = statusHistory.length - 1; i >= 0; i--) {
+    const log = statusHistory[i];
+    if (log.pieceId) {
+      continue;
+    }
+    if (log.status !== currentStatus) {
+      break;
+    }
+    enteredAt = log.timestamp;
+  }
+
+  return enteredAt;
+};
+
+// Parcels currently breaching a rule, with the time each crossed the limit
+const findBreaches = async (
+  rule: ISlaRule,
+  now: Date
+): Promise<ISlaBreach[]> => {
+  const limit = new Date(now.getTime() - rule.maxHours * MS_PER_HOUR);
+  const urgencyFilter = rule.urgency && {
+    "deliveryInfo.urgency": rule.urgency,
+  };
+
+  if (rule.type === SlaRuleType.STATUS_DURATION) {
+    const parcels = await Parcel.find({
+      currentStatus: rule.status,
+      ...urgencyFilter,
+      statusHistory: {
+        $elemMatch: { status: rule.status, timestamp: { $lte: limit } },
+      },
+    }).select("trackingId currentStatus deliveryInfo statusHistory");
+
+    return parcels.flatMap((parcel) => {
+      const enteredAt = getStatusEnteredAt(
+        parcel.statusHistory,
+        parcel.currentStatus
+      );
+      if (!enteredAt || enteredAt > limit) {
+        return [];
+      }
+
+      return [
+        {
+          parcel,
+          breachedAt: new Date(
+            enteredAt.getTime() + rule.maxHours * MS_PER_HOUR
+          ),
+        },
+      ];
+    });
+  }
+
+  // The promised delivery day ends 24 hours after its midnight, parcels
+  // created before promises were stored fall back to their estimate
+  const dayEndLimit = new Date(limit.getTime() - 24 * MS_PER_HOUR);
+  const parcels = await Parcel.find({
+    currentStatus: { $nin: closedParcelStatuses },
+    ...urgencyFilter,
+    $or: [
+      { promisedDeliveryDate: { $lte: dayEndLimit } },
+      {
+        promisedDeliveryDate: { $exists: false },
+        estimatedDeliveryDate: { $lte: dayEndLimit },
+      },
+    ],
+  }).select(
+    "trackingId currentStatus deliveryInfo promisedDeliveryDate estimatedDeliveryDate"
+  );
+
+  return parcels.map((parcel) => {
+    const promisedAt = (parcel.promisedDeliveryDate ??
+      parcel.estimatedDeliveryDate) as Date;
+
+    return {
+      parcel,
+      breachedAt: new Date(
+        promisedAt.getTime() + (24 + rule.maxHours) * MS_PER_HOUR
+      ),
+    };
+  });
+};
+
+// Raise exceptions for new breaches and close those that no longer breach
+const runSlaCheck = async (): Promise<ISlaCheckReport> => {
+  const now = new Date();
+  const rules = await SlaRule.find({ isActive: true });
+
+  let exceptionsRaised = 0;
+  let exceptionsResolved = 0;
+
+  for (const rule of rules) {
+    const breaches = await findBreaches(rule, now);
+    const breachKeys = new Set<string>();
+
+    for (const { parcel, breachedAt } of breaches) {
+      breachKeys.add(`${parcel._id.toString()}:${breachedAt.getTime()}`);
+
+      // One exception per breach, even after it has been resolved
+      const result = await SlaException.updateOne(
+        { parcel: parcel._id, rule: rule._id, breachedAt },
+        {
+          $setOnInsert: {
+            trackingId: parcel.trackingId,
+            ruleName: rule.name,
+            type: rule.type,
+            severity: rule.severity,
+            parcelStatus: parcel.currentStatus,
+            urgency: parcel.deliveryInfo.urgency,
+            detectedAt: now,
+            state: SlaExceptionState.OPEN,
+          },
+        },
+        { upsert: true }
+      );
+      exceptionsRaised += result.upsertedCount;
+    }
+
+    // Parcels that moved on (or were delivered) no longer need attention
+    const unresolvedExceptions = await SlaException.find({
+      rule: rule._id,
+      state: { $ne: SlaExceptionState.RESOLVED },
+    }).select("parcel breachedAt");
+
+    const recoveredIds = unresolvedExceptions
+      .filter(
+        (exception) =>
+          !breachKeys.has(
+            `${exception.parcel.toString()}:${exception.breachedAt.getTime()}`
+          )
+      )
+      .map((exception) => exception._id);
+
+    if (recoveredIds.length) {
+      const result = await SlaException.updateMany(
+        {
+          _id: { $in: recoveredIds },
+          state: { $ne: SlaExceptionState.RESOLVED },
+        },
+        {
+          state: SlaExceptionState.RESOLVED,
+          resolvedAt: now,
+          resolutionNote: "Parcel no longer breaches the rule",
+          autoResolved: true,
+        }
+      );
+      exceptionsResolved += result.modifiedCount;
+    }
+  }
+
+  return {
+    rulesChecked: rules.length,
+    exceptionsRaised,
+    exceptionsResolved,
+    checkedAt: now,
+  };
+};
+
+// Get all SLA rules (Admin only)
+const getAllSlaRules = async (
+  query: Record<string, string>
+): Promise<{
+  rules: ISlaRule[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const ruleQuery = new QueryBuilder(SlaRule.find(), query)
+    .search(["name", "status"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const rules = (await ruleQuery.build()) as ISlaRule[];
+  const meta = await ruleQuery.getMeta();
+
+  return { rules, meta };
+};
+
+// Get SLA rule by ID (Admin only)
+const getSlaRuleById = async (ruleId: string): Promise<ISlaRule> => {
+  const rule = await SlaRule.findById(ruleId);
+
+  if (!rule) {
+    throw new AppError(StatusCodes.NOT_FOUND, "SLA rule not found");
+  }
+
+  return rule;
+};
+
+// Create an SLA rule (Admin only)
+const createSlaRule = async (
+  adminId: string,
+  payload: ICreateSlaRule
+): Promise<ISlaRule> => {
+  const isOverdueRule = payload.type === SlaRuleType.DELIVERY_OVERDUE;
+
+  return SlaRule.create({
+    ...payload,
+    // Overdue rules watch every open status
+    ...(isOverdueRule && { status: undefined }),
+    createdBy: adminId,
+  });
+};
+
+// Update an SLA rule (Admin only)
+const updateSlaRule = async (
+  ruleId: string,
+  payload: IUpdateSlaRule
+): Promise<ISlaRule> => {
+  const rule = await getSlaRuleById(ruleId);
+
+  const type = payload.type ?? rule.type;
+  const status = payload.status ?? rule.status;
+  if (type === SlaRuleType.STATUS_DURATION && !status) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Status is required for status_duration rules"
+    );
+  }
+
+  // Overdue rules watch every open status
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { status: _, ...overdueRuleFields } = payload;
+  const updatedRule = await SlaRule.findByIdAndUpdate(
+    ruleId,
+    type === SlaRuleType.DELIVERY_OVERDUE
+      ? { ...overdueRuleFields, $unset: { status: 1 } }
+      : payload,
+    { new: true, runValidators: true }
+  );
+
+  return updatedRule as ISlaRule;
+};
+
+// Delete an SLA rule without unresolved exceptions (Admin only)
+const deleteSlaRule = async (ruleId: string): Promise<void> => {
+  await getSlaRuleById(ruleId);
+
+  if (
+    await SlaException.exists({
+      rule: ruleId,
+      state: { $ne: SlaExceptionState.RESOLVED },
+    })
+  ) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Rule has unresolved exceptions, resolve them or deactivate the rule instead"
+    );
+  }
+
+  await SlaRule.findByIdAndDelete(ruleId);
+};
+
+// Get the exception queue (Admin only)
+const getSlaExceptions = async (
+  query: Record<string, string>
+): Promise<{
+  exceptions: ISlaException[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const exceptionQuery = new QueryBuilder(
+    SlaException.find().populate("parcel", exceptionParcelFields),
+    { sort: "-breachedAt", ...query }
+  )
+    .search(["trackingId", "ruleName"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const exceptions = (await exceptionQuery.build()) as ISlaException[];
+  const meta = await exceptionQuery.getMeta();
+
+  return { exceptions, meta };
+};
+
+// Explain why an exception cannot move to the requested state
+const assertExceptionUpdated = async (
+  exception: ISlaException | null,
+  exceptionId: string
+): Promise<ISlaException> => {
+  if (exception) {
+    return exception;
+  }
+
+  const existingException = await SlaException.findById(exceptionId);
+  if (!existingException) {
+    throw new AppError(StatusCodes.NOT_FOUND, "SLA exception not found");
+  }
+
+  throw new AppError(
+    StatusCodes.BAD_REQUEST,
+    `SLA exception is already ${existingException.state}`
+  );
+};
+
+// Take ownership of an open exception (Admin only)
+const acknowledgeSlaException = async (
+  exceptionId: string,
+  adminId: string
+): Promise<ISlaException> => {
+  const exception = await SlaException.findOneAndUpdate(
+    { _id: exceptionId, state: SlaExceptionState.OPEN },
+    {
+      state: SlaExceptionState.ACKNOWLEDGED,
+      acknowledgedBy: new Types.ObjectId(adminId),
+      acknowledgedAt: new Date(),
+    },
+    { new: true, runValidators: true }
+  );
+
+  return assertExceptionUpdated(exception, exceptionId);
+};
+
+// Close an exception (Admin only)
+const resolveSlaException = async (
+  exceptionId: string,
+  adminId: string,
+  note?: string
+): Promise<ISlaException> => {
+  const exception = await SlaException.findOneAndUpdate(
+    { _id: exceptionId, state: { $ne: SlaExceptionState.RESOLVED } },
+    {
+      state: SlaExceptionState.RESOLVED,
+      resolvedBy: new Types.ObjectId(adminId),
+      resolvedAt: new Date(),
+      resolutionNote: note,
+    },
+    { new: true, runValidators: true }
+  );
+
+  return assertExceptionUpdated(exception, exceptionId);
+};
+
+export const SlaService = {
+  runSlaCheck,
+  getAllSlaRules,
+  getSlaRuleById,
+  createSlaRule,
+  updateSlaRule,
+  deleteSlaRule,
+  getSlaExceptions,
+  acknowledgeSlaException,
+  resolveSlaException,
+};
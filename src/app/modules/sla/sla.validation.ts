@@ -0,0 +1,91 @@
+import { z } from "zod";
+import { SlaExceptionState, SlaRuleType, SlaSeverity } from "./sla.interface";
+
+const ruleNameSchema = z
+  .string()
+  .trim()
+  .min(2, "Rule name must be at least 2 characters")
+  .max(100, "Rule name cannot exceed 100 characters");
+
+const ruleTypeSchema = z.nativeEnum(SlaRuleType, {
+  message: "Rule type must be status_duration or delivery_overdue",
+});
+
+const urgencySchema = z.enum(["standard", "express", "urgent"], {
+  message: "Urgency must be standard, express, or urgent",
+});
+
+const maxHoursSchema = z
+  .number()
+  .min(0, "Maximum hours cannot be negative")
+  .max(24 * 365, "Maximum hours cannot exceed one year");
+
+const severitySchema = z.nativeEnum(SlaSeverity, {
+  message: "Severity must be low, medium, or high",
+});
+
+const createSlaRuleValidationSchema = z.object({
+  body: z
+    .object({
+      name: ruleNameSchema,
+      type: ruleTypeSchema,
+      status: z.string().trim().min(1, "Status cannot be empty").optional(),
+      urgency: urgencySchema.optional(),
+      maxHours: maxHoursSchema,
+      severity: severitySchema.optional(),
+    })
+    .refine(
+      (body) => body.type !== SlaRuleType.STATUS_DURATION || !!body.status,
+      {
+        message: "Status is required for status_duration rules",
+        path: ["status"],
+      }
+    ),
+});
+
+const updateSlaRuleValidationSchema = z.object({
+  body: z.object({
+    name: ruleNameSchema.optional(),
+    type: ruleTypeSchema.optional(),
+    status: z.string().trim().min(1, "Status cannot be empty").optional(),
+    urgency: urgencySchema.optional(),
+    maxHours: maxHoursSchema.optional(),
+    severity: severitySchema.optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+const slaIdValidationSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid ID format"),
+  }),
+});
+
+const getSlaExceptionsValidationSchema = z.object({
+  query: z.object({
+    state: z.nativeEnum(SlaExceptionState).optional(),
+    severity: severitySchema.optional(),
+    type: ruleTypeSchema.optional(),
+    trackingId: z.string().trim().optional(),
+  }),
+});
+
+const resolveSlaExceptionValidationSchema = z.object({
+  body: z
+    .object({
+      note: z
+        .string()
+        .trim()
+        .max(500, "Note cannot exceed 500 characters")
+        .optional(),
+    })
+    .optional(),
+});
+
+export const SlaValidation = {
+  createSlaRuleValidationSchema,
+  updateSlaRuleValidationSchema,
+  slaIdValidationSchema,
+  getSlaExceptionsValidationSchema,
+  resolveSlaExceptionValidationSchema,
+};
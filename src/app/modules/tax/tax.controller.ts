@@ -0,0 +1,89 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { TaxService } from "./tax.service";
+
+// Get all tax rules (Admin only)
+const getAllTaxRules = catchAsync(async (req: Request, res: Response) => {
+  const result = await TaxService.getAllTaxRules(
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Tax rules retrieved successfully",
+    data: result.taxRules,
+    meta: result.meta,
+  });
+});
+
+// Get tax rule by ID (Admin only)
+const getTaxRuleById = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await TaxService.getTaxRuleById(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Tax rule retrieved successfully",
+    data: result,
+  });
+});
+
+// Create tax rule (Admin only)
+const createTaxRule = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await TaxService.createTaxRule(adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: "Tax rule created successfully",
+    data: result,
+  });
+});
+
+// Update tax rule (Admin only)
+const updateTaxRule = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await TaxService.updateTaxRule(id, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Tax rule updated successfully",
+    data: result,
+  });
+});
+
+// Delete tax rule (Admin only)
+const deleteTaxRule = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  await TaxService.deleteTaxRule(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Tax rule deleted successfully",
+    data: null,
+  });
+});
+
+export const TaxController = {
+  getAllTaxRules,
+  getTaxRuleById,
+  createTaxRule,
+  updateTaxRule,
+  deleteTaxRule,
+};
@@ -0,0 +1,44 @@
+import { ObjectId } from "mongoose";
+
+export enum TaxMode {
+  INCLUSIVE = "inclusive", // Fees already contain the tax, which is shown separately
+  EXCLUSIVE = "exclusive", // Tax is added on top of the fees
+}
+
+// Pricing components a tax rule can apply to
+export enum TaxableComponent {
+  BASE_FEE = "baseFee",
+  WEIGHT_FEE = "weightFee",
+  SURCHARGE = "surcharge",
+  URGENCY_FEE = "urgencyFee",
+  INSURANCE_PREMIUM = "insurancePremium",
+}
+
+export interface ITaxRule {
+  _id: ObjectId;
+  name: string; // Shown on the tax line, e.g. "VAT"
+  country: string;
+  state?: string; // Every state of the country when empty
+  rate: number; // Percentage
+  mode: TaxMode;
+  components: TaxableComponent[];
+  isActive: boolean;
+  createdBy?: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Input interfaces for API operations
+export interface ICreateTaxRule {
+  name: string;
+  country: string;
+  state?: string;
+  rate: number;
+  mode?: TaxMode;
+  components?: TaxableComponent[];
+}
+
+export type IUpdateTaxRule = Partial<Omit<ICreateTaxRule, "state">> & {
+  state?: string | null; // null makes the rule apply to the whole country
+  isActive?: boolean;
+};
@@ -0,0 +1,59 @@
+import { model, Model, Schema } from "mongoose";
+import { ITaxRule, TaxableComponent, TaxMode } from "./tax.interface";
+
+export type TaxRuleModel = Model<ITaxRule>;
+
+// Main Tax Rule Schema
+const taxRuleSchema = new Schema<ITaxRule, TaxRuleModel>(
+  {
+    name: {
+      type: String,
+      required: [true, "Tax name is required"],
+      trim: true,
+      maxlength: [50, "Tax name cannot exceed 50 characters"],
+    },
+    country: {
+      type: String,
+      required: [true, "Country is required"],
+      trim: true,
+    },
+    state: {
+      type: String,
+      trim: true,
+    },
+    rate: {
+      type: Number,
+      required: [true, "Tax rate is required"],
+      min: [0.01, "Tax rate must be greater than 0"],
+      max: [100, "Tax rate cannot exceed 100"],
+    },
+    mode: {
+      type: String,
+      enum: {
+        values: Object.values(TaxMode),
+        message: "Invalid tax mode: {VALUE}",
+      },
+      default: TaxMode.EXCLUSIVE,
+    },
+    components: {
+      type: [{ type: String, enum: Object.values(TaxableComponent) }],
+      default: Object.values(TaxableComponent),
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+taxRuleSchema.index({ country: 1, state: 1 });
+
+export const TaxRule = model<ITaxRule, TaxRuleModel>("TaxRule", taxRuleSchema);
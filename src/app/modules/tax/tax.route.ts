@@ -0,0 +1,41 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { TaxController } from "./tax.controller";
+import { TaxValidation } from "./tax.validation";
+
+const router = Router();
+
+// Admin Routes
+router.get("/", checkAuth("admin"), TaxController.getAllTaxRules);
+
+router.post(
+  "/",
+  checkAuth("admin"),
+  validateRequest(TaxValidation.createTaxRuleValidationSchema),
+  TaxController.createTaxRule
+);
+
+router.get(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(TaxValidation.taxRuleIdValidationSchema),
+  TaxController.getTaxRuleById
+);
+
+router.put(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(TaxValidation.taxRuleIdValidationSchema),
+  validateRequest(TaxValidation.updateTaxRuleValidationSchema),
+  TaxController.updateTaxRule
+);
+
+router.delete(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(TaxValidation.taxRuleIdValidationSchema),
+  TaxController.deleteTaxRule
+);
+
+export const TaxRoutes = router;
@@ -0,0 +1,152 @@
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { QueryBuilder } from "../../utils/QueryBuilder";
+import { IZoneAddress } from "../zone/zone.interface";
+import {
+  ICreateTaxRule,
+  ITaxRule,
+  IUpdateTaxRule,
+  TaxMode,
+} from "./tax.interface";
+import { TaxRule } from "./tax.model";
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+// Taxes of one country are either all inclusive or all exclusive, so a price has one display mode
+const assertCountryMode = async (
+  rule: Pick<ITaxRule, "country" | "mode" | "isActive">,
+  taxRuleId?: string
+): Promise<void> => {
+  if (!rule.isActive) {
+    return;
+  }
+
+  const otherRules = await TaxRule.find({
+    isActive: true,
+    mode: { $ne: rule.mode },
+    ...(taxRuleId && { _id: { $ne: taxRuleId } }),
+  });
+  const conflictingRule = otherRules.find(
+    (otherRule) => normalize(otherRule.country) === normalize(rule.country)
+  );
+
+  if (conflictingRule) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Active taxes of ${rule.country} are ${conflictingRule.mode}, all taxes of a country must use the same mode`
+    );
+  }
+};
+
+// Get all tax rules (Admin only)
+const getAllTaxRules = async (
+  query: Record<string, string>
+): Promise<{
+  taxRules: ITaxRule[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const taxRuleQuery = new QueryBuilder(TaxRule.find(), {
+    sort: "country",
+    ...query,
+  })
+    .search(["name", "country", "state"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const taxRules = (await taxRuleQuery.build()) as ITaxRule[];
+  const meta = await taxRuleQuery.getMeta();
+
+  return { taxRules, meta };
+};
+
+// Get tax rule by ID (Admin only)
+const getTaxRuleById = async (taxRuleId: string): Promise<ITaxRule> => {
+  const taxRule = await TaxRule.findById(taxRuleId);
+
+  if (!taxRule) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Tax rule not found");
+  }
+
+  return taxRule;
+};
+
+// Create a tax rule for a country or state (Admin only)
+const createTaxRule = async (
+  adminId: string,
+  payload: ICreateTaxRule
+): Promise<ITaxRule> => {
+  await assertCountryMode({
+    country: payload.country,
+    mode: payload.mode ?? TaxMode.EXCLUSIVE,
+    isActive: true,
+  });
+
+  return TaxRule.create({ ...payload, createdBy: adminId });
+};
+
+// Update a tax rule, including deactivating it (Admin only)
+const updateTaxRule = async (
+  taxRuleId: string,
+  payload: IUpdateTaxRule
+): Promise<ITaxRule> => {
+  const taxRule = await getTaxRuleById(taxRuleId);
+
+  await assertCountryMode(
+    {
+      country: payload.country ?? taxRule.country,
+      mode: payload.mode ?? taxRule.mode,
+      isActive: payload.isActive ?? taxRule.isActive,
+    },
+    taxRuleId
+  );
+
+  // A null state widens the rule to every state of its country
+  const { state, ...fields } = payload;
+  const update = {
+    ...fields,
+    ...(state === null ? { $unset: { state: 1 } } : state && { state }),
+  };
+
+  const updatedTaxRule = await TaxRule.findByIdAndUpdate(taxRuleId, update, {
+    new: true,
+    runValidators: true,
+  });
+
+  return updatedTaxRule as ITaxRule;
+};
+
+// Delete a tax rule, parcels keep the tax lines they were priced with (Admin only)
+const deleteTaxRule = async (taxRuleId: string): Promise<void> => {
+  await getTaxRuleById(taxRuleId);
+
+  await TaxRule.findByIdAndDelete(taxRuleId);
+};
+
+// Active tax rules, matched in memory like zones so matching stays case-insensitive
+const getActiveTaxRules = async (): Promise<ITaxRule[]> => {
+  return TaxRule.find({ isActive: true }).sort({ country: 1, state: 1 });
+};
+
+// Tax rules of an address: its country's rules plus the rules of its state
+const matchTaxRules = (
+  taxRules: ITaxRule[],
+  address: IZoneAddress
+): ITaxRule[] => {
+  return taxRules.filter(
+    (taxRule) =>
+      normalize(taxRule.country) === normalize(address.country) &&
+      (!taxRule.state || normalize(taxRule.state) === normalize(address.state))
+  );
+};
+
+export const TaxService = {
+  getAllTaxRules,
+  getTaxRuleById,
+  createTaxRule,
+  updateTaxRule,
+  deleteTaxRule,
+  getActiveTaxRules,
+  matchTaxRules,
+};
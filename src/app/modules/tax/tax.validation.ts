@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { TaxableComponent, TaxMode } from "./tax.interface";
+
+const taxNameSchema = z
+  .string()
+  .trim()
+  .min(2, "Tax name must be at least 2 characters")
+  .max(50, "Tax name cannot exceed 50 characters");
+
+const taxRateSchema = z
+  .number()
+  .min(0.01, "Tax rate must be greater than 0")
+  .max(100, "Tax rate cannot exceed 100");
+
+const taxableComponentsSchema = z
+  .array(z.nativeEnum(TaxableComponent))
+  .min(1, "At least one pricing component must be taxed")
+  .refine((components) => new Set(components).size === components.length, {
+    message: "Pricing components must not repeat",
+  });
+
+const createTaxRuleValidationSchema = z.object({
+  body: z.object({
+    name: taxNameSchema,
+    country: z.string().trim().min(1, "Country is required"),
+    state: z.string().trim().min(1, "State cannot be empty").optional(),
+    rate: taxRateSchema,
+    mode: z.nativeEnum(TaxMode).optional(),
+    components: taxableComponentsSchema.optional(),
+  }),
+});
+
+const updateTaxRuleValidationSchema = z.object({
+  body: z.object({
+    name: taxNameSchema.optional(),
+    country: z.string().trim().min(1, "Country cannot be empty").optional(),
+    state: z
+      .string()
+      .trim()
+      .min(1, "State cannot be empty")
+      .nullable()
+      .optional(),
+    rate: taxRateSchema.optional(),
+    mode: z.nativeEnum(TaxMode).optional(),
+    components: taxableComponentsSchema.optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+const taxRuleIdValidationSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid tax rule ID format"),
+  }),
+});
+
+export const TaxValidation = {
+  createTaxRuleValidationSchema,
+  updateTaxRuleValidationSchema,
+  taxRuleIdValidationSchema,
+};
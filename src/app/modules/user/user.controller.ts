@@ -94,6 +94,37 @@ const updateUserRole = catchAsync(async (req: Request, res: Response) => {
   });
 });
 
+// Update rider profile (Admin only)
+const updateRiderProfile = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const updatedUser = await UserService.updateRiderProfile(id, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Rider profile updated successfully",
+    data: updatedUser,
+  });
+});
+
+// Update sender billing type (Admin only)
+const updateBillingType = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const updatedUser = await UserService.updateBillingType(
+    id,
+    req.body.billingType
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Billing type updated successfully",
+    data: updatedUser,
+  });
+});
+
 // Block/Unblock user (Admin only)
 const blockUnblockUser = catchAsync(async (req: Request, res: Response) => {
   const { id } = req.params;
@@ -171,6 +202,8 @@ export const UserController = {
   getMyProfile,
   updateProfile,
   updateUserRole,
+  updateRiderProfile,
+  updateBillingType,
   blockUnblockUser,
   changePassword,
   deleteUser,
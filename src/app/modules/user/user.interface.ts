@@ -4,6 +4,14 @@ export enum IsActive {
   INACTIVE = "inactive",
 }
 
+// How a sender pays shipping fees
+export enum BillingType {
+  PREPAID = "prepaid", // Invoices are paid before parcels are approved
+  POSTPAID = "postpaid", // Invoices are settled later
+}
+
+export type UserRole = "admin" | "sender" | "receiver" | "rider";
+
 export interface IUserJWT {
   userId: string;
   email: string;
@@ -1,6 +1,6 @@
 import bcrypt from "bcrypt";
-import { model, Model, Schema } from "mongoose";
-import { IsActive } from "./user.interface";
+import { model, Model, ObjectId, Schema } from "mongoose";
+import { BillingType, IsActive, UserRole } from "./user.interface";
 
 export interface IAddress {
   street: string;
@@ -10,6 +10,24 @@ export interface IAddress {
   country: string;
 }
 
+export interface IVehicleInfo {
+  type: string;
+  plateNumber: string;
+  maxWeight?: number; // Heaviest parcel the vehicle carries, in kg
+  maxDimensions?: {
+    length: number;
+    width: number;
+    height: number;
+  }; // Largest parcel the vehicle carries, in cm
+}
+
+export interface IRiderProfile {
+  employeeId?: string;
+  vehicleInfo?: IVehicleInfo;
+  zones: ObjectId[]; // Service zones the rider is auto-assigned parcels in
+  isActive: boolean; // Inactive riders keep their account but take no new parcels
+}
+
 export interface IUser {
   _id: string;
   name: string;
@@ -17,7 +35,9 @@ export interface IUser {
   password: string;
   phone?: string;
   address?: IAddress;
-  role?: "admin" | "sender" | "receiver";
+  role?: UserRole;
+  riderProfile?: IRiderProfile; // Only set for riders
+  billingType?: BillingType; // How the sender pays shipping fees
   isBlocked?: boolean;
   isVerified?: boolean;
   isActive?: IsActive;
@@ -66,6 +86,53 @@ const addressSchema = new Schema<IAddress>(
   { _id: false, versionKey: false }
 );
 
+const vehicleInfoSchema = new Schema<IVehicleInfo>(
+  {
+    type: {
+      type: String,
+      required: [true, "Vehicle type is required"],
+      trim: true,
+    },
+    plateNumber: {
+      type: String,
+      required: [true, "Plate number is required"],
+      trim: true,
+      uppercase: true,
+    },
+    maxWeight: {
+      type: Number,
+      min: [0.1, "Maximum weight must be at least 0.1 kg"],
+    },
+    maxDimensions: {
+      length: { type: Number, min: [1, "Length must be at least 1 cm"] },
+      width: { type: Number, min: [1, "Width must be at least 1 cm"] },
+      height: { type: Number, min: [1, "Height must be at least 1 cm"] },
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+const riderProfileSchema = new Schema<IRiderProfile>(
+  {
+    employeeId: {
+      type: String,
+      trim: true,
+    },
+    vehicleInfo: {
+      type: vehicleInfoSchema,
+    },
+    zones: {
+      type: [{ type: Schema.Types.ObjectId, ref: "Zone" }],
+      default: [],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
 const userSchema = new Schema<IUser, UserModel, IUserMethods>(
   {
     name: {
@@ -105,12 +172,23 @@ const userSchema = new Schema<IUser, UserModel, IUserMethods>(
     role: {
       type: String,
       enum: {
-        values: ["admin", "sender", "receiver"],
-        message: "Role must be admin, sender, or receiver",
+        values: ["admin", "sender", "receiver", "rider"],
+        message: "Role must be admin, sender, receiver, or rider",
       },
       // required: [true, "Role is required"],
       default: "sender",
     },
+    riderProfile: {
+      type: riderProfileSchema,
+    },
+    billingType: {
+      type: String,
+      enum: {
+        values: Object.values(BillingType),
+        message: "Billing type must be prepaid or postpaid",
+      },
+      default: BillingType.POSTPAID,
+    },
     isBlocked: {
       type: Boolean,
       default: false,
@@ -156,4 +234,7 @@ userSchema.methods.isPasswordMatched = async function (
   return await bcrypt.compare(givenPassword, savedPassword);
 };
 
+userSchema.index({ role: 1, "riderProfile.isActive": 1 });
+userSchema.index({ "riderProfile.zones": 1 });
+
 export const User = model<IUser, UserModel>("User", userSchema);
@@ -20,6 +20,20 @@ router.put(
   UserController.updateUserRole
 ); // Update user role (admin only)
 
+router.put(
+  "/:id/rider-profile",
+  checkAuth("admin"),
+  validateRequest(UserValidation.updateRiderProfileValidationSchema),
+  UserController.updateRiderProfile
+); // Update rider vehicle, employee ID and active status (admin only)
+
+router.put(
+  "/:id/billing",
+  checkAuth("admin"),
+  validateRequest(UserValidation.updateBillingTypeValidationSchema),
+  UserController.updateBillingType
+); // Set sender billing type to prepaid or postpaid (admin only)
+
 router.put(
   "/:id/block",
   checkAuth("admin"),
@@ -32,20 +46,20 @@ router.delete("/:id", checkAuth("admin"), UserController.deleteUser); // Delete
 // User profile routes (authenticated users)
 router.get(
   "/profile/me",
-  checkAuth("admin", "sender", "receiver"),
+  checkAuth("admin", "sender", "receiver", "rider"),
   UserController.getMyProfile
 ); // Get current user profile
 
 router.put(
   "/profile/update",
-  checkAuth("admin", "sender", "receiver"),
+  checkAuth("admin", "sender", "receiver", "rider"),
   validateRequest(UserValidation.updateUserValidationSchema),
   UserController.updateProfile
 ); // Update user profile
 
 router.put(
   "/profile/change-password",
-  checkAuth("admin", "sender", "receiver"),
+  checkAuth("admin", "sender", "receiver", "rider"),
   validateRequest(UserValidation.changePasswordValidationSchema),
   UserController.changePassword
 ); // Change password
@@ -1,7 +1,9 @@
 import mongoose from "mongoose";
 import AppError from "../../errorHelpers/AppError";
 import { QueryBuilder } from "../../utils/QueryBuilder";
-import type { IUser } from "./user.model";
+import type { BillingType, UserRole } from "./user.interface";
+import type { IRiderProfile, IUser } from "./user.model";
+import { Zone } from "../zone/zone.model";
 import { User } from "./user.model";
 
 interface ICreateUser {
@@ -16,7 +18,7 @@ interface ICreateUser {
     zipCode: string;
     country: string;
   };
-  role?: "admin" | "sender" | "receiver";
+  role?: UserRole;
 }
 
 interface IUpdateUser {
@@ -31,6 +33,10 @@ interface IUpdateUser {
   };
 }
 
+type IUpdateRiderProfile = Partial<Omit<IRiderProfile, "zones">> & {
+  zones?: string[];
+};
+
 interface IChangePassword {
   currentPassword: string;
   newPassword: string;
@@ -41,6 +47,7 @@ interface IUserStats {
   adminCount: number;
   senderCount: number;
   receiverCount: number;
+  riderCount: number;
   blockedUsers: number;
   activeUsers: number;
 }
@@ -117,18 +124,87 @@ const updateUser = async (
 
 const updateUserRole = async (
   userId: string,
-  role: "admin" | "sender" | "receiver"
+  role: UserRole
 ): Promise<Omit<IUser, "password"> | null> => {
+  const user = await User.findById(userId);
+
+  if (!user) {
+    throw new AppError(404, "User not found");
+  }
+
+  // New riders start with an empty, active rider profile
   const updatedUser = await User.findByIdAndUpdate(
     userId,
-    { role },
+    {
+      role,
+      ...(role === "rider" &&
+        !user.riderProfile && { riderProfile: { isActive: true } }),
+    },
     { new: true, runValidators: true }
   ).select("-password");
 
-  if (!updatedUser) {
+  return updatedUser;
+};
+
+const updateRiderProfile = async (
+  userId: string,
+  profileData: IUpdateRiderProfile
+): Promise<Omit<IUser, "password"> | null> => {
+  const user = await User.findById(userId);
+
+  if (!user) {
+    throw new AppError(404, "User not found");
+  }
+
+  if (user.role !== "rider") {
+    throw new AppError(400, "User is not a rider");
+  }
+
+  if (profileData.zones?.length) {
+    const zoneCount = await Zone.countDocuments({
+      _id: { $in: profileData.zones },
+    });
+    if (zoneCount !== new Set(profileData.zones).size) {
+      throw new AppError(404, "One or more zones were not found");
+    }
+  }
+
+  // Only overwrite the profile fields that were sent
+  const profileUpdate = Object.fromEntries(
+    Object.entries(profileData)
+      .filter(([, value]) => value !== undefined)
+      .map(([field, value]) => [`riderProfile.${field}`, value])
+  );
+
+  const updatedUser = await User.findByIdAndUpdate(
+    userId,
+    { $set: profileUpdate },
+    { new: true, runValidators: true }
+  ).select("-password");
+
+  return updatedUser;
+};
+
+const updateBillingType = async (
+  userId: string,
+  billingType: BillingType
+): Promise<Omit<IUser, "password"> | null> => {
+  const user = await User.findById(userId);
+
+  if (!user) {
     throw new AppError(404, "User not found");
   }
 
+  if (user.role !== "sender") {
+    throw new AppError(400, "Billing type can only be set for senders");
+  }
+
+  const updatedUser = await User.findByIdAndUpdate(
+    userId,
+    { billingType },
+    { new: true, runValidators: true }
+  ).select("-password");
+
   return updatedUser;
 };
 
@@ -200,6 +276,7 @@ const getUserStats = async (): Promise<IUserStats> => {
   const adminCount = await User.countDocuments({ role: "admin" });
   const senderCount = await User.countDocuments({ role: "sender" });
   const receiverCount = await User.countDocuments({ role: "receiver" });
+  const riderCount = await User.countDocuments({ role: "rider" });
   const blockedUsers = await User.countDocuments({ isBlocked: true });
   const activeUsers = await User.countDocuments({ isBlocked: false });
 
@@ -208,6 +285,7 @@ const getUserStats = async (): Promise<IUserStats> => {
     adminCount,
     senderCount,
     receiverCount,
+    riderCount,
     blockedUsers,
     activeUsers,
   };
@@ -230,6 +308,8 @@ export const UserService = {
   getUserByEmail,
   updateUser,
   updateUserRole,
+  updateRiderProfile,
+  updateBillingType,
   blockUnblockUser,
   changePassword,
   deleteUser,
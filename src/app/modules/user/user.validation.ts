@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { BillingType } from "./user.interface";
 
 const addressValidationSchema = z.object({
   street: z.string().min(1, "Street is required").trim(),
@@ -65,7 +66,44 @@ const updateUserValidationSchema = z.object({
 
 const updateUserRoleValidationSchema = z.object({
   body: z.object({
-    role: z.enum(["admin", "sender", "receiver"]),
+    role: z.enum(["admin", "sender", "receiver", "rider"]),
+  }),
+});
+
+const updateRiderProfileValidationSchema = z.object({
+  body: z.object({
+    employeeId: z.string().trim().min(1, "Employee ID is required").optional(),
+
+    vehicleInfo: z
+      .object({
+        type: z.string().trim().min(1, "Vehicle type is required"),
+        plateNumber: z.string().trim().min(1, "Plate number is required"),
+        maxWeight: z
+          .number()
+          .min(0.1, "Maximum weight must be at least 0.1 kg")
+          .optional(),
+        maxDimensions: z
+          .object({
+            length: z.number().min(1, "Length must be at least 1 cm"),
+            width: z.number().min(1, "Width must be at least 1 cm"),
+            height: z.number().min(1, "Height must be at least 1 cm"),
+          })
+          .optional(),
+      })
+      .optional(),
+
+    zones: z
+      .array(z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid zone ID format"))
+      .max(50, "A rider cannot serve more than 50 zones")
+      .optional(),
+
+    isActive: z.boolean().optional(),
+  }),
+});
+
+const updateBillingTypeValidationSchema = z.object({
+  body: z.object({
+    billingType: z.nativeEnum(BillingType),
   }),
 });
 
@@ -94,6 +132,8 @@ export const UserValidation = {
   createUserValidationSchema,
   updateUserValidationSchema,
   updateUserRoleValidationSchema,
+  updateRiderProfileValidationSchema,
+  updateBillingTypeValidationSchema,
   blockUserValidationSchema,
   changePasswordValidationSchema,
 };
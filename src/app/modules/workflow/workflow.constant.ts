@@ -0,0 +1,237 @@
+import { ParcelStatus } from "../parcel/parcel.interface";
+import { ICreateWorkflow } from "./workflow.interface";
+
+// Statuses the parcel service relies on directly (creation, cancellation, delivery)
+export const requiredWorkflowStatuses: string[] = [
+  ParcelStatus.REQUESTED,
+  ParcelStatus.CANCELLED,
+  ParcelStatus.DELIVERED,
+];
+
+// Roles that may be granted permission to trigger a transition
+export const workflowRoles = ["admin", "sender", "receiver", "rider"];
+
+// Seeded as version 1 when no workflow has been configured yet (mirrors the SRS flow)
+export const defaultWorkflow: ICreateWorkflow = {
+  name: "Standard Delivery",
+  description: "Default parcel delivery workflow",
+  statuses: [
+    { key: ParcelStatus.REQUESTED, label: "Requested", isTerminal: false },
+    { key: ParcelStatus.APPROVED, label: "Approved", isTerminal: false },
+    { key: ParcelStatus.PICKED_UP, label: "Picked Up", isTerminal: false },
+    { key: ParcelStatus.IN_TRANSIT, label: "In Transit", isTerminal: false },
+    {
+      key: ParcelStatus.OUT_FOR_DELIVERY,
+      label: "Out for Delivery",
+      isTerminal: false,
+    },
+    { key: ParcelStatus.DELIVERED, label: "Delivered", isTerminal: true },
+    { key: ParcelStatus.CANCELLED, label: "Cancelled", isTerminal: true },
+    { key: ParcelStatus.RETURNED, label: "Returned", isTerminal: false },
+    {
+      key: ParcelStatus.FAILED_DELIVERY,
+      label: "Failed Delivery",
+      isTerminal: false,
+    },
+  ],
+  transitions: [
+    {
+      from: ParcelStatus.REQUESTED,
+      to: ParcelStatus.APPROVED,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.REQUESTED,
+      to: ParcelStatus.CANCELLED,
+      roles: ["admin", "sender"],
+    },
+    {
+      from: ParcelStatus.APPROVED,
+      to: ParcelStatus.PICKED_UP,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.APPROVED,
+      to: ParcelStatus.CANCELLED,
+      roles: ["admin", "sender"],
+    },
+    {
+      from: ParcelStatus.PICKED_UP,
+      to: ParcelStatus.IN_TRANSIT,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.PICKED_UP,
+      to: ParcelStatus.RETURNED,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.IN_TRANSIT,
+      to: ParcelStatus.OUT_FOR_DELIVERY,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.IN_TRANSIT,
+      to: ParcelStatus.FAILED_DELIVERY,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.OUT_FOR_DELIVERY,
+      to: ParcelStatus.DELIVERED,
+      roles: ["admin", "receiver"],
+    },
+    {
+      from: ParcelStatus.OUT_FOR_DELIVERY,
+      to: ParcelStatus.FAILED_DELIVERY,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.RETURNED,
+      to: ParcelStatus.REQUESTED,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.FAILED_DELIVERY,
+      to: ParcelStatus.OUT_FOR_DELIVERY,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.FAILED_DELIVERY,
+      to: ParcelStatus.RETURNED,
+      roles: ["admin"],
+    },
+  ],
+};
+
+// Seeded as version 2 on top of version 1, adds pickup scheduling, rider
+// updates, multi-piece shipments and terminal returns
+export const defaultWorkflowV2: ICreateWorkflow = {
+  name: "Standard Delivery",
+  description: "Default parcel delivery workflow",
+  statuses: [
+    { key: ParcelStatus.REQUESTED, label: "Requested", isTerminal: false },
+    { key: ParcelStatus.APPROVED, label: "Approved", isTerminal: false },
+    {
+      key: ParcelStatus.PICKUP_SCHEDULED,
+      label: "Pickup Scheduled",
+      isTerminal: false,
+    },
+    { key: ParcelStatus.PICKED_UP, label: "Picked Up", isTerminal: false },
+    { key: ParcelStatus.IN_TRANSIT, label: "In Transit", isTerminal: false },
+    {
+      key: ParcelStatus.OUT_FOR_DELIVERY,
+      label: "Out for Delivery",
+      isTerminal: false,
+    },
+    { key: ParcelStatus.DELIVERED, label: "Delivered", isTerminal: true },
+    { key: ParcelStatus.CANCELLED, label: "Cancelled", isTerminal: true },
+    { key: ParcelStatus.RETURNED, label: "Returned", isTerminal: true },
+    {
+      key: ParcelStatus.FAILED_DELIVERY,
+      label: "Failed Delivery",
+      isTerminal: false,
+    },
+    {
+      key: ParcelStatus.PARTIALLY_DELIVERED,
+      label: "Partially Delivered",
+      isTerminal: false,
+    },
+  ],
+  transitions: [
+    {
+      from: ParcelStatus.REQUESTED,
+      to: ParcelStatus.APPROVED,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.REQUESTED,
+      to: ParcelStatus.CANCELLED,
+      roles: ["admin", "sender"],
+    },
+    {
+      from: ParcelStatus.APPROVED,
+      to: ParcelStatus.PICKED_UP,
+      roles: ["admin", "rider"],
+    },
+    {
+      from: ParcelStatus.APPROVED,
+      to: ParcelStatus.CANCELLED,
+      roles: ["admin", "sender"],
+    },
+    {
+      from: ParcelStatus.APPROVED,
+      to: ParcelStatus.PICKUP_SCHEDULED,
+      roles: ["admin", "sender"],
+    },
+    {
+      from: ParcelStatus.PICKUP_SCHEDULED,
+      to: ParcelStatus.PICKED_UP,
+      roles: ["admin", "rider"],
+    },
+    {
+      from: ParcelStatus.PICKUP_SCHEDULED,
+      to: ParcelStatus.APPROVED,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.PICKUP_SCHEDULED,
+      to: ParcelStatus.CANCELLED,
+      roles: ["admin", "sender"],
+    },
+    {
+      from: ParcelStatus.PICKED_UP,
+      to: ParcelStatus.IN_TRANSIT,
+      roles: ["admin", "rider"],
+    },
+    {
+      from: ParcelStatus.PICKED_UP,
+      to: ParcelStatus.RETURNED,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.IN_TRANSIT,
+      to: ParcelStatus.OUT_FOR_DELIVERY,
+      roles: ["admin", "rider"],
+    },
+    {
+      from: ParcelStatus.IN_TRANSIT,
+      to: ParcelStatus.FAILED_DELIVERY,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.OUT_FOR_DELIVERY,
+      to: ParcelStatus.DELIVERED,
+      roles: ["admin", "receiver", "rider"],
+    },
+    {
+      from: ParcelStatus.OUT_FOR_DELIVERY,
+      to: ParcelStatus.FAILED_DELIVERY,
+      roles: ["admin", "rider"],
+    },
+    {
+      from: ParcelStatus.FAILED_DELIVERY,
+      to: ParcelStatus.OUT_FOR_DELIVERY,
+      roles: ["admin", "rider"],
+    },
+    {
+      from: ParcelStatus.FAILED_DELIVERY,
+      to: ParcelStatus.RETURNED,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.PARTIALLY_DELIVERED,
+      to: ParcelStatus.DELIVERED,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.PARTIALLY_DELIVERED,
+      to: ParcelStatus.FAILED_DELIVERY,
+      roles: ["admin"],
+    },
+    {
+      from: ParcelStatus.PARTIALLY_DELIVERED,
+      to: ParcelStatus.RETURNED,
+      roles: ["admin"],
+    },
+  ],
+};
@@ -0,0 +1,120 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { WorkflowService } from "./workflow.service";
+
+// Get all workflow versions (Admin only)
+const getAllWorkflows = catchAsync(async (req: Request, res: Response) => {
+  const result = await WorkflowService.getAllWorkflows(
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Workflows retrieved successfully",
+    data: result.workflows,
+    meta: result.meta,
+  });
+});
+
+// Get active workflow (Admin only)
+const getActiveWorkflow = catchAsync(async (req: Request, res: Response) => {
+  const result = await WorkflowService.getActiveWorkflow();
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Active workflow retrieved successfully",
+    data: result,
+  });
+});
+
+// Get workflow by version (Admin only)
+const getWorkflowByVersion = catchAsync(async (req: Request, res: Response) => {
+  const { version } = req.params;
+
+  const result = await WorkflowService.getWorkflowByVersion(Number(version));
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Workflow retrieved successfully",
+    data: result,
+  });
+});
+
+// Create new draft workflow version (Admin only)
+const createWorkflow = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await WorkflowService.createWorkflow(adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: "Workflow created successfully",
+    data: result,
+  });
+});
+
+// Update draft workflow version (Admin only)
+const updateWorkflow = catchAsync(async (req: Request, res: Response) => {
+  const { version } = req.params;
+
+  const result = await WorkflowService.updateWorkflow(
+    Number(version),
+    req.body
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Workflow updated successfully",
+    data: result,
+  });
+});
+
+// Activate workflow version (Admin only)
+const activateWorkflow = catchAsync(async (req: Request, res: Response) => {
+  const { version } = req.params;
+
+  const result = await WorkflowService.activateWorkflow(Number(version));
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Workflow activated successfully",
+    data: result,
+  });
+});
+
+// Delete draft workflow version (Admin only)
+const deleteWorkflow = catchAsync(async (req: Request, res: Response) => {
+  const { version } = req.params;
+
+  await WorkflowService.deleteWorkflow(Number(version));
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Workflow deleted successfully",
+    data: null,
+  });
+});
+
+export const WorkflowController = {
+  getAllWorkflows,
+  getActiveWorkflow,
+  getWorkflowByVersion,
+  createWorkflow,
+  updateWorkflow,
+  activateWorkflow,
+  deleteWorkflow,
+};
@@ -0,0 +1,37 @@
+import { ObjectId } from "mongoose";
+
+export interface IWorkflowStatus {
+  key: string; // Status value stored on parcels, e.g. "at_hub"
+  label: string;
+  isTerminal: boolean;
+}
+
+export interface IWorkflowTransition {
+  from: string;
+  to: string;
+  roles: string[]; // Roles allowed to trigger this transition
+}
+
+export interface IWorkflow {
+  _id: ObjectId;
+  name: string;
+  version: number; // Incrementing version, referenced by parcels
+  description?: string;
+  statuses: IWorkflowStatus[];
+  transitions: IWorkflowTransition[];
+  isActive: boolean;
+  activatedAt?: Date; // Set once a version goes live, after which it is locked
+  createdBy?: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Input interfaces for API operations
+export interface ICreateWorkflow {
+  name: string;
+  description?: string;
+  statuses: IWorkflowStatus[];
+  transitions: IWorkflowTransition[];
+}
+
+export type IUpdateWorkflow = Partial<ICreateWorkflow>;
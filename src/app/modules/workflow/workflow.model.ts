@@ -0,0 +1,109 @@
+import { model, Model, Schema } from "mongoose";
+import {
+  IWorkflow,
+  IWorkflowStatus,
+  IWorkflowTransition,
+} from "./workflow.interface";
+
+export type WorkflowModel = Model<IWorkflow>;
+
+// Workflow Status Schema
+const workflowStatusSchema = new Schema<IWorkflowStatus>(
+  {
+    key: {
+      type: String,
+      required: [true, "Status key is required"],
+      trim: true,
+      lowercase: true,
+      match: [
+        /^[a-z][a-z0-9_]*$/,
+        "Status key may only contain lowercase letters, numbers and underscores",
+      ],
+    },
+    label: {
+      type: String,
+      required: [true, "Status label is required"],
+      trim: true,
+    },
+    isTerminal: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Workflow Transition Schema
+const workflowTransitionSchema = new Schema<IWorkflowTransition>(
+  {
+    from: {
+      type: String,
+      required: [true, "Transition source status is required"],
+      trim: true,
+      lowercase: true,
+    },
+    to: {
+      type: String,
+      required: [true, "Transition target status is required"],
+      trim: true,
+      lowercase: true,
+    },
+    roles: {
+      type: [String],
+      default: ["admin"],
+    },
+  },
+  { _id: false, versionKey: false }
+);
+
+// Main Workflow Schema
+const workflowSchema = new Schema<IWorkflow, WorkflowModel>(
+  {
+    name: {
+      type: String,
+      required: [true, "Workflow name is required"],
+      trim: true,
+    },
+    version: {
+      type: Number,
+      required: [true, "Workflow version is required"],
+      unique: true,
+      min: [1, "Workflow version must be at least 1"],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, "Description cannot exceed 500 characters"],
+    },
+    statuses: {
+      type: [workflowStatusSchema],
+      default: [],
+    },
+    transitions: {
+      type: [workflowTransitionSchema],
+      default: [],
+    },
+    isActive: {
+      type: Boolean,
+      default: false,
+    },
+    activatedAt: {
+      type: Date,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+workflowSchema.index({ isActive: 1 });
+
+export const Workflow = model<IWorkflow, WorkflowModel>(
+  "Workflow",
+  workflowSchema
+);
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { WorkflowController } from "./workflow.controller";
+import { WorkflowValidation } from "./workflow.validation";
+
+const router = Router();
+
+// Admin Routes
+router.get("/", checkAuth("admin"), WorkflowController.getAllWorkflows);
+
+router.get(
+  "/active",
+  checkAuth("admin"),
+  WorkflowController.getActiveWorkflow
+);
+
+router.post(
+  "/",
+  checkAuth("admin"),
+  validateRequest(WorkflowValidation.createWorkflowValidationSchema),
+  WorkflowController.createWorkflow
+);
+
+router.get(
+  "/:version",
+  checkAuth("admin"),
+  validateRequest(WorkflowValidation.workflowVersionValidationSchema),
+  WorkflowController.getWorkflowByVersion
+);
+
+router.put(
+  "/:version",
+  checkAuth("admin"),
+  validateRequest(WorkflowValidation.workflowVersionValidationSchema),
+  validateRequest(WorkflowValidation.updateWorkflowValidationSchema),
+  WorkflowController.updateWorkflow
+);
+
+router.put(
+  "/:version/activate",
+  checkAuth("admin"),
+  validateRequest(WorkflowValidation.workflowVersionValidationSchema),
+  WorkflowController.activateWorkflow
+);
+
+router.delete(
+  "/:version",
+  checkAuth("admin"),
+  validateRequest(WorkflowValidation.workflowVersionValidationSchema),
+  WorkflowController.deleteWorkflow
+);
+
+export const WorkflowRoutes = router;
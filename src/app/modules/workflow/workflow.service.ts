@@ -0,0 +1,370 @@
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { QueryBuilder } from "../../utils/QueryBuilder";
+import { Parcel } from "../parcel/parcel.model";
+import {
+  defaultWorkflow,
+  defaultWorkflowV2,
+  requiredWorkflowStatuses,
+  workflowRoles,
+} from "./workflow.constant";
+import {
+  ICreateWorkflow,
+  IUpdateWorkflow,
+  IWorkflow,
+} from "./workflow.interface";
+import { Workflow } from "./workflow.model";
+
+// Version assigned to parcels created before workflows were stored in the database
+const LEGACY_WORKFLOW_VERSION = 1;
+
+// Version the current default workflow is seeded as
+const DEFAULT_WORKFLOW_VERSION = 2;
+
+// Tries at taking the next version number when versions are created concurrently
+const MAX_VERSION_ATTEMPTS = 5;
+
+// Validate statuses and transitions of a workflow definition
+const validateDefinition = (definition: ICreateWorkflow): void => {
+  const errors: string[] = [];
+  const statusKeys = definition.statuses.map((status) => status.key);
+
+  const duplicateKeys = statusKeys.filter(
+    (key, index) => statusKeys.indexOf(key) !== index
+  );
+  if (duplicateKeys.length) {
+    errors.push(`Duplicate statuses: ${[...new Set(duplicateKeys)].join(", ")}`);
+  }
+
+  const missingKeys = requiredWorkflowStatuses.filter(
+    (key) => !statusKeys.includes(key)
+  );
+  if (missingKeys.length) {
+    errors.push(`Workflow must include statuses: ${missingKeys.join(", ")}`);
+  }
+
+  definition.transitions.forEach((transition) => {
+    const label = `${transition.from} -> ${transition.to}`;
+
+    if (!statusKeys.includes(transition.from)) {
+      errors.push(`Transition ${label} uses unknown status ${transition.from}`);
+    }
+    if (!statusKeys.includes(transition.to)) {
+      errors.push(`Transition ${label} uses unknown status ${transition.to}`);
+    }
+    if (transition.from === transition.to) {
+      errors.push(`Transition ${label} must change the status`);
+    }
+
+    const fromStatus = definition.statuses.find(
+      (status) => status.key === transition.from
+    );
+    if (fromStatus?.isTerminal) {
+      errors.push(`Terminal status ${transition.from} cannot have transitions`);
+    }
+
+    const unknownRoles = transition.roles.filter(
+      (role) => !workflowRoles.includes(role)
+    );
+    if (unknownRoles.length) {
+      errors.push(`Transition ${label} uses unknown roles: ${unknownRoles.join(", ")}`);
+    }
+  });
+
+  if (errors.length) {
+    throw new AppError(StatusCodes.BAD_REQUEST, errors.join(", "));
+  }
+};
+
+// Create a seeded workflow version, tolerating another request seeding it first
+const seedWorkflow = async (
+  definition: ICreateWorkflow,
+  version: number
+): Promise<void> => {
+  try {
+    await Workflow.create({
+      ...definition,
+      version,
+      isActive: true,
+      activatedAt: new Date(),
+    });
+  } catch (error) {
+    if ((error as { code?: number }).code !== 11000) {
+      throw error;
+    }
+  }
+};
+
+// Seed the default workflows until an admin has configured their own versions
+const ensureDefaultWorkflow = async (): Promise<void> => {
+  const workflowCount = await Workflow.countDocuments();
+  if (workflowCount >= DEFAULT_WORKFLOW_VERSION) {
+    return;
+  }
+
+  // Version 1 stays frozen for the parcels created under it
+  if (workflowCount === 0) {
+    await seedWorkflow(defaultWorkflow, LEGACY_WORKFLOW_VERSION);
+  }
+
+  // New parcels move to version 2, switched on before version 1 goes off
+  await seedWorkflow(defaultWorkflowV2, DEFAULT_WORKFLOW_VERSION);
+  await Workflow.updateMany(
+    { isActive: true, version: { $ne: DEFAULT_WORKFLOW_VERSION } },
+    { $set: { isActive: false } }
+  );
+};
+
+// Get the workflow new parcels are created under
+const getActiveWorkflow = async (): Promise<IWorkflow> => {
+  await ensureDefaultWorkflow();
+
+  // The latest activation wins while a switch-over is in flight
+  const workflow = await Workflow.findOne({ isActive: true }).sort({
+    activatedAt: -1,
+  });
+  if (!workflow) {
+    throw new AppError(
+      StatusCodes.INTERNAL_SERVER_ERROR,
+      "No active parcel workflow is configured"
+    );
+  }
+
+  return workflow;
+};
+
+// Get a workflow by version
+const getWorkflowByVersion = async (version: number): Promise<IWorkflow> => {
+  await ensureDefaultWorkflow();
+
+  const workflow = await Workflow.findOne({ version });
+  if (!workflow) {
+    throw new AppError(
+      StatusCodes.NOT_FOUND,
+      `Workflow version ${version} not found`
+    );
+  }
+
+  return workflow;
+};
+
+// Get the workflow a parcel was created under
+const getWorkflowForParcel = async (parcel: {
+  workflowVersion?: number;
+}): Promise<IWorkflow> => {
+  return getWorkflowByVersion(
+    parcel.workflowVersion ?? LEGACY_WORKFLOW_VERSION
+  );
+};
+
+// Check whether a status is terminal in the given workflow
+const isTerminalStatus = (workflow: IWorkflow, status: string): boolean => {
+  return workflow.statuses.some(
+    (workflowStatus) => workflowStatus.key === status && workflowStatus.isTerminal
+  );
+};
+
+// Get the statuses a role may move a parcel to from its current status
+const getAllowedNextStatuses = (
+  workflow: IWorkflow,
+  from: string,
+  role?: string
+): string[] => {
+  return workflow.transitions
+    .filter(
+      (transition) =>
+        transition.from === from && (!role || transition.roles.includes(role))
+    )
+    .map((transition) => transition.to);
+};
+
+// Throw if the workflow does not allow the role to perform the transition
+const assertTransition = (
+  workflow: IWorkflow,
+  from: string,
+  to: string,
+  role: string
+): void => {
+  if (isTerminalStatus(workflow, from)) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Parcel is already ${from} and cannot be moved to ${to}`
+    );
+  }
+
+  const transition = workflow.transitions.find(
+    (item) => item.from === from && item.to === to
+  );
+  if (!transition) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      `Cannot transition from ${from} to ${to}`
+    );
+  }
+
+  if (!transition.roles.includes(role)) {
+    throw new AppError(
+      StatusCodes.FORBIDDEN,
+      `Role ${role} is not allowed to transition from ${from} to ${to}`
+    );
+  }
+};
+
+// Get all workflow versions (Admin only)
+const getAllWorkflows = async (
+  query: Record<string, string>
+): Promise<{
+  workflows: IWorkflow[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  await ensureDefaultWorkflow();
+
+  const workflowQuery = new QueryBuilder(Workflow.find(), {
+    sort: "-version",
+    ...query,
+  })
+    .search(["name", "description"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const workflows = (await workflowQuery.build()) as IWorkflow[];
+  const meta = await workflowQuery.getMeta();
+
+  return { workflows, meta };
+};
+
+// Create a new draft workflow version (Admin only)
+const createWorkflow = async (
+  adminId: string,
+  workflowData: ICreateWorkflow
+): Promise<IWorkflow> => {
+  validateDefinition(workflowData);
+  await ensureDefaultWorkflow();
+
+  for (let attempt = 0; attempt < MAX_VERSION_ATTEMPTS; attempt++) {
+    const latestWorkflow = await Workflow.findOne().sort({ version: -1 });
+    const version = (latestWorkflow?.version ?? 0) + 1;
+
+    try {
+      return await Workflow.create({
+        ...workflowData,
+        version,
+        isActive: false,
+        createdBy: adminId,
+      });
+    } catch (error) {
+      // Another request took the version number first, read the next one
+      if ((error as { code?: number }).code !== 11000) {
+        throw error;
+      }
+    }
+  }
+
+  throw new AppError(
+    StatusCodes.CONFLICT,
+    "Could not assign a workflow version, please try again"
+  );
+};
+
+// Update a draft workflow version (Admin only)
+const updateWorkflow = async (
+  version: number,
+  updateData: IUpdateWorkflow
+): Promise<IWorkflow> => {
+  const workflow = await getWorkflowByVersion(version);
+
+  if (workflow.activatedAt) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Workflow versions that have been activated cannot be changed, create a new version instead"
+    );
+  }
+
+  const definition: ICreateWorkflow = {
+    name: updateData.name ?? workflow.name,
+    description: updateData.description ?? workflow.description,
+    statuses: updateData.statuses ?? workflow.statuses,
+    transitions: updateData.transitions ?? workflow.transitions,
+  };
+  validateDefinition(definition);
+
+  const updatedWorkflow = await Workflow.findOneAndUpdate(
+    { version },
+    { $set: definition },
+    { new: true, runValidators: true }
+  );
+  return updatedWorkflow as IWorkflow;
+};
+
+// Make a workflow version the one used for new parcels (Admin only)
+const activateWorkflow = async (version: number): Promise<IWorkflow> => {
+  const workflow = await getWorkflowByVersion(version);
+
+  if (workflow.isActive) {
+    throw new AppError(StatusCodes.BAD_REQUEST, "Workflow is already active");
+  }
+
+  // Switch the new version on before the others off, so one is always active
+  await Workflow.bulkWrite(
+    [
+      {
+        updateOne: {
+          filter: { version },
+          update: {
+            $set: {
+              isActive: true,
+              activatedAt: workflow.activatedAt ?? new Date(),
+            },
+          },
+        },
+      },
+      {
+        updateMany: {
+          filter: { isActive: true, version: { $ne: version } },
+          update: { $set: { isActive: false } },
+        },
+      },
+    ],
+    { ordered: true }
+  );
+
+  return getWorkflowByVersion(version);
+};
+
+// Delete a draft workflow version (Admin only)
+const deleteWorkflow = async (version: number): Promise<void> => {
+  const workflow = await getWorkflowByVersion(version);
+
+  if (workflow.isActive || workflow.activatedAt) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Only draft workflow versions can be deleted"
+    );
+  }
+
+  const parcelCount = await Parcel.countDocuments({ workflowVersion: version });
+  if (parcelCount > 0) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Workflow version is used by existing parcels"
+    );
+  }
+
+  await Workflow.findOneAndDelete({ version });
+};
+
+export const WorkflowService = {
+  getActiveWorkflow,
+  getWorkflowByVersion,
+  getWorkflowForParcel,
+  isTerminalStatus,
+  getAllowedNextStatuses,
+  assertTransition,
+  getAllWorkflows,
+  createWorkflow,
+  updateWorkflow,
+  activateWorkflow,
+  deleteWorkflow,
+};
@@ -0,0 +1,80 @@
+import { z } from "zod";
+import { workflowRoles } from "./workflow.constant";
+
+const statusKeySchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(
+    /^[a-z][a-z0-9_]*$/,
+    "Status key may only contain lowercase letters, numbers and underscores"
+  );
+
+// Workflow status validation schema
+const workflowStatusSchema = z.object({
+  key: statusKeySchema,
+  label: z.string().trim().min(1, "Status label is required"),
+  isTerminal: z.boolean().default(false),
+});
+
+// Workflow transition validation schema
+const workflowTransitionSchema = z.object({
+  from: statusKeySchema,
+  to: statusKeySchema,
+  roles: z
+    .array(
+      z.enum(workflowRoles as [string, ...string[]], {
+        message: `Role must be one of ${workflowRoles.join(", ")}`,
+      })
+    )
+    .min(1, "At least one role is required")
+    .default(["admin"]),
+});
+
+const createWorkflowValidationSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, "Workflow name is required"),
+    description: z
+      .string()
+      .trim()
+      .max(500, "Description cannot exceed 500 characters")
+      .optional(),
+    statuses: z
+      .array(workflowStatusSchema)
+      .min(1, "At least one status is required"),
+    transitions: z
+      .array(workflowTransitionSchema)
+      .min(1, "At least one transition is required"),
+  }),
+});
+
+const updateWorkflowValidationSchema = z.object({
+  body: z.object({
+    name: z.string().trim().min(1, "Workflow name is required").optional(),
+    description: z
+      .string()
+      .trim()
+      .max(500, "Description cannot exceed 500 characters")
+      .optional(),
+    statuses: z
+      .array(workflowStatusSchema)
+      .min(1, "At least one status is required")
+      .optional(),
+    transitions: z
+      .array(workflowTransitionSchema)
+      .min(1, "At least one transition is required")
+      .optional(),
+  }),
+});
+
+const workflowVersionValidationSchema = z.object({
+  params: z.object({
+    version: z.string().regex(/^\d+$/, "Invalid workflow version"),
+  }),
+});
+
+export const WorkflowValidation = {
+  createWorkflowValidationSchema,
+  updateWorkflowValidationSchema,
+  workflowVersionValidationSchema,
+};
@@ -0,0 +1,114 @@
+import type { Request, Response } from "express";
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { catchAsync } from "../../utils/catchAsync";
+import { sendResponse } from "../../utils/sendResponse";
+import { ZoneService } from "./zone.service";
+
+// Get all zones (Admin only)
+const getAllZones = catchAsync(async (req: Request, res: Response) => {
+  const result = await ZoneService.getAllZones(
+    req.query as Record<string, string>
+  );
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Zones retrieved successfully",
+    data: result.zones,
+    meta: result.meta,
+  });
+});
+
+// Get zone by ID (Admin only)
+const getZoneById = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await ZoneService.getZoneById(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Zone retrieved successfully",
+    data: result,
+  });
+});
+
+// Create zone (Admin only)
+const createZone = catchAsync(async (req: Request, res: Response) => {
+  const adminId = req.user?.userId;
+
+  if (!adminId) {
+    throw new AppError(StatusCodes.UNAUTHORIZED, "User not authenticated");
+  }
+
+  const result = await ZoneService.createZone(adminId, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.CREATED,
+    success: true,
+    message: "Zone created successfully",
+    data: result,
+  });
+});
+
+// Update zone (Admin only)
+const updateZone = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  const result = await ZoneService.updateZone(id, req.body);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Zone updated successfully",
+    data: result,
+  });
+});
+
+// Delete zone (Admin only)
+const deleteZone = catchAsync(async (req: Request, res: Response) => {
+  const { id } = req.params;
+
+  await ZoneService.deleteZone(id);
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: "Zone deleted successfully",
+    data: null,
+  });
+});
+
+// Check whether an address is inside a service zone (Public)
+const checkCoverage = catchAsync(async (req: Request, res: Response) => {
+  const { country, state, city, zipCode } = req.query as Record<
+    string,
+    string
+  >;
+
+  const result = await ZoneService.checkCoverage({
+    country,
+    state,
+    city,
+    zipCode,
+  });
+
+  sendResponse(res, {
+    statusCode: StatusCodes.OK,
+    success: true,
+    message: result.serviceable
+      ? "Address is inside our service area"
+      : "Address is outside our service area",
+    data: result,
+  });
+});
+
+export const ZoneController = {
+  getAllZones,
+  getZoneById,
+  createZone,
+  updateZone,
+  deleteZone,
+  checkCoverage,
+};
@@ -0,0 +1,44 @@
+import { ObjectId } from "mongoose";
+
+export interface IZone {
+  _id: ObjectId;
+  code: string; // Short unique zone code, e.g. "DHK-N"
+  name: string;
+  country: string;
+  state?: string; // Any state of the country when empty
+  city?: string; // Any city of the state when empty
+  zipCodePatterns: string[]; // Exact codes or prefixes ending in "*", any zip code when empty
+  autoAssignEnabled: boolean; // Assign riders automatically when parcels are approved
+  pickupCutoffTime?: string; // HH:mm (UTC), overrides the default pickup cut-off
+  isActive: boolean;
+  createdBy?: ObjectId; // Reference to User
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Input interfaces for API operations
+export interface ICreateZone {
+  code: string;
+  name: string;
+  country: string;
+  state?: string;
+  city?: string;
+  zipCodePatterns?: string[];
+  autoAssignEnabled?: boolean;
+  pickupCutoffTime?: string;
+}
+
+export type IUpdateZone = Partial<ICreateZone> & { isActive?: boolean };
+
+// Address fields zones are matched on
+export interface IZoneAddress {
+  country: string;
+  state: string;
+  city: string;
+  zipCode: string;
+}
+
+export interface ICoverageCheck {
+  serviceable: boolean;
+  zone: Pick<IZone, "code" | "name"> | null; // Zone covering the address
+}
@@ -0,0 +1,66 @@
+import { model, Model, Schema } from "mongoose";
+import { IZone } from "./zone.interface";
+
+export type ZoneModel = Model<IZone>;
+
+const timeOfDayRegex = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// Main Zone Schema
+const zoneSchema = new Schema<IZone, ZoneModel>(
+  {
+    code: {
+      type: String,
+      required: [true, "Zone code is required"],
+      unique: true,
+      trim: true,
+      uppercase: true,
+    },
+    name: {
+      type: String,
+      required: [true, "Zone name is required"],
+      trim: true,
+      maxlength: [100, "Zone name cannot exceed 100 characters"],
+    },
+    country: {
+      type: String,
+      required: [true, "Country is required"],
+      trim: true,
+    },
+    state: {
+      type: String,
+      trim: true,
+    },
+    city: {
+      type: String,
+      trim: true,
+    },
+    zipCodePatterns: {
+      type: [String],
+      default: [],
+    },
+    autoAssignEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    pickupCutoffTime: {
+      type: String,
+      match: [timeOfDayRegex, "Cut-off time must be in HH:mm format"],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+    versionKey: false,
+  }
+);
+
+zoneSchema.index({ isActive: 1, country: 1 });
+
+export const Zone = model<IZone, ZoneModel>("Zone", zoneSchema);
@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { checkAuth } from "../../middlewares/checkAuth";
+import { validateRequest } from "../../middlewares/validateRequest";
+import { ZoneController } from "./zone.controller";
+import { ZoneValidation } from "./zone.validation";
+
+const router = Router();
+
+// Admin Routes
+router.get("/", checkAuth("admin"), ZoneController.getAllZones);
+
+router.post(
+  "/",
+  checkAuth("admin"),
+  validateRequest(ZoneValidation.createZoneValidationSchema),
+  ZoneController.createZone
+);
+
+router.get(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(ZoneValidation.zoneIdValidationSchema),
+  ZoneController.getZoneById
+);
+
+router.put(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(ZoneValidation.zoneIdValidationSchema),
+  validateRequest(ZoneValidation.updateZoneValidationSchema),
+  ZoneController.updateZone
+);
+
+router.delete(
+  "/:id",
+  checkAuth("admin"),
+  validateRequest(ZoneValidation.zoneIdValidationSchema),
+  ZoneController.deleteZone
+);
+
+// Public coverage check, mounted at /coverage
+const coverageRouter = Router();
+
+coverageRouter.get(
+  "/check",
+  validateRequest(ZoneValidation.checkCoverageValidationSchema),
+  ZoneController.checkCoverage
+);
+
+export const ZoneRoutes = router;
+export const CoverageRoutes = coverageRouter;
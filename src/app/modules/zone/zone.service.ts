@@ -0,0 +1,205 @@
+import { StatusCodes } from "http-status-codes";
+import AppError from "../../errorHelpers/AppError";
+import { QueryBuilder } from "../../utils/QueryBuilder";
+import { User } from "../user/user.model";
+import {
+  ICoverageCheck,
+  ICreateZone,
+  IUpdateZone,
+  IZone,
+  IZoneAddress,
+} from "./zone.interface";
+import { Zone } from "./zone.model";
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+// Match a zip code against an exact code or a prefix ending in "*"
+const matchesZipCodePattern = (zipCode: string, pattern: string): boolean => {
+  const code = normalize(zipCode);
+  const normalizedPattern = normalize(pattern);
+
+  return normalizedPattern.endsWith("*")
+    ? code.startsWith(normalizedPattern.slice(0, -1))
+    : code === normalizedPattern;
+};
+
+// How closely a zone fits an address, null when it does not cover it
+const getZoneMatchScore = (
+  zone: IZone,
+  address: IZoneAddress
+): number | null => {
+  if (normalize(zone.country) !== normalize(address.country)) {
+    return null;
+  }
+  if (zone.state && normalize(zone.state) !== normalize(address.state)) {
+    return null;
+  }
+  if (zone.city && normalize(zone.city) !== normalize(address.city)) {
+    return null;
+  }
+  if (
+    zone.zipCodePatterns.length &&
+    !zone.zipCodePatterns.some((pattern) =>
+      matchesZipCodePattern(address.zipCode, pattern)
+    )
+  ) {
+    return null;
+  }
+
+  return (
+    (zone.state ? 1 : 0) +
+    (zone.city ? 2 : 0) +
+    (zone.zipCodePatterns.length ? 4 : 0)
+  );
+};
+
+// Make sure no other zone uses the code
+const assertCodeAvailable = async (
+  code: string,
+  zoneId?: string
+): Promise<void> => {
+  const existingZone = await Zone.findOne({
+    code: code.toUpperCase(),
+    ...(zoneId && { _id: { $ne: zoneId } }),
+  });
+
+  if (existingZone) {
+    throw new AppError(
+      StatusCodes.CONFLICT,
+      `Zone with code ${code.toUpperCase()} already exists`
+    );
+  }
+};
+
+// Get all zones (Admin only)
+const getAllZones = async (
+  query: Record<string, string>
+): Promise<{
+  zones: IZone[];
+  meta: { page: number; limit: number; totalPage: number; total: number };
+}> => {
+  const zoneQuery = new QueryBuilder(Zone.find(), { sort: "code", ...query })
+    .search(["code", "name", "country", "state", "city"])
+    .filter()
+    .sort()
+    .paginate()
+    .fields();
+
+  const zones = (await zoneQuery.build()) as IZone[];
+  const meta = await zoneQuery.getMeta();
+
+  return { zones, meta };
+};
+
+// Get zone by ID (Admin only)
+const getZoneById = async (zoneId: string): Promise<IZone> => {
+  const zone = await Zone.findById(zoneId);
+
+  if (!zone) {
+    throw new AppError(StatusCodes.NOT_FOUND, "Zone not found");
+  }
+
+  return zone;
+};
+
+// Create a zone (Admin only)
+const createZone = async (
+  adminId: string,
+  payload: ICreateZone
+): Promise<IZone> => {
+  await assertCodeAvailable(payload.code);
+
+  return Zone.create({ ...payload, createdBy: adminId });
+};
+
+// Update a zone, including toggling automatic assignment (Admin only)
+const updateZone = async (
+  zoneId: string,
+  payload: IUpdateZone
+): Promise<IZone> => {
+  await getZoneById(zoneId);
+
+  if (payload.code) {
+    await assertCodeAvailable(payload.code, zoneId);
+  }
+
+  const updatedZone = await Zone.findByIdAndUpdate(zoneId, payload, {
+    new: true,
+    runValidators: true,
+  });
+
+  return updatedZone as IZone;
+};
+
+// Delete a zone no rider serves (Admin only)
+const deleteZone = async (zoneId: string): Promise<void> => {
+  await getZoneById(zoneId);
+
+  if (await User.exists({ "riderProfile.zones": zoneId })) {
+    throw new AppError(
+      StatusCodes.BAD_REQUEST,
+      "Zone is served by riders, remove it from their profiles or deactivate it instead"
+    );
+  }
+
+  await Zone.findByIdAndDelete(zoneId);
+};
+
+// Active zones, matched in memory so matching stays case-insensitive (zones are few)
+const getActiveZones = async (): Promise<IZone[]> => {
+  return Zone.find({ isActive: true }).sort({ code: 1 });
+};
+
+// Pick the most specific of the given zones covering an address
+const matchZone = (zones: IZone[], address: IZoneAddress): IZone | null => {
+  let bestZone: IZone | null = null;
+  let bestScore = -1;
+
+  zones.forEach((zone) => {
+    const score = getZoneMatchScore(zone, address);
+    if (score !== null && score > bestScore) {
+      bestZone = zone;
+      bestScore = score;
+    }
+  });
+
+  return bestZone;
+};
+
+// Find the most specific active zone covering an address
+const findZoneForAddress = async (
+  address: IZoneAddress
+): Promise<IZone | null> => {
+  return matchZone(await getActiveZones(), address);
+};
+
+// Check whether we deliver to an address (Public)
+const checkCoverage = async (
+  address: IZoneAddress
+): Promise<ICoverageCheck> => {
+  const zones = await getActiveZones();
+
+  // Coverage is only enforced once at least one zone is configured
+  if (!zones.length) {
+    return { serviceable: true, zone: null };
+  }
+
+  const zone = matchZone(zones, address);
+
+  return {
+    serviceable: !!zone,
+    zone: zone && { code: zone.code, name: zone.name },
+  };
+};
+
+export const ZoneService = {
+  getAllZones,
+  getZoneById,
+  createZone,
+  updateZone,
+  deleteZone,
+  getActiveZones,
+  matchZone,
+  findZoneForAddress,
+  checkCoverage,
+};
@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+const zoneCodeSchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(
+    /^[A-Z0-9-]{2,20}$/,
+    "Zone code may only contain letters, numbers and dashes (2-20 characters)"
+  );
+
+const zoneNameSchema = z
+  .string()
+  .trim()
+  .min(2, "Zone name must be at least 2 characters")
+  .max(100, "Zone name cannot exceed 100 characters");
+
+// Exact zip codes or prefixes ending in a single "*"
+const zipCodePatternsSchema = z
+  .array(
+    z
+      .string()
+      .trim()
+      .regex(
+        /^[A-Za-z0-9 -]+\*?$/,
+        "Zip code pattern must be a zip code or a prefix ending in *"
+      )
+  )
+  .max(500, "A zone cannot have more than 500 zip code patterns");
+
+const cutoffTimeSchema = z
+  .string()
+  .trim()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Cut-off time must be in HH:mm format");
+
+const createZoneValidationSchema = z.object({
+  body: z.object({
+    code: zoneCodeSchema,
+    name: zoneNameSchema,
+    country: z.string().trim().min(1, "Country is required"),
+    state: z.string().trim().min(1, "State cannot be empty").optional(),
+    city: z.string().trim().min(1, "City cannot be empty").optional(),
+    zipCodePatterns: zipCodePatternsSchema.optional(),
+    autoAssignEnabled: z.boolean().optional(),
+    pickupCutoffTime: cutoffTimeSchema.optional(),
+  }),
+});
+
+const updateZoneValidationSchema = z.object({
+  body: z.object({
+    code: zoneCodeSchema.optional(),
+    name: zoneNameSchema.optional(),
+    country: z.string().trim().min(1, "Country cannot be empty").optional(),
+    state: z.string().trim().min(1, "State cannot be empty").optional(),
+    city: z.string().trim().min(1, "City cannot be empty").optional(),
+    zipCodePatterns: zipCodePatternsSchema.optional(),
+    autoAssignEnabled: z.boolean().optional(),
+    pickupCutoffTime: cutoffTimeSchema.optional(),
+    isActive: z.boolean().optional(),
+  }),
+});
+
+const zoneIdValidationSchema = z.object({
+  params: z.object({
+    id: z.string().regex(/^[0-9a-fA-F]{24}$/, "Invalid zone ID format"),
+  }),
+});
+
+const checkCoverageValidationSchema = z.object({
+  query: z.object({
+    country: z.string().trim().min(1, "Country is required"),
+    state: z.string().trim().min(1, "State is required"),
+    city: z.string().trim().min(1, "City is required"),
+    zipCode: z.string().trim().min(1, "Zip code is required"),
+  }),
+});
+
+export const ZoneValidation = {
+  createZoneValidationSchema,
+  updateZoneValidationSchema,
+  zoneIdValidationSchema,
+  checkCoverageValidationSchema,
+};
@@ -1,7 +1,19 @@
 import { Request, Response, Router } from "express";
 import { AuthRoutes } from "../modules/auth/auth.route";
+import { ClaimRoutes } from "../modules/claim/claim.route";
+import { CodRoutes } from "../modules/cod/cod.route";
+import { CouponRoutes } from "../modules/coupon/coupon.route";
+import { HolidayRoutes } from "../modules/holiday/holiday.route";
+import { HubRoutes } from "../modules/hub/hub.route";
+import { InvoiceRoutes } from "../modules/invoice/invoice.route";
 import { ParcelRoutes } from "../modules/parcel/parcel.route";
+import { PickupSlotRoutes } from "../modules/pickupSlot/pickupSlot.route";
+import { RateCardRoutes } from "../modules/rateCard/rateCard.route";
+import { SlaRoutes } from "../modules/sla/sla.route";
+import { TaxRoutes } from "../modules/tax/tax.route";
 import { UserRoutes } from "../modules/user/user.route";
+import { WorkflowRoutes } from "../modules/workflow/workflow.route";
+import { CoverageRoutes, ZoneRoutes } from "../modules/zone/zone.route";
 
 const router = Router();
 
@@ -18,6 +30,58 @@ const moduleRoutes = [
     path: "/parcel",
     route: ParcelRoutes,
   },
+  {
+    path: "/workflow",
+    route: WorkflowRoutes,
+  },
+  {
+    path: "/pickup-slot",
+    route: PickupSlotRoutes,
+  },
+  {
+    path: "/hub",
+    route: HubRoutes,
+  },
+  {
+    path: "/zone",
+    route: ZoneRoutes,
+  },
+  {
+    path: "/coverage",
+    route: CoverageRoutes,
+  },
+  {
+    path: "/holiday",
+    route: HolidayRoutes,
+  },
+  {
+    path: "/sla",
+    route: SlaRoutes,
+  },
+  {
+    path: "/cod",
+    route: CodRoutes,
+  },
+  {
+    path: "/invoice",
+    route: InvoiceRoutes,
+  },
+  {
+    path: "/coupon",
+    route: CouponRoutes,
+  },
+  {
+    path: "/rate-card",
+    route: RateCardRoutes,
+  },
+  {
+    path: "/claim",
+    route: ClaimRoutes,
+  },
+  {
+    path: "/tax-rule",
+    route: TaxRoutes,
+  },
 ];
 
 router.get("/health", (req: Request, res: Response) => {
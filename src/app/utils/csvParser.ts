@@ -0,0 +1,75 @@
+export interface ICsvRecord {
+  rowNumber: number; // Row number in the spreadsheet, the header is row 1
+  values: Record<string, string>;
+}
+
+/**
+ * Parse CSV text into records keyed by the header row (RFC 4180 quoting)
+ * @param content - Raw CSV text, first row is the header
+ * @returns One record per non-empty data row
+ */
+export const parseCsv = (content: string): ICsvRecord[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip the byte order mark spreadsheet exports often start with
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Unterminated quoted field in CSV');
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [headerRow, ...dataRows] = rows;
+  if (!headerRow) {
+    return [];
+  }
+
+  const headers = headerRow.map((header) => header.trim().toLowerCase());
+
+  return dataRows
+    .map((values, index) => ({
+      rowNumber: index + 2,
+      values: headers.reduce<Record<string, string>>((record, header, column) => {
+        record[header] = (values[column] ?? '').trim();
+        return record;
+      }, {})
+    }))
+    .filter((record) => Object.values(record.values).some((value) => value !== ''));
+};
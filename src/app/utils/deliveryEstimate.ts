@@ -0,0 +1,82 @@
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Working days used to count delivery time
+export interface IBusinessCalendar {
+  weekendDays: number[]; // Days of the week without deliveries (0 = Sunday, UTC)
+  holidays: Set<string>; // Non-working days as YYYY-MM-DD (UTC)
+}
+
+/**
+ * Get the start (midnight UTC) of the day a date falls on
+ * @param date - Any time on the day
+ * @returns Midnight UTC of that day
+ */
+export const getStartOfDay = (date: Date): Date =>
+  new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+  );
+
+/**
+ * Check whether a day is a working day in the calendar
+ * @param date - Any time on the day
+ * @param calendar - Weekend days and holidays
+ * @returns True when parcels are picked up and delivered on that day
+ */
+export const isBusinessDay = (
+  date: Date,
+  calendar: IBusinessCalendar
+): boolean =>
+  !calendar.weekendDays.includes(date.getUTCDay()) &&
+  !calendar.holidays.has(date.toISOString().slice(0, 10));
+
+/**
+ * Check whether a time is at or past a daily cut-off time
+ * @param date - Time to check
+ * @param cutoffTime - Cut-off time of day in HH:mm format (UTC)
+ * @returns True when the time is on or after the cut-off
+ */
+export const isPastCutoff = (date: Date, cutoffTime: string): boolean => {
+  const [hours, minutes] = cutoffTime.split(":").map(Number);
+
+  return (
+    date.getUTCHours() * 60 + date.getUTCMinutes() >= hours * 60 + minutes
+  );
+};
+
+/**
+ * Estimate the delivery day by counting business days from a start time
+ * @param start - When the parcel is handed over (or its status changed)
+ * @param businessDays - Business days needed, 0 means the first business day
+ * @param calendar - Weekend days and holidays to skip
+ * @param cutoffTime - Optional HH:mm (UTC), hand-overs after it count from the next day
+ * @returns Estimated delivery day (midnight UTC)
+ */
+export const estimateDeliveryDate = (
+  start: Date,
+  businessDays: number,
+  calendar: IBusinessCalendar,
+  cutoffTime?: string
+): Date => {
+  if (new Set(calendar.weekendDays).size >= 7) {
+    throw new Error("Business calendar has no working days");
+  }
+
+  let day = getStartOfDay(start);
+  if (cutoffTime && isPastCutoff(start, cutoffTime)) {
+    day = new Date(day.getTime() + MS_PER_DAY);
+  }
+
+  while (!isBusinessDay(day, calendar)) {
+    day = new Date(day.getTime() + MS_PER_DAY);
+  }
+
+  let remainingDays = businessDays;
+  while (remainingDays > 0) {
+    day = new Date(day.getTime() + MS_PER_DAY);
+    if (isBusinessDay(day, calendar)) {
+      remainingDays--;
+    }
+  }
+
+  return day;
+};
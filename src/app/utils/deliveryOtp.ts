@@ -0,0 +1,40 @@
+import crypto from "crypto";
+
+/**
+ * Generate a 6-digit one-time delivery code
+ * @returns The plain delivery code
+ */
+export const generateDeliveryOtp = (): string => {
+  return crypto.randomInt(100000, 1000000).toString();
+};
+
+/**
+ * Hash a delivery code so it is never stored in plain text
+ * @param parcelId - The parcel the code belongs to (used as salt)
+ * @param otp - The plain delivery code
+ * @returns Hex encoded hash of the code
+ */
+export const hashDeliveryOtp = (parcelId: string, otp: string): string => {
+  return crypto.createHash("sha256").update(`${parcelId}:${otp}`).digest("hex");
+};
+
+/**
+ * Compare a submitted delivery code with the stored hash
+ * @param parcelId - The parcel the code belongs to
+ * @param otp - The submitted delivery code
+ * @param codeHash - The stored hash
+ * @returns boolean indicating if the code matches
+ */
+export const isDeliveryOtpMatched = (
+  parcelId: string,
+  otp: string,
+  codeHash: string
+): boolean => {
+  const submittedHash = Buffer.from(hashDeliveryOtp(parcelId, otp), "hex");
+  const storedHash = Buffer.from(codeHash, "hex");
+
+  return (
+    submittedHash.length === storedHash.length &&
+    crypto.timingSafeEqual(submittedHash, storedHash)
+  );
+};
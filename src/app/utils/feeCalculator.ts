@@ -1,49 +1,268 @@
-import { IDeliveryInfo, IParcelDetails, IPricing } from '../modules/parcel/parcel.interface';
+import { ICreateParcelPiece, IDeliveryInfo, IParcelDetails, IParcelInsurance, IPricing, ITaxLine } from '../modules/parcel/parcel.interface';
+import { IInsuranceRate, IRateCard } from '../modules/rateCard/rateCard.interface';
+import { ITaxRule, TaxableComponent, TaxMode } from '../modules/tax/tax.interface';
 
-interface IFeeCalculationInput {
-  parcelDetails: IParcelDetails;
-  deliveryInfo: IDeliveryInfo;
+type IFeeParcelDetails = Pick<IParcelDetails, 'type' | 'weight' | 'dimensions'>;
+
+type IFeeTaxRule = Pick<ITaxRule, 'name' | 'rate' | 'mode' | 'components'>;
+
+export interface IFeeCalculationInput {
+  parcelDetails: IFeeParcelDetails;
+  deliveryInfo: Pick<IDeliveryInfo, 'urgency'>;
+  pieces?: ICreateParcelPiece[];
+  originZone?: string; // Zone code of the pickup address
+  destinationZone?: string; // Zone code of the delivery address
+  insurancePremium?: number; // Premium of an insured parcel
+  taxRules?: IFeeTaxRule[]; // Tax rules of the pickup address
   discount?: number;
   couponCode?: string;
 }
 
 /**
- * Calculate parcel delivery fees based on weight, urgency, and other factors
- * @param input - Object containing parcel details and delivery information
- * @returns Calculated pricing breakdown
+ * Get the chargeable weight of a shipment
+ * @param parcelDetails - Parcel details containing weight
+ * @param pieces - Pieces of a multi-piece shipment, if any
+ * @returns Total weight in kg
+ */
+export const getTotalWeight = (
+  parcelDetails: IFeeParcelDetails,
+  pieces?: ICreateParcelPiece[]
+): number => {
+  if (!pieces?.length) {
+    return parcelDetails.weight;
+  }
+
+  return Math.round(pieces.reduce((total, piece) => total + piece.weight, 0) * 100) / 100;
+};
+
+const roundToTwoDecimals = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * Get the volumetric weight of a shipment
+ * @param parcelDetails - Parcel details containing dimensions in cm
+ * @param divisor - Cubic centimetres per kg
+ * @param pieces - Pieces of a multi-piece shipment, if any
+ * @returns Volumetric weight in kg, 0 when no dimensions are known
+ */
+export const getVolumetricWeight = (
+  parcelDetails: IFeeParcelDetails,
+  divisor: number,
+  pieces?: ICreateParcelPiece[]
+): number => {
+  const dimensions = pieces?.length
+    ? pieces.map((piece) => piece.dimensions)
+    : [parcelDetails.dimensions];
+
+  const volume = dimensions.reduce(
+    (total, size) => total + (size ? size.length * size.width * size.height : 0),
+    0
+  );
+
+  return roundToTwoDecimals(volume / divisor);
+};
+
+/**
+ * Calculate the insurance of a parcel's declared value
+ * @param declaredValue - Declared value of the parcel contents
+ * @param rate - Insurance rate of the parcel type
+ * @returns Covered amount, capped by the rate's maximum coverage, and the premium charged for it
+ */
+export const calculateInsurance = (
+  declaredValue: number,
+  rate: IInsuranceRate
+): IParcelInsurance => {
+  const coverageAmount = Math.min(declaredValue, rate.maxCoverage ?? Infinity);
+  const premium = Math.min(
+    Math.max((coverageAmount * rate.premiumRate) / 100, rate.minPremium ?? 0),
+    rate.maxPremium ?? Infinity
+  );
+
+  return {
+    declaredValue,
+    coverageAmount,
+    premium: roundToTwoDecimals(premium)
+  };
+};
+
+/**
+ * Calculate the tax lines of a parcel's fees
+ * @param components - Amount of every taxable pricing component
+ * @param discountShare - Share of the fees left after the discount (1 without a discount)
+ * @param taxRules - Tax rules of the pickup address, all in the same mode
+ * @returns One tax line per rule; inclusive taxes are the part of the fees that is tax
  */
-export const calculateParcelFee = (input: IFeeCalculationInput): IPricing => {
-  const { parcelDetails, deliveryInfo, discount = 0, couponCode } = input;
+export const calculateTaxes = (
+  components: Record<TaxableComponent, number>,
+  discountShare: number,
+  taxRules: IFeeTaxRule[]
+): ITaxLine[] => {
+  // Inclusive fees contain every inclusive tax on them, so each component's base
+  // is taken out once with the combined rate and every rate applies to that base
+  const getInclusiveBase = (component: TaxableComponent): number => {
+    const combinedRate = taxRules
+      .filter((rule) => rule.mode === TaxMode.INCLUSIVE && rule.components.includes(component))
+      .reduce((total, rule) => total + rule.rate, 0);
+
+    return (components[component] * discountShare * 100) / (100 + combinedRate);
+  };
+
+  return taxRules.map((rule) => {
+    const taxableAmount = roundToTwoDecimals(
+      rule.components.reduce((total, component) => total + components[component], 0) * discountShare
+    );
+    const amount =
+      rule.mode === TaxMode.INCLUSIVE
+        ? (rule.components.reduce((total, component) => total + getInclusiveBase(component), 0) *
+            rule.rate) /
+          100
+        : (taxableAmount * rule.rate) / 100;
+
+    return {
+      name: rule.name,
+      rate: rule.rate,
+      taxableAmount,
+      amount: roundToTwoDecimals(amount)
+    };
+  });
+};
+
+/**
+ * Calculate parcel delivery fees from a rate card
+ * @param input - Object containing parcel details, delivery information and route zones
+ * @param rateCard - Rate card with zone rates, weight slabs, surcharges and urgency multipliers
+ * @returns Calculated pricing breakdown, recording the rate card version used
+ */
+export const calculateParcelFee = (
+  input: IFeeCalculationInput,
+  rateCard: Pick<
+    IRateCard,
+    | 'version'
+    | 'defaultBaseFee'
+    | 'zoneRates'
+    | 'weightSlabs'
+    | 'volumetricDivisor'
+    | 'parcelTypeSurcharges'
+    | 'urgencyMultipliers'
+  >
+): IPricing => {
+  const {
+    parcelDetails,
+    deliveryInfo,
+    pieces,
+    originZone,
+    destinationZone,
+    insurancePremium,
+    taxRules = [],
+    discount = 0,
+    couponCode
+  } = input;
   
-  // Base delivery fee
-  const baseFee = 50;
+  // Base delivery fee of the route, falling back to the card's default
+  const zoneRate = rateCard.zoneRates.find(
+    (rate) => rate.originZone === originZone && rate.destinationZone === destinationZone
+  );
+  const baseFee = zoneRate?.baseFee ?? rateCard.defaultBaseFee;
   
-  // Weight-based fee (per kg)
-  const weightFee = parcelDetails.weight * 10;
+  // Chargeable weight is the greater of the actual and volumetric weight, aggregated across pieces
+  const actualWeight = getTotalWeight(parcelDetails, pieces);
+  const volumetricWeight = rateCard.volumetricDivisor
+    ? getVolumetricWeight(parcelDetails, rateCard.volumetricDivisor, pieces)
+    : undefined;
+  const chargeableWeight = Math.max(actualWeight, volumetricWeight ?? 0);
   
-  // Urgency multipliers
-  const urgencyMultiplier = {
-    standard: 1,
-    express: 1.5,
-    urgent: 2
-  };
+  // Weight-based fee from the first slab covering the chargeable weight
+  const slab =
+    rateCard.weightSlabs.find((weightSlab) => chargeableWeight <= weightSlab.maxWeight) ??
+    rateCard.weightSlabs[rateCard.weightSlabs.length - 1];
+  const weightFee = roundToTwoDecimals(slab.flatFee + chargeableWeight * slab.perKgFee);
+  
+  // Surcharge for the parcel type
+  const surcharge =
+    rateCard.parcelTypeSurcharges.find((item) => item.parcelType === parcelDetails.type)?.amount ?? 0;
   
   // Calculate urgency fee
-  const urgencyFee = baseFee * (urgencyMultiplier[deliveryInfo.urgency] - 1);
+  const urgencyFee = roundToTwoDecimals(baseFee * (rateCard.urgencyMultipliers[deliveryInfo.urgency] - 1));
   
   // Calculate subtotal
-  const subtotal = baseFee + weightFee + urgencyFee;
+  const subtotal = baseFee + weightFee + surcharge + urgencyFee + (insurancePremium ?? 0);
   
   // Apply discount
-  const totalFee = Math.max(0, subtotal - discount);
+  const discountedFee = Math.max(0, subtotal - discount);
+  
+  // Tax the components the rules cover, exclusive taxes are added on top
+  const taxes = calculateTaxes(
+    {
+      baseFee,
+      weightFee,
+      surcharge,
+      urgencyFee,
+      insurancePremium: insurancePremium ?? 0
+    },
+    subtotal > 0 ? discountedFee / subtotal : 0,
+    taxRules
+  );
+  const taxTotal = roundToTwoDecimals(taxes.reduce((total, tax) => total + tax.amount, 0));
+  const taxMode = taxes.length ? taxRules[0].mode : undefined;
+  const totalFee = roundToTwoDecimals(
+    discountedFee + (taxMode === TaxMode.EXCLUSIVE ? taxTotal : 0)
+  );
   
   return {
+    actualWeight,
+    volumetricWeight,
+    chargeableWeight,
     baseFee,
     weightFee,
+    surcharge,
     urgencyFee,
+    insurancePremium,
     totalFee,
     discount: discount > 0 ? discount : undefined,
-    couponCode: couponCode || undefined
+    couponCode: couponCode || undefined,
+    rateCardVersion: rateCard.version,
+    taxMode,
+    taxes: taxes.length ? taxes : undefined,
+    taxTotal: taxes.length ? taxTotal : undefined
+  };
+};
+
+/**
+ * Apply the return-fee policy to the pricing of a return shipment
+ * @param pricing - Pricing calculated for the return leg
+ * @param policy - "free", "full" or "percentage" of the regular fee
+ * @param percentage - Percentage of the regular fee charged for the "percentage" policy
+ * @returns Pricing breakdown charged for the return leg
+ */
+export const applyReturnFeePolicy = (
+  pricing: IPricing,
+  policy: 'free' | 'full' | 'percentage',
+  percentage = 100
+): IPricing => {
+  const multiplier = {
+    free: 0,
+    full: 1,
+    percentage: Math.min(Math.max(percentage, 0), 100) / 100
+  }[policy];
+
+  const scale = (amount: number): number => roundToTwoDecimals(amount * multiplier);
+  const taxes = pricing.taxes?.map((tax) => ({
+    ...tax,
+    taxableAmount: scale(tax.taxableAmount),
+    amount: scale(tax.amount)
+  }));
+
+  return {
+    ...pricing,
+    baseFee: scale(pricing.baseFee),
+    weightFee: scale(pricing.weightFee),
+    urgencyFee: scale(pricing.urgencyFee),
+    surcharge: scale(pricing.surcharge ?? 0),
+    insurancePremium:
+      pricing.insurancePremium === undefined ? undefined : scale(pricing.insurancePremium),
+    totalFee: scale(pricing.totalFee),
+    taxes,
+    // The total of the rounded lines, so it matches the lines shown
+    taxTotal: taxes && roundToTwoDecimals(taxes.reduce((total, tax) => total + tax.amount, 0))
   };
 };
 
@@ -51,19 +270,24 @@ export const calculateParcelFee = (input: IFeeCalculationInput): IPricing => {
  * Validate fee calculation parameters
  * @param parcelDetails - Parcel details containing weight
  * @param deliveryInfo - Delivery information containing urgency
+ * @param pieces - Pieces of a multi-piece shipment, each limited to 50kg
  * @returns boolean indicating if parameters are valid for fee calculation
  */
 export const validateFeeCalculationInput = (
-  parcelDetails: IParcelDetails,
-  deliveryInfo: IDeliveryInfo
+  parcelDetails: IFeeParcelDetails,
+  deliveryInfo: Pick<IDeliveryInfo, 'urgency'>,
+  pieces?: ICreateParcelPiece[]
 ): { isValid: boolean; errors: string[] } => {
   const errors: string[] = [];
+  const weights = pieces?.length
+    ? pieces.map((piece) => piece.weight)
+    : [parcelDetails.weight];
   
-  if (!parcelDetails.weight || parcelDetails.weight <= 0) {
+  if (weights.some((weight) => !weight || weight <= 0)) {
     errors.push('Weight must be greater than 0');
   }
   
-  if (parcelDetails.weight > 50) {
+  if (weights.some((weight) => weight > 50)) {
     errors.push('Weight cannot exceed 50kg');
   }
   
@@ -0,0 +1,84 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { envVars } from "../config/env";
+
+export interface IUploadedFile {
+  buffer: Buffer;
+  originalName: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface IStoredFile {
+  key: string; // Adapter specific reference used to read the file back
+  size: number;
+}
+
+// Storage backend for uploaded files (local disk, object storage...)
+export interface IStorageAdapter {
+  save(file: IUploadedFile, folder: string): Promise<IStoredFile>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Create a storage adapter that keeps files on the local filesystem
+ * @param rootDir - Directory files are stored under
+ * @returns Local filesystem storage adapter
+ */
+export const createLocalStorageAdapter = (rootDir: string): IStorageAdapter => {
+  const root = path.resolve(rootDir);
+
+  // Resolve a key inside the storage root, rejecting path traversal
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(`${root}${path.sep}`)) {
+      throw new Error("Invalid file key");
+    }
+    return filePath;
+  };
+
+  return {
+    save: async (file, folder) => {
+      const extension = path.extname(file.originalName).toLowerCase();
+      const key = path.posix.join(
+        folder,
+        `${Date.now()}-${crypto.randomBytes(8).toString("hex")}${extension}`
+      );
+      const filePath = resolveKey(key);
+
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, file.buffer);
+
+      return { key, size: file.size };
+    },
+    read: async (key) => {
+      const filePath = resolveKey(key);
+      await fs.promises.access(filePath);
+      return fs.createReadStream(filePath);
+    },
+    remove: async (key) => {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+  };
+};
+
+let activeStorageAdapter: IStorageAdapter = createLocalStorageAdapter(
+  envVars.UPLOAD_DIR
+);
+
+/**
+ * Replace the storage adapter used for uploaded files
+ * @param adapter - Storage adapter implementation
+ */
+export const setStorageAdapter = (adapter: IStorageAdapter): void => {
+  activeStorageAdapter = adapter;
+};
+
+/**
+ * Get the storage adapter used for uploaded files
+ * @returns The active storage adapter
+ */
+export const getStorageAdapter = (): IStorageAdapter => activeStorageAdapter;
@@ -0,0 +1,132 @@
+import { envVars } from "../config/env";
+
+export interface INotificationRecipient {
+  name?: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface INotification {
+  to: INotificationRecipient;
+  subject: string;
+  message: string;
+  secrets?: string[]; // Values in the message that must not be logged, e.g. one-time codes
+}
+
+// Delivery channel (email, SMS, push...) used to reach users outside the API
+export interface INotifier {
+  send(notification: INotification): Promise<void>;
+}
+
+// Notifier outside production: writes notifications to the server log, masking secrets
+// outside development
+const consoleNotifier: INotifier = {
+  send: async (notification) => {
+    const message =
+      envVars.NODE_ENV === "development"
+        ? notification.message
+        : (notification.secrets ?? []).reduce(
+            (text, secret) => text.split(secret).join("******"),
+            notification.message
+          );
+
+    // eslint-disable-next-line no-console
+    console.log(
+      `[notification] to ${notification.to.email || notification.to.phone}: ${notification.subject} - ${message}`
+    );
+  },
+};
+
+/**
+ * Create a notifier that sends notifications as SMS through the Twilio API
+ * @param config - Twilio account SID, auth token and sending phone number
+ * @returns Notifier texting the recipient's phone number
+ */
+export const createTwilioNotifier = (config: {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+}): INotifier => ({
+  send: async (notification) => {
+    if (!notification.to.phone) {
+      throw new Error("Notification recipient has no phone number");
+    }
+
+    const credentials = Buffer.from(
+      `${config.accountSid}:${config.authToken}`
+    ).toString("base64");
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({
+          To: notification.to.phone,
+          From: config.fromNumber,
+          Body: notification.message,
+        }).toString(),
+      }
+    );
+
+    if (!response.ok) {
+      const body = (await response.json()) as { message?: string };
+      throw new Error(body.message || `Twilio responded ${response.status}`);
+    }
+  },
+});
+
+/**
+ * Pick the notifier from NOTIFIER, failing at startup when production has none
+ * @returns Configured notifier, or the console notifier outside production
+ */
+const createConfiguredNotifier = (): INotifier => {
+  const { ACCOUNT_SID, AUTH_TOKEN, FROM_NUMBER } = envVars.TWILIO;
+
+  switch (envVars.NOTIFIER) {
+    case "twilio":
+      if (!ACCOUNT_SID || !AUTH_TOKEN || !FROM_NUMBER) {
+        throw new Error(
+          "TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN and TWILIO_FROM_NUMBER are required when NOTIFIER is twilio"
+        );
+      }
+      return createTwilioNotifier({
+        accountSid: ACCOUNT_SID,
+        authToken: AUTH_TOKEN,
+        fromNumber: FROM_NUMBER,
+      });
+    case "console":
+    case undefined:
+      // Receivers need their delivery code, so production must deliver it for real
+      if (envVars.NODE_ENV === "production") {
+        throw new Error(
+          "NOTIFIER must be set to twilio in production, delivery codes cannot reach receivers otherwise"
+        );
+      }
+      return consoleNotifier;
+    default:
+      throw new Error(`Unknown NOTIFIER ${envVars.NOTIFIER}`);
+  }
+};
+
+let activeNotifier: INotifier = createConfiguredNotifier();
+
+/**
+ * Replace the notifier used to deliver notifications
+ * @param notifier - Notifier implementation (e.g. email or SMS provider)
+ */
+export const setNotifier = (notifier: INotifier): void => {
+  activeNotifier = notifier;
+};
+
+/**
+ * Send a notification through the active notifier
+ * @param notification - Recipient and content of the notification
+ */
+export const sendNotification = async (
+  notification: INotification
+): Promise<void> => {
+  await activeNotifier.send(notification);
+};
@@ -0,0 +1,206 @@
+import crypto from "crypto";
+import httpStatus from "http-status-codes";
+import { envVars } from "../config/env";
+import AppError from "../errorHelpers/AppError";
+
+export interface IPaymentCharge {
+  amount: number;
+  currency: string;
+  reference: string; // Invoice number shown on the statement
+  paymentMethod: string; // Gateway specific token (card, wallet...)
+}
+
+export interface IPaymentRefund {
+  transactionId: string; // Transaction returned by the charge
+  amount: number;
+  currency: string;
+  reference: string;
+  reason?: string;
+}
+
+export interface IPaymentResult {
+  success: boolean;
+  transactionId?: string; // Set when the gateway accepted the request
+  failureReason?: string; // Set when the gateway declined the request
+}
+
+// Payment provider used to charge and refund shipping fees
+export interface IPaymentGateway {
+  name: string;
+  charge(payment: IPaymentCharge): Promise<IPaymentResult>;
+  refund(refund: IPaymentRefund): Promise<IPaymentResult>;
+}
+
+// Payment method the fake gateway always declines
+export const FAKE_DECLINED_PAYMENT_METHOD = "pm_fake_declined";
+
+/**
+ * Create an in-process payment gateway that never contacts a provider
+ * @returns Fake gateway: every payment method except FAKE_DECLINED_PAYMENT_METHOD
+ * is charged, and only charged transactions can be refunded (once, up to the charged amount)
+ */
+export const createFakePaymentGateway = (): IPaymentGateway => {
+  const charges = new Map<string, { amount: number; refunded: boolean }>();
+
+  const createTransactionId = (): string =>
+    `fake_${crypto.randomBytes(12).toString("hex")}`;
+
+  return {
+    name: "fake",
+    charge: async (payment) => {
+      if (payment.paymentMethod === FAKE_DECLINED_PAYMENT_METHOD) {
+        return { success: false, failureReason: "Payment method declined" };
+      }
+
+      const transactionId = createTransactionId();
+      charges.set(transactionId, { amount: payment.amount, refunded: false });
+
+      return { success: true, transactionId };
+    },
+    refund: async (refund) => {
+      const charge = charges.get(refund.transactionId);
+
+      if (!charge) {
+        return { success: false, failureReason: "Transaction not found" };
+      }
+      if (charge.refunded) {
+        return { success: false, failureReason: "Transaction already refunded" };
+      }
+      if (refund.amount > charge.amount) {
+        return {
+          success: false,
+          failureReason: "Refund exceeds the charged amount",
+        };
+      }
+
+      charge.refunded = true;
+
+      return { success: true, transactionId: createTransactionId() };
+    },
+  };
+};
+
+const STRIPE_API_URL = "https://api.stripe.com/v1";
+
+/**
+ * Create a payment gateway backed by the Stripe API
+ * @param secretKey - Stripe secret API key
+ * @returns Gateway charging payment methods through payment intents
+ */
+export const createStripePaymentGateway = (
+  secretKey: string
+): IPaymentGateway => {
+  const request = async (
+    path: string,
+    params: Record<string, string>
+  ): Promise<IPaymentResult> => {
+    const response = await fetch(`${STRIPE_API_URL}${path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${secretKey}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+    const body = (await response.json()) as {
+      id?: string;
+      status?: string;
+      error?: { message?: string };
+    };
+
+    // Declines are answered with 402, anything else unexpected is a gateway failure
+    if (response.status === 402) {
+      return { success: false, failureReason: body.error?.message };
+    }
+    if (!response.ok) {
+      throw new Error(
+        body.error?.message || `Stripe responded ${response.status}`
+      );
+    }
+    if (body.status !== "succeeded") {
+      return { success: false, failureReason: `Payment ${body.status}` };
+    }
+
+    return { success: true, transactionId: body.id };
+  };
+
+  // Stripe takes amounts in the currency's smallest unit
+  const toMinorUnits = (amount: number): string =>
+    String(Math.round(amount * 100));
+
+  return {
+    name: "stripe",
+    charge: (payment) =>
+      request("/payment_intents", {
+        amount: toMinorUnits(payment.amount),
+        currency: payment.currency.toLowerCase(),
+        payment_method: payment.paymentMethod,
+        confirm: "true",
+        description: payment.reference,
+        "automatic_payment_methods[enabled]": "true",
+        "automatic_payment_methods[allow_redirects]": "never",
+      }),
+    refund: (refund) =>
+      request("/refunds", {
+        payment_intent: refund.transactionId,
+        amount: toMinorUnits(refund.amount),
+        "metadata[reference]": refund.reference,
+        ...(refund.reason && { "metadata[reason]": refund.reason }),
+      }),
+  };
+};
+
+/**
+ * Pick the payment gateway from PAYMENT_GATEWAY
+ * @returns Configured gateway, the fake gateway in development, or null when none is configured
+ */
+const createConfiguredPaymentGateway = (): IPaymentGateway | null => {
+  switch (envVars.PAYMENT_GATEWAY) {
+    case "stripe":
+      if (!envVars.STRIPE_SECRET_KEY) {
+        throw new Error(
+          "STRIPE_SECRET_KEY is required when PAYMENT_GATEWAY is stripe"
+        );
+      }
+      return createStripePaymentGateway(envVars.STRIPE_SECRET_KEY);
+    case "fake":
+      // The fake gateway accepts any payment method, so it never runs in production
+      if (envVars.NODE_ENV === "production") {
+        throw new Error("PAYMENT_GATEWAY fake cannot be used in production");
+      }
+      return createFakePaymentGateway();
+    case undefined:
+      return envVars.NODE_ENV === "development"
+        ? createFakePaymentGateway()
+        : null;
+    default:
+      throw new Error(`Unknown PAYMENT_GATEWAY ${envVars.PAYMENT_GATEWAY}`);
+  }
+};
+
+let activePaymentGateway: IPaymentGateway | null =
+  createConfiguredPaymentGateway();
+
+/**
+ * Replace the payment gateway used for invoices
+ * @param gateway - Payment gateway implementation
+ */
+export const setPaymentGateway = (gateway: IPaymentGateway): void => {
+  activePaymentGateway = gateway;
+};
+
+/**
+ * Get the payment gateway used for invoices
+ * @returns The active payment gateway
+ * @throws AppError 503 when no payment gateway is configured
+ */
+export const getPaymentGateway = (): IPaymentGateway => {
+  if (!activePaymentGateway) {
+    throw new AppError(
+      httpStatus.SERVICE_UNAVAILABLE,
+      "Online payments are not available, no payment gateway is configured"
+    );
+  }
+
+  return activePaymentGateway;
+};
@@ -0,0 +1,64 @@
+import crypto from "crypto";
+import httpStatus from "http-status-codes";
+import { JwtPayload } from "jsonwebtoken";
+import { envVars } from "../config/env";
+import AppError from "../errorHelpers/AppError";
+import { IQuoteTokenPayload } from "../modules/parcel/parcel.interface";
+import { generateToken, verifyToken } from "./jwt";
+
+/**
+ * Sign the shipment a quote was priced for, under a new quote ID
+ * @param payload - Parcel details, urgency, route zones and rate card version of the quote
+ * @returns Quote token and the time it stops being redeemable
+ */
+export const createQuoteToken = (
+  payload: Omit<IQuoteTokenPayload, "quoteId">
+): { quoteToken: string; expiresAt: Date } => {
+  const validityMinutes = Number(envVars.QUOTE.VALIDITY_MINUTES);
+
+  const quoteToken = generateToken(
+    { ...payload, quoteId: crypto.randomBytes(16).toString("hex") },
+    envVars.QUOTE.TOKEN_SECRET,
+    `${validityMinutes}m`
+  );
+
+  return {
+    quoteToken,
+    expiresAt: new Date(Date.now() + validityMinutes * 60 * 1000),
+  };
+};
+
+/**
+ * Verify a quote token redeemed at parcel creation
+ * @param quoteToken - Token returned by the quote endpoint
+ * @returns Shipment the quote was priced for
+ */
+export const verifyQuoteToken = (quoteToken: string): IQuoteTokenPayload => {
+  try {
+    const quote = verifyToken(
+      quoteToken,
+      envVars.QUOTE.TOKEN_SECRET
+    ) as JwtPayload;
+
+    // Quotes signed before quote IDs cannot be redeemed only once
+    if (!quote.quoteId) {
+      throw new Error("Quote has no ID");
+    }
+
+    return {
+      quoteId: quote.quoteId,
+      type: quote.type,
+      weight: quote.weight,
+      dimensions: quote.dimensions,
+      urgency: quote.urgency,
+      originZone: quote.originZone,
+      destinationZone: quote.destinationZone,
+      rateCardVersion: quote.rateCardVersion,
+    };
+  } catch {
+    throw new AppError(
+      httpStatus.BAD_REQUEST,
+      "Quote has expired or is invalid, request a new quote"
+    );
+  }
+};
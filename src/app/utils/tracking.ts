@@ -24,4 +24,24 @@ export const generateTrackingId = (): string => {
 export const isValidTrackingId = (trackingId: string): boolean => {
   const trackingRegex = /^TRK-\d{8}-\d{6}$/;
   return trackingRegex.test(trackingId);
-}; 
\ No newline at end of file
+};
+
+/**
+ * Generate the sub-ID of a piece in a multi-piece shipment
+ * @param trackingId - Master tracking ID of the shipment
+ * @param index - Zero-based position of the piece
+ * @returns Piece ID in the format: TRK-YYYYMMDD-XXXXXX-P01
+ */
+export const generatePieceId = (trackingId: string, index: number): string => {
+  return `${trackingId}-P${String(index + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Validate piece ID format
+ * @param pieceId - The piece ID to validate
+ * @returns boolean indicating if the format is valid
+ */
+export const isValidPieceId = (pieceId: string): boolean => {
+  const pieceRegex = /^TRK-\d{8}-\d{6}-P\d{2}$/;
+  return pieceRegex.test(pieceId);
+};
@@ -3,18 +3,66 @@ import { Server } from "http";
 import mongoose from "mongoose";
 import app from "./app";
 import { envVars } from "./app/config/env";
+import { ParcelService } from "./app/modules/parcel/parcel.service";
+import { SlaService } from "./app/modules/sla/sla.service";
 
 let server: Server;
 
+// Raise and clear SLA exceptions in the background (0 disables the checker)
+const startSlaChecker = () => {
+  const intervalMinutes = Number(envVars.SLA_CHECK_INTERVAL_MINUTES);
+
+  if (!(intervalMinutes > 0)) {
+    return;
+  }
+
+  setInterval(async () => {
+    try {
+      const report = await SlaService.runSlaCheck();
+      if (report.exceptionsRaised || report.exceptionsResolved) {
+        console.log(
+          `SLA check raised ${report.exceptionsRaised} and resolved ${report.exceptionsResolved} exceptions`
+        );
+      }
+    } catch (error) {
+      console.log("SLA check failed", error);
+    }
+  }, intervalMinutes * 60 * 1000).unref();
+};
+
 const startServer = async () => {
   try {
     await mongoose.connect(envVars.DB_URL);
 
     console.log("Connected to DB!!");
 
+    // Parcels assigned before riders were users still embed the delivery personnel
+    const migratedParcels = await ParcelService.migrateLegacyDeliveryPersonnel();
+    if (migratedParcels) {
+      console.log(
+        `Migrated delivery personnel of ${migratedParcels} parcels to rider references`
+      );
+    }
+
+    // Parcels created before pickup addresses are picked up from the sender's address
+    const backfilledParcels = await ParcelService.migrateLegacyPickupInfo();
+    if (backfilledParcels) {
+      console.log(
+        `Filled in the pickup address of ${backfilledParcels} parcels from their senders`
+      );
+    }
+
+    // Parcels priced before coupon ids were stored only know the coupon's code
+    const linkedParcels = await ParcelService.migrateLegacyCouponIds();
+    if (linkedParcels) {
+      console.log(`Linked ${linkedParcels} parcels to their redeemed coupons`);
+    }
+
     server = app.listen(envVars.PORT, () => {
       console.log(`DROPOLLO API Server is listening to port ${envVars.PORT}`);
     });
+
+    startSlaChecker();
   } catch (error) {
     console.log(error);
   }